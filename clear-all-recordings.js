@@ -5,7 +5,13 @@
 
 console.log('🧹 Starting complete recordings cleanup...\n');
 
-// 1. Clear recordings from localStorage
+// 1. Clear recordings from the meeting store
+fetch('/api/meetings', { method: 'DELETE' })
+    .then(response => response.json())
+    .then(result => console.log(`✅ Cleared ${result.deleted} recording(s) from the meeting store`))
+    .catch(() => console.log('ℹ️  Could not reach the meeting store'));
+
+// Clear legacy recordings from localStorage
 const recordingsCleared = localStorage.getItem('recordings');
 if (recordingsCleared) {
     const count = JSON.parse(recordingsCleared).length;
@@ -1,18 +1,17 @@
-// Clear all recordings from localStorage
+// Clear all recordings from the meeting store
 // Run this script in the browser's developer console on the BusyBee app
 
-// Clear recordings from localStorage
-localStorage.removeItem('recordings');
+fetch('/api/meetings', { method: 'DELETE' })
+    .then(response => response.json())
+    .then(result => {
+        if (result.success) {
+            console.log(`✅ Cleared ${result.deleted} recording(s) from the meeting store`);
+        } else {
+            console.log('❌ Failed to clear recordings:', result.error);
+        }
 
-// Verify clearing
-const remainingRecordings = localStorage.getItem('recordings');
-if (!remainingRecordings) {
-    console.log('✅ All recordings have been cleared from localStorage');
-} else {
-    console.log('❌ Recordings still exist:', JSON.parse(remainingRecordings));
-}
+        // Also drop any legacy localStorage copy so it isn't migrated back in
+        localStorage.removeItem('recordings');
 
-// Alternative: Clear all localStorage data for the app
-// localStorage.clear(); // Uncomment this line to clear ALL app data
-
-console.log('Recordings cleared. Refresh the page to see the empty state.');
\ No newline at end of file
+        console.log('Recordings cleared. Refresh the page to see the empty state.');
+    });
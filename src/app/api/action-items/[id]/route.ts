@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ActionItemStore } from '@/lib/action-item-store';
+import { ActionItemInput } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { description, assignee, dueDate, status }: Partial<ActionItemInput> = await request.json();
+    // Where an item came from is fixed; only these fields are editable
+    const patch = { description, assignee, dueDate, status };
+
+    const errors = ActionItemStore.validate(patch);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const item = ActionItemStore.update(id, patch);
+    if (!item) {
+      return NextResponse.json({ error: 'Action item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    return NextResponse.json({ error: 'Failed to update action item' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!ActionItemStore.remove(id)) {
+      return NextResponse.json({ error: 'Action item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting action item:', error);
+    return NextResponse.json({ error: 'Failed to delete action item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ActionItemStore } from '@/lib/action-item-store';
+import { formatCarriedOverItems } from '@/lib/action-items';
+import { Recording } from '@/types';
+
+const MEETING_TYPES: Recording['type'][] = ['commission', 'case', 'board', 'general', 'other'];
+
+// Open items to bring back at the next meeting.
+// GET /api/action-items/agenda?bodyId=csc  or  ?type=board&date=2025-04-01
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const bodyId = params.get('bodyId') || undefined;
+    const type = (params.get('type') || 'commission') as Recording['type'];
+    const date = params.get('date');
+
+    const errors: string[] = [];
+    if (!MEETING_TYPES.includes(type)) {
+      errors.push(`type must be one of: ${MEETING_TYPES.join(', ')}`);
+    }
+    if (date && isNaN(Date.parse(date))) {
+      errors.push(`Invalid date: ${date}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const items = ActionItemStore.openBefore({ bodyId, type, date: date ? new Date(date) : new Date() });
+    return NextResponse.json({ items, markdown: formatCarriedOverItems(items) });
+  } catch (error) {
+    console.error('Error building action item agenda:', error);
+    return NextResponse.json({ error: 'Failed to build agenda' }, { status: 500 });
+  }
+}
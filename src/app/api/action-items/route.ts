@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ActionItemStore, ActionItemFilter } from '@/lib/action-item-store';
+import { MeetingStore } from '@/lib/meeting-store';
+import { ActionItemInput } from '@/types';
+
+const STATUS_FILTERS = ['active', ...ActionItemStore.STATUSES];
+
+// GET /api/action-items?status=active&assignee=Fitial&meetingId=...&bodyId=csc&overdue=true
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const status = (params.get('status') || undefined) as ActionItemFilter['status'];
+
+    if (status && !STATUS_FILTERS.includes(status)) {
+      return NextResponse.json({ error: `status must be one of: ${STATUS_FILTERS.join(', ')}` }, { status: 400 });
+    }
+
+    return NextResponse.json(ActionItemStore.list({
+      status,
+      assignee: params.get('assignee') || undefined,
+      meetingId: params.get('meetingId') || undefined,
+      bodyId: params.get('bodyId') || undefined,
+      overdue: params.get('overdue') === 'true'
+    }));
+  } catch (error) {
+    console.error('Error loading action items:', error);
+    return NextResponse.json({ error: 'Failed to load action items' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { meetingId, timestamp, ...input }: Partial<ActionItemInput> & { meetingId?: string; timestamp?: number } = await request.json();
+
+    if (!meetingId || !input.description) {
+      return NextResponse.json({ error: 'Missing required fields: meetingId, description' }, { status: 400 });
+    }
+
+    const errors = ActionItemStore.validate(input);
+    if (timestamp !== undefined && !(typeof timestamp === 'number' && timestamp >= 0)) {
+      errors.push('Timestamp must be seconds into the recording');
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const recording = MeetingStore.get(meetingId);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    const item = ActionItemStore.create(recording, { ...input, description: input.description, timestamp });
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error('Error creating action item:', error);
+    return NextResponse.json({ error: 'Failed to create action item' }, { status: 500 });
+  }
+}
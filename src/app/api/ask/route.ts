@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArchiveQA } from '@/lib/archive-qa';
+import { LLM_PROVIDER_IDS } from '@/lib/llm-provider';
+import { LLMProviderId, Recording } from '@/types';
+
+interface QuestionRequest {
+  question: string;
+  bodyId?: string;
+  type?: Recording['type'];
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  provider?: LLMProviderId;
+}
+
+const MAX_QUESTION_LENGTH = 500;
+
+/**
+ * Answer a question from the stored meetings, citing the passages it relies on
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { question, bodyId, type, from, to, provider }: QuestionRequest = await request.json();
+
+    const errors: string[] = [];
+    if (typeof question !== 'string' || !question.trim()) {
+      errors.push('Missing required field: question');
+    } else if (question.length > MAX_QUESTION_LENGTH) {
+      errors.push(`Questions are limited to ${MAX_QUESTION_LENGTH} characters`);
+    }
+    const invalid = [from, to].filter(date => date && isNaN(Date.parse(date)));
+    if (invalid.length > 0) {
+      errors.push(`Invalid date: ${invalid.join(', ')}`);
+    }
+    if (provider && !LLM_PROVIDER_IDS.includes(provider)) {
+      errors.push(`provider must be one of: ${LLM_PROVIDER_IDS.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const answer = await ArchiveQA.ask(question.trim(), {
+      bodyId: bodyId || undefined,
+      type: type || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      provider
+    });
+    console.log(`💬 Answered "${question.trim()}" (${answer.mode}, ${answer.citations.length} citations)`);
+
+    return NextResponse.json(answer);
+  } catch (error) {
+    console.error('Error answering question:', error);
+    return NextResponse.json({ error: 'Failed to answer question' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BodyStore } from '@/lib/body-store';
+import { GoverningBodyInput } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = BodyStore.get(id);
+
+    if (!body) {
+      return NextResponse.json({ error: 'Governing body not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error loading governing body:', error);
+    return NextResponse.json({ error: 'Failed to load governing body' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const patch: Partial<GoverningBodyInput> = await request.json();
+
+    const errors = BodyStore.validate(patch);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const body = BodyStore.update(id, patch);
+    if (!body) {
+      return NextResponse.json({ error: 'Governing body not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error updating governing body:', error);
+    return NextResponse.json({ error: 'Failed to update governing body' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!BodyStore.remove(id)) {
+      return NextResponse.json({ error: 'Governing body not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting governing body:', error);
+    return NextResponse.json({ error: 'Failed to delete governing body' }, { status: 500 });
+  }
+}
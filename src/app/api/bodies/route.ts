@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BodyStore } from '@/lib/body-store';
+import { GoverningBodyInput } from '@/types';
+
+export async function GET() {
+  try {
+    return NextResponse.json(BodyStore.list());
+  } catch (error) {
+    console.error('Error loading governing bodies:', error);
+    return NextResponse.json({ error: 'Failed to load governing bodies' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input: Partial<GoverningBodyInput> = await request.json();
+
+    if (!input.name) {
+      return NextResponse.json({ error: 'Missing required field: name' }, { status: 400 });
+    }
+
+    const errors = BodyStore.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const body = BodyStore.create({ ...input, name: input.name });
+    console.log(`🏛️ Governing body created: ${body.name}`);
+
+    return NextResponse.json(body, { status: 201 });
+  } catch (error) {
+    console.error('Error creating governing body:', error);
+    return NextResponse.json({ error: 'Failed to create governing body' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarStore } from '@/lib/calendar-store';
+import { CalendarEventInput } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const event = CalendarStore.get(id);
+
+    if (!event) {
+      return NextResponse.json({ error: 'Calendar event not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(event);
+  } catch (error) {
+    console.error('Error loading calendar event:', error);
+    return NextResponse.json({ error: 'Failed to load calendar event' }, { status: 500 });
+  }
+}
+
+// Also how proposed events are confirmed or dismissed: { "status": "confirmed" }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const patch: Partial<CalendarEventInput> = await request.json();
+    const existing = CalendarStore.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Calendar event not found' }, { status: 404 });
+    }
+
+    // Check the times as they'll be saved, so moving only the start is caught too
+    const errors = CalendarStore.validate({ ...patch, start: patch.start ?? existing.start, end: patch.end ?? existing.end });
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    return NextResponse.json(CalendarStore.update(id, patch));
+  } catch (error) {
+    console.error('Error updating calendar event:', error);
+    return NextResponse.json({ error: 'Failed to update calendar event' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!CalendarStore.remove(id)) {
+      return NextResponse.json({ error: 'Calendar event not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting calendar event:', error);
+    return NextResponse.json({ error: 'Failed to delete calendar event' }, { status: 500 });
+  }
+}
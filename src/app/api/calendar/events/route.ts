@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarStore } from '@/lib/calendar-store';
+import { CalendarEventInput, CalendarEventStatus } from '@/types';
+
+// GET /api/calendar/events?from=2025-03-01&to=2025-03-31&status=proposed
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+    const status = (params.get('status') || undefined) as CalendarEventStatus | undefined;
+
+    const errors: string[] = [];
+    const invalid = [from, to].filter(date => date && !/^\d{4}-\d{2}-\d{2}$/.test(date));
+    if (invalid.length > 0) {
+      errors.push(`Invalid date (use YYYY-MM-DD): ${invalid.join(', ')}`);
+    }
+    if (status && !CalendarStore.STATUSES.includes(status)) {
+      errors.push(`status must be one of: ${CalendarStore.STATUSES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    return NextResponse.json(CalendarStore.list({ from, to, status }));
+  } catch (error) {
+    console.error('Error loading calendar events:', error);
+    return NextResponse.json({ error: 'Failed to load calendar events' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input: Partial<CalendarEventInput> = await request.json();
+
+    if (!input.title || !input.start) {
+      return NextResponse.json({ error: 'Missing required fields: title, start' }, { status: 400 });
+    }
+
+    const errors = CalendarStore.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const event = CalendarStore.create({ ...input, title: input.title, start: input.start });
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar event:', error);
+    return NextResponse.json({ error: 'Failed to create calendar event' }, { status: 500 });
+  }
+}
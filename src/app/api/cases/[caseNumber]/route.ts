@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CaseDocket } from '@/lib/case-docket';
+
+interface RouteContext {
+  params: Promise<{ caseNumber: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { caseNumber } = await params;
+    const record = CaseDocket.get(decodeURIComponent(caseNumber));
+
+    if (!record) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(record);
+  } catch (error) {
+    console.error('Error loading case:', error);
+    return NextResponse.json({ error: 'Failed to load case' }, { status: 500 });
+  }
+}
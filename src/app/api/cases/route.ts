@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { CaseDocket } from '@/lib/case-docket';
+
+export async function GET() {
+  try {
+    return NextResponse.json(CaseDocket.list());
+  } catch (error) {
+    console.error('Error loading case docket:', error);
+    return NextResponse.json({ error: 'Failed to load case docket' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobQueue } from '@/lib/job-queue';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = JobQueue.get(id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error loading job:', error);
+    return NextResponse.json({ error: 'Failed to load job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { TranscriptStore } from '@/lib/transcript-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Every analysis run on the meeting, oldest first, each tied to the transcript version it used
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!MeetingStore.get(id)) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(TranscriptStore.listAnalyses(id));
+  } catch (error) {
+    console.error('Error loading analyses:', error);
+    return NextResponse.json({ error: 'Failed to load analyses' }, { status: 500 });
+  }
+}
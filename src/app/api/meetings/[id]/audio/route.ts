@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { MeetingStore } from '@/lib/meeting-store';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const audio = MeetingStore.getAudio(id);
+
+    if (!audio) {
+      return NextResponse.json({ error: 'Audio not found' }, { status: 404 });
+    }
+
+    const audioContent = fs.readFileSync(audio.filePath);
+
+    // Browsers request byte ranges to seek; without them playback can only start at 0
+    const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+      const size = audioContent.length;
+      const start = range[1] ? parseInt(range[1]) : Math.max(size - parseInt(range[2]), 0);
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2]), size - 1) : size - 1;
+
+      if (start >= size || start > end) {
+        return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+      }
+
+      return new NextResponse(audioContent.subarray(start, end + 1), {
+        status: 206,
+        headers: {
+          'Content-Type': audio.mimeType,
+          'Content-Length': (end - start + 1).toString(),
+          'Content-Range': `bytes ${start}-${end}/${size}`,
+          'Accept-Ranges': 'bytes',
+          'Cache-Control': 'no-cache'
+        }
+      });
+    }
+
+    return new NextResponse(audioContent, {
+      headers: {
+        'Content-Type': audio.mimeType,
+        'Content-Length': audioContent.length.toString(),
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error reading meeting audio:', error);
+    return NextResponse.json({ error: 'Failed to read audio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CaseDocket } from '@/lib/case-docket';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Case details filed for this hearing, see CaseDocket
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const hearing = CaseDocket.getHearing(id);
+
+    if (!hearing) {
+      return NextResponse.json({ error: 'No case hearing is filed for this meeting' }, { status: 404 });
+    }
+
+    return NextResponse.json(hearing);
+  } catch (error) {
+    console.error('Error loading case hearing:', error);
+    return NextResponse.json({ error: 'Failed to load case hearing' }, { status: 500 });
+  }
+}
+
+// File the hearing under a case number: { "caseNumber": "CSC-24-012" }
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { caseNumber } = await request.json();
+
+    if (typeof caseNumber !== 'string' || !caseNumber.trim()) {
+      return NextResponse.json({ error: 'Missing required field: caseNumber' }, { status: 400 });
+    }
+    if (caseNumber.trim().length > 50) {
+      return NextResponse.json({ error: 'caseNumber must be 50 characters or fewer' }, { status: 400 });
+    }
+
+    const hearing = CaseDocket.assign(id, caseNumber);
+    if (!hearing) {
+      return NextResponse.json({ error: 'No case hearing is filed for this meeting. Process it as a case hearing first.' }, { status: 404 });
+    }
+
+    return NextResponse.json(hearing);
+  } catch (error) {
+    console.error('Error assigning case number:', error);
+    return NextResponse.json({ error: 'Failed to assign case number' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { MeetingExport } from '@/lib/meeting-export';
+import { MeetingFileType } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Download one of the meeting's files: `?type=audio|transcript|summary|analysis`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const type = request.nextUrl.searchParams.get('type') as MeetingFileType | null;
+
+    if (!type || !MeetingExport.FILE_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${MeetingExport.FILE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = MeetingStore.get(id);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    const file = MeetingExport.file(recording, type);
+    if (!file) {
+      return NextResponse.json({ error: `This meeting has no ${type} yet` }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': file.data.length.toString(),
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error downloading meeting file:', error);
+    return NextResponse.json({ error: 'Failed to download file' }, { status: 500 });
+  }
+}
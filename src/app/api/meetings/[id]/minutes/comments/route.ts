@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { MinutesWorkflow } from '@/lib/minutes-workflow';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Add a reviewer comment: { author, text }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { author, text } = await request.json();
+
+    if (typeof author !== 'string' || !author.trim() || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: 'Author and comment text are required' }, { status: 400 });
+    }
+
+    const recording = MeetingStore.get(id);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(MinutesWorkflow.addComment(recording, author, text), { status: 201 });
+  } catch (error) {
+    console.error('Error adding minutes comment:', error);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
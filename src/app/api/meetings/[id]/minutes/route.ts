@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { MinutesWorkflow } from '@/lib/minutes-workflow';
+import { MinutesTransition } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Download the minutes as markdown. `?official=true` returns the certified copy,
+ * which is only available once the minutes have been approved.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const recording = MeetingStore.get(id);
+
+    if (!recording || !recording.summaryUrl) {
+      return NextResponse.json({ error: 'Minutes not found' }, { status: 404 });
+    }
+
+    const official = request.nextUrl.searchParams.get('official') === 'true';
+    if (official && !MinutesWorkflow.isLocked(recording)) {
+      return NextResponse.json(
+        { error: 'Minutes must be approved before an official copy can be exported' },
+        { status: 409 }
+      );
+    }
+
+    const safeTitle = recording.title.replace(/[^a-zA-Z0-9]/g, '_');
+    const fileName = `${recording.date.toISOString().split('T')[0]}_${safeTitle}_minutes${MinutesWorkflow.isLocked(recording) ? '_official' : '_draft'}.md`;
+
+    return new NextResponse(MinutesWorkflow.render(recording), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting minutes:', error);
+    return NextResponse.json({ error: 'Failed to export minutes' }, { status: 500 });
+  }
+}
+
+// Move the minutes through review: { status, by?, note?, approvedOn?, approvalMotion? }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const transition: MinutesTransition = await request.json();
+    const recording = MeetingStore.get(id);
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    const errors = MinutesWorkflow.validateTransition(recording, transition);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const updated = await MinutesWorkflow.transition(recording, transition);
+    console.log(`📝 Minutes for "${recording.title}" moved to ${transition.status}`);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating minutes status:', error);
+    return NextResponse.json({ error: 'Failed to update minutes status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { RevisionStore } from '@/lib/revision-store';
+import { MinutesWorkflow } from '@/lib/minutes-workflow';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface RevisionRequest {
+  author: string; // Who is making the change
+  summary?: string; // New markdown, for an edit
+  revertTo?: number; // Revision to restore, instead of `summary`
+  note?: string;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const recording = MeetingStore.get(id);
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(RevisionStore.list(recording));
+  } catch (error) {
+    console.error('Error loading summary revisions:', error);
+    return NextResponse.json({ error: 'Failed to load revisions' }, { status: 500 });
+  }
+}
+
+/**
+ * Save an edited summary, or restore an earlier revision, as a new revision
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { author, summary, revertTo, note }: RevisionRequest = await request.json();
+
+    if (typeof author !== 'string' || !author.trim()) {
+      return NextResponse.json({ error: 'Missing required field: author' }, { status: 400 });
+    }
+    if (typeof summary !== 'string' && typeof revertTo !== 'number') {
+      return NextResponse.json({ error: 'Provide either summary or revertTo' }, { status: 400 });
+    }
+
+    const recording = MeetingStore.get(id);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+    if (MinutesWorkflow.isLocked(recording)) {
+      return NextResponse.json(
+        { error: 'Approved minutes can\'t be edited. Reopen them for review first.' },
+        { status: 409 }
+      );
+    }
+    // The running job replaces the summary when it finishes
+    if (recording.status === 'processing') {
+      return NextResponse.json({ error: 'Meeting is being processed. Edit the minutes once it finishes.' }, { status: 409 });
+    }
+
+    let revision;
+    if (typeof revertTo === 'number') {
+      const restored = RevisionStore.get(recording, revertTo);
+      if (!restored) {
+        return NextResponse.json({ error: `Revision ${revertTo} not found` }, { status: 404 });
+      }
+      revision = RevisionStore.add(recording, {
+        summary: restored.summary,
+        author,
+        source: 'revert',
+        revertedFrom: revertTo,
+        note: note || `Reverted to revision ${revertTo}`
+      });
+    } else {
+      if (!summary?.trim()) {
+        return NextResponse.json({ error: 'Summary cannot be empty' }, { status: 400 });
+      }
+      if (summary === recording.summaryUrl) {
+        return NextResponse.json({ error: 'No changes to save' }, { status: 400 });
+      }
+      revision = RevisionStore.add(recording, { summary, author, source: 'edit', note });
+    }
+
+    const updated = MeetingStore.update(id, { summaryUrl: revision.summary });
+    console.log(`✏️ Summary for "${recording.title}" saved as revision ${revision.number} by ${revision.author}`);
+
+    return NextResponse.json({ recording: updated, revision }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving summary revision:', error);
+    return NextResponse.json({ error: 'Failed to save revision' }, { status: 500 });
+  }
+}
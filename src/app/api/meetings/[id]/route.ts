@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { MinutesWorkflow } from '@/lib/minutes-workflow';
+import { RevisionStore } from '@/lib/revision-store';
+import { TranscriptStore } from '@/lib/transcript-store';
+import { ActionItemStore } from '@/lib/action-item-store';
+import { CaseDocket } from '@/lib/case-docket';
+import { CalendarStore } from '@/lib/calendar-store';
+import { RecordingInput } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const recording = MeetingStore.get(id);
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(recording);
+  } catch (error) {
+    console.error('Error loading meeting:', error);
+    return NextResponse.json({ error: 'Failed to load meeting' }, { status: 500 });
+  }
+}
+
+// Details a client may edit; everything else is managed by the server or has its own route
+const EDITABLE_FIELDS = ['title', 'date', 'type', 'participants', 'bodyId', 'speakers'] as const;
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: Record<string, unknown> = await request.json();
+    const existing = MeetingStore.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    // Fields sent back unchanged, e.g. in a whole meeting object, are ignored
+    const current = existing as unknown as Record<string, unknown>;
+    const changed = (field: string) => field in body && JSON.stringify(body[field]) !== JSON.stringify(current[field]);
+
+    if (changed('summaryUrl')) {
+      if (MinutesWorkflow.isLocked(existing)) {
+        return NextResponse.json(
+          { error: 'Approved minutes can\'t be edited. Reopen them for review first.' },
+          { status: 409 }
+        );
+      }
+      // Summaries are public records; edits go through revisions so each one is attributed
+      return NextResponse.json(
+        { error: 'Save summary changes through /api/meetings/:id/revisions' },
+        { status: 400 }
+      );
+    }
+
+    if ((changed('speakers') || changed('motions')) && MinutesWorkflow.isLocked(existing)) {
+      return NextResponse.json(
+        { error: 'Approved minutes can\'t be edited. Reopen them for review first.' },
+        { status: 409 }
+      );
+    }
+
+    if (changed('motions')) {
+      // Motions are part of the analysis, which is kept with the transcript version it used
+      return NextResponse.json(
+        { error: 'Motions come from the analysis. Correct the transcript or re-analyze the meeting to change them' },
+        { status: 400 }
+      );
+    }
+
+    if (changed('transcriptUrl') || changed('transcriptSegments')) {
+      // Corrections are kept as versions so the analysis of each one stays traceable
+      return NextResponse.json(
+        { error: 'Save transcript corrections through /api/meetings/:id/transcripts' },
+        { status: 400 }
+      );
+    }
+
+    // A meeting whose job never started can be marked failed by the client that
+    // created it; otherwise status belongs to the job runner
+    const markFailed = changed('status') && body.status === 'error' && existing.status === 'processing' && !existing.jobId;
+
+    const readOnly = Object.keys(body).filter(field =>
+      changed(field) && !(EDITABLE_FIELDS as readonly string[]).includes(field) && !(field === 'status' && markFailed));
+    if (readOnly.length > 0) {
+      // Minutes status only changes through /api/meetings/:id/minutes
+      return NextResponse.json(
+        { error: `These fields can't be edited: ${readOnly.join(', ')}`, details: readOnly },
+        { status: 400 }
+      );
+    }
+
+    const patch: Partial<RecordingInput> = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => field in body).map(field => [field, body[field]])
+    );
+    if (markFailed) {
+      patch.status = 'error';
+    }
+
+    const errors = MeetingStore.validate(patch);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const recording = MeetingStore.update(id, patch);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+    ActionItemStore.updateMeetingDetails(recording);
+
+    return NextResponse.json(recording);
+  } catch (error) {
+    console.error('Error updating meeting:', error);
+    return NextResponse.json({ error: 'Failed to update meeting' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!MeetingStore.delete(id)) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+    RevisionStore.remove(id);
+    TranscriptStore.remove(id);
+    ActionItemStore.removeForMeeting(id);
+    CaseDocket.removeMeeting(id);
+    CalendarStore.removeProposalsForMeeting(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting meeting:', error);
+    return NextResponse.json({ error: 'Failed to delete meeting' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { TranscriptStore } from '@/lib/transcript-store';
+import { TranscriptSegment } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface CorrectionRequest {
+  author: string; // Who made the correction
+  segments?: string[]; // Corrected text for each current segment, keeping its timing and speaker
+  transcript?: string; // Corrected full text, only for transcripts without timing
+  note?: string;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const recording = MeetingStore.get(id);
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(TranscriptStore.listVersions(recording));
+  } catch (error) {
+    console.error('Error loading transcript versions:', error);
+    return NextResponse.json({ error: 'Failed to load transcript versions' }, { status: 500 });
+  }
+}
+
+/**
+ * Save a corrected transcript as a new version and make it the meeting's current one.
+ * Re-run /api/ai-process afterwards to analyze the correction.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { author, segments, transcript, note }: CorrectionRequest = await request.json();
+
+    if (typeof author !== 'string' || !author.trim()) {
+      return NextResponse.json({ error: 'Missing required field: author' }, { status: 400 });
+    }
+    if (!Array.isArray(segments) && typeof transcript !== 'string') {
+      return NextResponse.json({ error: 'Provide either segments or transcript' }, { status: 400 });
+    }
+
+    const recording = MeetingStore.get(id);
+    if (!recording) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+    // The running job writes the transcript it started with when it finishes
+    if (recording.status === 'processing') {
+      return NextResponse.json({ error: 'Meeting is being processed. Correct the transcript once it finishes.' }, { status: 409 });
+    }
+    if (!recording.transcriptUrl) {
+      return NextResponse.json({ error: 'Meeting has no transcript to correct' }, { status: 409 });
+    }
+
+    let correctedText: string;
+    let correctedSegments: TranscriptSegment[] | undefined;
+    if (Array.isArray(segments)) {
+      const current = recording.transcriptSegments || [];
+      if (segments.length !== current.length || segments.some(text => typeof text !== 'string')) {
+        return NextResponse.json(
+          { error: `Expected corrected text for each of the ${current.length} transcript segments` },
+          { status: 400 }
+        );
+      }
+      correctedSegments = current.map((segment, index) => ({ ...segment, text: segments[index].trim() }));
+      correctedText = correctedSegments.map(segment => segment.text).filter(Boolean).join(' ');
+    } else {
+      // The pipeline, search and exports read segments first, so a full-text
+      // correction of a timed transcript would never be used
+      if (recording.transcriptSegments && recording.transcriptSegments.length > 0) {
+        return NextResponse.json(
+          { error: 'This transcript has timed segments; send the corrected text of each as segments instead of transcript' },
+          { status: 400 }
+        );
+      }
+      correctedText = (transcript || '').trim();
+    }
+
+    if (!correctedText) {
+      return NextResponse.json({ error: 'Transcript cannot be empty' }, { status: 400 });
+    }
+    if (correctedText === recording.transcriptUrl.trim()) {
+      return NextResponse.json({ error: 'No changes to save' }, { status: 400 });
+    }
+
+    const version = TranscriptStore.addVersion(recording, {
+      transcript: correctedText,
+      segments: correctedSegments,
+      author,
+      source: 'correction',
+      note
+    });
+    const updated = MeetingStore.update(id, {
+      transcriptUrl: version.transcript,
+      transcriptSegments: version.segments,
+      transcriptVersion: version.number
+    });
+    console.log(`✏️ Transcript for "${recording.title}" corrected as version ${version.number} by ${version.author}`);
+
+    return NextResponse.json({ recording: updated, version }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving transcript correction:', error);
+    return NextResponse.json({ error: 'Failed to save transcript correction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore } from '@/lib/meeting-store';
+import { MeetingExport, MeetingExportFilter } from '@/lib/meeting-export';
+import { Recording } from '@/types';
+
+const MEETING_TYPES: Recording['type'][] = ['commission', 'case', 'board', 'general', 'other'];
+const MEETING_STATUSES: Recording['status'][] = ['recording', 'processing', 'completed', 'error'];
+
+/**
+ * ZIP of the meetings matching `?q=&from=&to=&bodyId=&participant=&type=&status=`,
+ * with a manifest.json. `?audio=false` leaves out the recordings to keep the
+ * bundle small.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filter: MeetingExportFilter = {
+      q: params.get('q') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      bodyId: params.get('bodyId') || undefined,
+      participant: params.get('participant') || undefined,
+      type: (params.get('type') || undefined) as Recording['type'] | undefined,
+      status: (params.get('status') || undefined) as Recording['status'] | undefined
+    };
+
+    const errors: string[] = [];
+    const invalid = [filter.from, filter.to].filter(date => date && isNaN(Date.parse(date)));
+    if (invalid.length > 0) {
+      errors.push(`Invalid date: ${invalid.join(', ')}`);
+    }
+    if (filter.type && !MEETING_TYPES.includes(filter.type)) {
+      errors.push(`type must be one of: ${MEETING_TYPES.join(', ')}`);
+    }
+    if (filter.status && !MEETING_STATUSES.includes(filter.status)) {
+      errors.push(`status must be one of: ${MEETING_STATUSES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const meetings = MeetingExport.filter(MeetingStore.list(), filter);
+    if (meetings.length === 0) {
+      return NextResponse.json({ error: 'No meetings match the current filters' }, { status: 404 });
+    }
+
+    const bundle = MeetingExport.bundle(meetings, filter, params.get('audio') !== 'false');
+    const fileName = `busybee_meetings_${new Date().toISOString().split('T')[0]}.zip`;
+    console.log(`📦 Exported ${meetings.length} meetings (${bundle.length} bytes)`);
+
+    return new NextResponse(new Uint8Array(bundle), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': bundle.length.toString(),
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting meetings:', error);
+    return NextResponse.json({ error: 'Failed to export meetings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeetingStore, StoredAudio } from '@/lib/meeting-store';
+import { UploadStore } from '@/lib/upload-store';
+import { RevisionStore } from '@/lib/revision-store';
+import { TranscriptStore } from '@/lib/transcript-store';
+import { ActionItemStore } from '@/lib/action-item-store';
+import { CaseDocket } from '@/lib/case-docket';
+import { CalendarStore } from '@/lib/calendar-store';
+import { RecordingInput } from '@/types';
+
+export async function GET() {
+  try {
+    return NextResponse.json(MeetingStore.list());
+  } catch (error) {
+    console.error('Error listing meetings:', error);
+    return NextResponse.json({ error: 'Failed to load meetings' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Accept either JSON (metadata, optionally referencing a chunked upload)
+    // or FormData (metadata + audio file)
+    let input: RecordingInput;
+    let audio: StoredAudio | undefined;
+    let uploadId: string | undefined;
+
+    const contentType = request.headers.get('content-type');
+
+    if (contentType?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const meeting = formData.get('meeting') as string;
+      const audioFile = formData.get('audioFile') as File | null;
+
+      if (!meeting) {
+        return NextResponse.json({ error: 'Missing required field: meeting' }, { status: 400 });
+      }
+
+      input = JSON.parse(meeting);
+
+      if (audioFile) {
+        audio = {
+          buffer: Buffer.from(await audioFile.arrayBuffer()),
+          mimeType: audioFile.type || 'application/octet-stream',
+          extension: getAudioExtension(audioFile.type, audioFile.name)
+        };
+      }
+    } else {
+      const body: RecordingInput & { uploadId?: string } = await request.json();
+      ({ uploadId, ...input } = body);
+
+      // Recordings over the direct upload limit arrive via /api/uploads first
+      if (uploadId) {
+        const upload = UploadStore.getCompletedFile(uploadId);
+        if (!upload) {
+          return NextResponse.json({ error: 'Upload not found or incomplete' }, { status: 400 });
+        }
+
+        audio = {
+          filePath: upload.filePath,
+          mimeType: upload.mimeType || 'application/octet-stream',
+          extension: getAudioExtension(upload.mimeType, upload.fileName)
+        };
+      }
+    }
+
+    if (!input?.title) {
+      return NextResponse.json({ error: 'Missing required field: title' }, { status: 400 });
+    }
+
+    const errors = MeetingStore.validate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const recording = MeetingStore.create(
+      {
+        ...input,
+        duration: input.duration || 0,
+        status: input.status || 'completed',
+        type: input.type || 'other',
+        participants: input.participants || []
+      },
+      audio
+    );
+
+    // The audio has been copied into the meeting store
+    if (uploadId) {
+      UploadStore.remove(uploadId);
+    }
+
+    console.log(`💾 Saved meeting "${recording.title}" (${recording.id})`);
+
+    return NextResponse.json(recording, { status: 201 });
+
+  } catch (error) {
+    console.error('Error saving meeting:', error);
+    return NextResponse.json({ error: 'Failed to save meeting' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    MeetingStore.list().forEach(meeting => {
+      RevisionStore.remove(meeting.id);
+      TranscriptStore.remove(meeting.id);
+      ActionItemStore.removeForMeeting(meeting.id);
+      CaseDocket.removeMeeting(meeting.id);
+      CalendarStore.removeProposalsForMeeting(meeting.id);
+    });
+    const deleted = MeetingStore.clear();
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error clearing meetings:', error);
+    return NextResponse.json({ error: 'Failed to clear meetings' }, { status: 500 });
+  }
+}
+
+function getAudioExtension(mimeType: string, fileName: string): string {
+  // Prefer the MIME type - recorder blobs are webm even when named .wav
+  const mimeExtension = mimeType.split('/')[1]?.split(';')[0];
+  if (mimeExtension) {
+    return mimeExtension === 'mpeg' ? 'mp3' : mimeExtension;
+  }
+
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex >= 0 ? fileName.substring(dotIndex + 1).toLowerCase() : 'bin';
+}
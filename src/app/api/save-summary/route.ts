@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
+import { resolveStoragePath } from '@/lib/storage-config';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,11 +11,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Title and summary are required' }, { status: 400 });
     }
 
-    // Create meeting-summaries directory if it doesn't exist
-    const summariesDir = path.join(process.cwd(), 'meeting-summaries');
-    if (!fs.existsSync(summariesDir)) {
-      fs.mkdirSync(summariesDir, { recursive: true });
-    }
+    // Summaries go to the configured Notes folder, transcripts to Transcripts
+    const summariesDir = resolveStoragePath('notes');
+    const transcriptsDir = resolveStoragePath('transcripts');
+    [summariesDir, transcriptsDir].forEach(dir => {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    });
 
     // Generate safe filename
     const safeTitle = title.replace(/[^a-zA-Z0-9]/g, '_');
@@ -31,7 +35,7 @@ export async function POST(request: NextRequest) {
     // Save transcript if provided
     if (transcript) {
       const transcriptFilename = `${dateStr}_${safeTitle}_transcript.txt`;
-      const transcriptPath = path.join(summariesDir, transcriptFilename);
+      const transcriptPath = path.join(transcriptsDir, transcriptFilename);
       fs.writeFileSync(transcriptPath, transcript);
     }
 
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SearchIndex } from '@/lib/search-index';
+import { Recording } from '@/types';
+
+const MEETING_TYPES: Recording['type'][] = ['commission', 'case', 'board', 'general', 'other'];
+
+// GET /api/search?q="travel policy" approved&from=2025-01-01&to=2025-12-31&type=commission&bodyId=csc&participant=Fitial&limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+    const type = (params.get('type') || undefined) as Recording['type'] | undefined;
+    const limit = params.get('limit');
+
+    const errors: string[] = [];
+    const invalid = [from, to].filter(date => date && isNaN(Date.parse(date)));
+    if (invalid.length > 0) {
+      errors.push(`Invalid date: ${invalid.join(', ')}`);
+    }
+    if (type && !MEETING_TYPES.includes(type)) {
+      errors.push(`type must be one of: ${MEETING_TYPES.join(', ')}`);
+    }
+    if (limit && !(parseInt(limit) > 0)) {
+      errors.push('limit must be a positive number');
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    return NextResponse.json(SearchIndex.search({
+      q: params.get('q') || undefined,
+      from,
+      to,
+      type,
+      bodyId: params.get('bodyId') || undefined,
+      participant: params.get('participant') || undefined,
+      limit: limit ? parseInt(limit) : undefined
+    }));
+  } catch (error) {
+    console.error('Error searching meetings:', error);
+    return NextResponse.json({ error: 'Failed to search meetings' }, { status: 500 });
+  }
+}
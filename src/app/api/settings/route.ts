@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SettingsStore, SavedSettings } from '@/lib/settings-store';
+
+export async function GET() {
+  try {
+    return NextResponse.json(SettingsStore.get());
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return NextResponse.json({ error: 'Failed to load settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const patch: SavedSettings = await request.json();
+
+    const errors = SettingsStore.validate(patch);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('. '), details: errors }, { status: 400 });
+    }
+
+    const settings = SettingsStore.update(patch);
+    console.log('⚙️ Settings updated');
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 });
+  }
+}
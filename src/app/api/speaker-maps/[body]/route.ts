@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SpeakerMapStore } from '@/lib/speaker-map-store';
+
+interface RouteContext {
+  params: Promise<{ body: string }>;
+}
+
+// Known speaker names and learned aliases for a body (keyed by body id or meeting type)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { body } = await params;
+    const aliases = SpeakerMapStore.getAliases(body);
+
+    return NextResponse.json({
+      names: Array.from(new Set(Object.values(aliases))).sort(),
+      learned: SpeakerMapStore.getLearnedAliases(body)
+    });
+  } catch (error) {
+    console.error('Error loading speaker map:', error);
+    return NextResponse.json({ error: 'Failed to load speaker map' }, { status: 500 });
+  }
+}
+
+// Merge heard-as -> name mappings so the next meeting of this body reuses them
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { body } = await params;
+    const { aliases } = await request.json();
+
+    if (!aliases || typeof aliases !== 'object') {
+      return NextResponse.json({ error: 'Missing required field: aliases' }, { status: 400 });
+    }
+
+    return NextResponse.json({ learned: SpeakerMapStore.saveAliases(body, aliases) });
+  } catch (error) {
+    console.error('Error saving speaker map:', error);
+    return NextResponse.json({ error: 'Failed to save speaker map' }, { status: 500 });
+  }
+}
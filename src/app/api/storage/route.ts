@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getStorageConfig } from '@/lib/storage-config';
+
+// Resolved storage layout, for client code that displays or references file locations
+export async function GET() {
+  try {
+    return NextResponse.json(getStorageConfig());
+  } catch (error) {
+    console.error('Error loading storage configuration:', error);
+    return NextResponse.json({ error: 'Failed to load storage configuration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UploadStore } from '@/lib/upload-store';
+
+// Append one part of a chunked upload. The part index is sent in the X-Chunk-Index header.
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const index = parseInt(request.headers.get('x-chunk-index') || '', 10);
+
+    if (isNaN(index)) {
+      return NextResponse.json({ error: 'Missing X-Chunk-Index header' }, { status: 400 });
+    }
+
+    const data = Buffer.from(await request.arrayBuffer());
+    const upload = UploadStore.appendChunk(id, index, data);
+
+    return NextResponse.json({
+      receivedBytes: upload.receivedBytes,
+      complete: upload.receivedBytes === upload.size
+    });
+  } catch (error) {
+    console.error('Error receiving upload chunk:', error);
+    return NextResponse.json(
+      { error: 'Failed to receive upload chunk', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UploadStore } from '@/lib/upload-store';
+
+// Start a chunked upload; the client then PUTs each part to /api/uploads/[id]
+export async function POST(request: NextRequest) {
+  try {
+    const { fileName, mimeType, size } = await request.json();
+
+    if (!fileName || !size) {
+      return NextResponse.json({ error: 'Missing required fields: fileName and size' }, { status: 400 });
+    }
+
+    const upload = UploadStore.create(fileName, mimeType, size);
+
+    return NextResponse.json({ uploadId: upload.id }, { status: 201 });
+  } catch (error) {
+    console.error('Error starting upload:', error);
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+  }
+}
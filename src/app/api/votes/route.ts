@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VoteRecords } from '@/lib/vote-records';
+
+// GET /api/votes?member=Fitial&q=budget&from=2025-01-01&to=2025-12-31&bodyId=csc
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+
+    const invalid = [from, to].filter(date => date && isNaN(Date.parse(date)));
+    if (invalid.length > 0) {
+      return NextResponse.json({ error: `Invalid date: ${invalid.join(', ')}` }, { status: 400 });
+    }
+
+    return NextResponse.json(VoteRecords.search({
+      member: params.get('member') || undefined,
+      q: params.get('q') || undefined,
+      bodyId: params.get('bodyId') || undefined,
+      from,
+      to
+    }));
+  } catch (error) {
+    console.error('Error searching votes:', error);
+    return NextResponse.json({ error: 'Failed to search votes' }, { status: 500 });
+  }
+}
@@ -9,10 +9,26 @@ import MeetingsList from '@/components/MeetingsList';
 import EmailInterface from '@/components/EmailInterface';
 import CalendarInterface from '@/components/CalendarInterface';
 import FileUploadInterface from '@/components/FileUploadInterface';
+import SettingsInterface from '@/components/SettingsInterface';
+import GoverningBodiesInterface from '@/components/GoverningBodiesInterface';
+import TranscriptViewer from '@/components/TranscriptViewer';
+import ArchiveQuestions from '@/components/ArchiveQuestions';
+import ActionItemsInterface from '@/components/ActionItemsInterface';
+import CaseDocketInterface from '@/components/CaseDocketInterface';
 import { Recording } from '@/types';
 
 export default function Home() {
   const [currentPage, setCurrentPage] = useState('dashboard');
+  const [transcriptMeetingId, setTranscriptMeetingId] = useState<string | null>(null);
+  const [transcriptQuery, setTranscriptQuery] = useState('');
+  const [transcriptTime, setTranscriptTime] = useState<number | undefined>(undefined);
+
+  const openTranscript = (meetingId: string, query = '', time?: number) => {
+    setTranscriptMeetingId(meetingId);
+    setTranscriptQuery(query);
+    setTranscriptTime(time);
+    setCurrentPage('transcript');
+  };
 
   const handleRecordingComplete = (recording: Recording) => {
     // Switch to meetings list to show the completed recording
@@ -22,17 +38,38 @@ export default function Home() {
   const renderCurrentPage = () => {
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard onStartRecording={() => setCurrentPage('record')} />;
+        return <Dashboard onStartRecording={() => setCurrentPage('record')} onOpenActionItems={() => setCurrentPage('actions')} />;
       case 'record':
         return <RecordingInterface onRecordingComplete={handleRecordingComplete} />;
       case 'upload':
         return <FileUploadInterface onUploadComplete={handleRecordingComplete} />;
       case 'meetings':
-        return <MeetingsList />;
+        return (
+          <MeetingsList onOpenTranscript={(recording, query) => openTranscript(recording.id, query)} />
+        );
+      case 'transcript':
+        return transcriptMeetingId
+          ? (
+            <TranscriptViewer
+              // Remount so a new search result starts with its own query
+              key={`${transcriptMeetingId}:${transcriptQuery}:${transcriptTime ?? ''}`}
+              meetingId={transcriptMeetingId}
+              initialQuery={transcriptQuery}
+              initialTime={transcriptTime}
+              onBack={() => setCurrentPage('meetings')}
+            />
+          )
+          : <MeetingsList />;
+      case 'ask':
+        return <ArchiveQuestions onOpenCitation={(citation) => openTranscript(citation.meetingId, '', citation.start)} />;
+      case 'actions':
+        return <ActionItemsInterface onOpenMeeting={(meetingId, time) => openTranscript(meetingId, '', time)} />;
+      case 'cases':
+        return <CaseDocketInterface onOpenHearing={(meetingId) => openTranscript(meetingId)} />;
       case 'email':
         return <EmailInterface />;
       case 'calendar':
-        return <CalendarInterface />;
+        return <CalendarInterface onOpenMeeting={(meetingId) => openTranscript(meetingId)} />;
       case 'files':
         return (
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -54,34 +91,18 @@ export default function Home() {
             </div>
           </div>
         );
+      case 'bodies':
+        return <GoverningBodiesInterface />;
       case 'settings':
-        return (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-            <div className="text-center">
-              <h1 className="text-2xl font-bold zen-text">Settings</h1>
-              <p className="mt-4 zen-text opacity-80">
-                Configure AI processing options, templates, and system preferences.
-              </p>
-              <div className="mt-8 glass-panel-dark rounded-lg p-6">
-                <h3 className="text-lg font-medium zen-text mb-2">Configuration Options</h3>
-                <div className="text-left text-sm zen-text opacity-90 space-y-1">
-                  <div>• Template customization</div>
-                  <div>• Name recognition settings</div>
-                  <div>• File organization rules</div>
-                  <div>• AI processing preferences</div>
-                </div>
-              </div>
-            </div>
-          </div>
-        );
+        return <SettingsInterface />;
       default:
-        return <Dashboard onStartRecording={() => setCurrentPage('record')} />;
+        return <Dashboard onStartRecording={() => setCurrentPage('record')} onOpenActionItems={() => setCurrentPage('actions')} />;
     }
   };
 
   return (
     <main className="h-screen">
-      <Layout currentPage={currentPage} onPageChange={setCurrentPage}>
+      <Layout currentPage={currentPage} onPageChange={setCurrentPage} onOpenSearchResult={openTranscript}>
         {renderCurrentPage()}
       </Layout>
       <Toaster position="top-right" />
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ClipboardDocumentListIcon,
+  ClipboardDocumentIcon,
+  PlusIcon,
+  TrashIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import BodySelect from './BodySelect';
+import { ActionItem, ActionItemInput, ActionItemStatus } from '@/types';
+import { ActionItemsClient, ActionItemAgenda, ActionItemQuery } from '@/lib/action-items-client';
+import { isOverdue } from '@/lib/action-items';
+import { renderMarkdown } from '@/lib/markdown';
+import { formatTimestamp } from '@/lib/transcript';
+import { useMeetings } from '@/hooks/useMeetings';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface ActionItemsInterfaceProps {
+  onOpenMeeting: (meetingId: string, time?: number) => void;
+}
+
+const STATUS_LABELS: Record<ActionItemStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+  cancelled: 'Cancelled'
+};
+
+const OPTION_STYLE = { background: 'rgba(0,0,0,0.9)', color: 'white' };
+
+/**
+ * Everything assigned at meetings: who owns it, when it's due and where it was
+ * said. Items can be reassigned, rescheduled and closed here; open ones make up
+ * the carried-over section of the body's next agenda.
+ */
+export default function ActionItemsInterface({ onOpenMeeting }: ActionItemsInterfaceProps) {
+  const { recordings } = useMeetings();
+  const [items, setItems] = useState<ActionItem[]>([]);
+  const [status, setStatus] = useState<ActionItemQuery['status'] | ''>('active');
+  const [assignee, setAssignee] = useState('');
+  const [bodyId, setBodyId] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [newItem, setNewItem] = useState({ meetingId: '', description: '', assignee: '', dueDate: '' });
+  const [isAdding, setIsAdding] = useState(false);
+
+  const [agenda, setAgenda] = useState<ActionItemAgenda | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await ActionItemsClient.getInstance().listActionItems({
+        status: status || undefined,
+        assignee: assignee.trim() || undefined,
+        bodyId: bodyId || undefined,
+        overdue: overdueOnly
+      }));
+    } catch (error) {
+      console.error('Error loading action items:', error);
+      toast.error('Failed to load action items');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, assignee, bodyId, overdueOnly]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadItems, 300);
+    return () => clearTimeout(timer);
+  }, [loadItems]);
+
+  const handleUpdate = async (item: ActionItem, patch: Partial<ActionItemInput>) => {
+    try {
+      const updated = await ActionItemsClient.getInstance().updateActionItem(item.id, patch);
+      setItems(prev => prev.map(candidate => candidate.id === updated.id ? updated : candidate));
+    } catch (error) {
+      console.error('Error updating action item:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update action item');
+    }
+  };
+
+  const handleDelete = async (item: ActionItem) => {
+    if (!confirm(`Delete "${item.description}"?`)) {
+      return;
+    }
+
+    try {
+      await ActionItemsClient.getInstance().deleteActionItem(item.id);
+      setItems(prev => prev.filter(candidate => candidate.id !== item.id));
+      toast.success('Action item deleted');
+    } catch (error) {
+      console.error('Error deleting action item:', error);
+      toast.error('Failed to delete action item');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newItem.meetingId || !newItem.description.trim()) {
+      toast.error('Pick the meeting and describe the task');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await ActionItemsClient.getInstance().createActionItem(newItem.meetingId, {
+        description: newItem.description,
+        assignee: newItem.assignee || undefined,
+        dueDate: newItem.dueDate || undefined
+      });
+      setNewItem({ meetingId: newItem.meetingId, description: '', assignee: '', dueDate: '' });
+      toast.success('Action item added');
+      await loadItems();
+    } catch (error) {
+      console.error('Error adding action item:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add action item');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handlePreviewAgenda = async () => {
+    try {
+      setAgenda(await ActionItemsClient.getInstance().getAgenda({ bodyId: bodyId || undefined }));
+    } catch (error) {
+      console.error('Error building agenda:', error);
+      toast.error('Failed to build agenda');
+    }
+  };
+
+  const handleCopyAgenda = async () => {
+    if (!agenda) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(agenda.markdown);
+      toast.success('Agenda section copied');
+    } catch (error) {
+      console.error('Error copying agenda:', error);
+      toast.error('Failed to copy agenda section');
+    }
+  };
+
+  const overdueCount = items.filter(item => isOverdue(item)).length;
+
+  return (
+    <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-6 sm:py-8 space-y-6">
+      <div className="modern-card p-6">
+        <h1 className="text-xl sm:text-2xl font-bold modern-text">Action Items</h1>
+        <p className="mt-2 text-sm modern-text-muted">
+          Tasks assigned at meetings, with owners and due dates. Open items carry over to the body&apos;s next meeting.
+        </p>
+      </div>
+
+      <div className="modern-card p-4 sm:p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+          <div>
+            <label htmlFor="action-status" className="block text-sm font-medium zen-text mb-3 opacity-90">Status</label>
+            <select
+              id="action-status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ActionItemQuery['status'] | '')}
+              className="modern-input zen-text w-full"
+            >
+              <option value="active" style={OPTION_STYLE}>Open or in progress</option>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value} style={OPTION_STYLE}>{label}</option>
+              ))}
+              <option value="" style={OPTION_STYLE}>All</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="action-assignee" className="block text-sm font-medium zen-text mb-3 opacity-90">Assignee</label>
+            <input
+              id="action-assignee"
+              type="text"
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              className="modern-input zen-text w-full"
+              placeholder="Any"
+            />
+          </div>
+          <BodySelect id="action-body" value={bodyId} onChange={setBodyId} />
+          <label className="flex items-center gap-2 text-sm modern-text pb-2">
+            <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+            Overdue only
+          </label>
+        </div>
+      </div>
+
+      <div className="modern-card p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium modern-text">
+            {items.length} item{items.length === 1 ? '' : 's'}
+          </h2>
+          {overdueCount > 0 && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-red-700 bg-red-100">
+              {overdueCount} overdue
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm modern-text-muted">Loading action items...</p>
+        ) : items.length === 0 ? (
+          <div className="text-center py-6">
+            <ClipboardDocumentListIcon className="mx-auto h-12 w-12 modern-text opacity-60" />
+            <p className="mt-2 text-sm modern-text-muted">No action items match these filters.</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {items.map(item => {
+              const overdue = isOverdue(item);
+              return (
+                <li
+                  key={item.id}
+                  className={`rounded-lg border p-4 ${overdue ? 'border-red-400 bg-red-500/10' : 'border-border'}`}
+                >
+                  <div className="flex flex-col lg:flex-row lg:items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm modern-text ${item.status === 'done' || item.status === 'cancelled' ? 'line-through opacity-70' : ''}`}>
+                        {item.description}
+                      </p>
+                      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs modern-text-muted">
+                        <button
+                          onClick={() => onOpenMeeting(item.meetingId, item.timestamp)}
+                          className="text-blue-300 hover:text-blue-200"
+                          title="Open the transcript where this was assigned"
+                        >
+                          {item.meetingTitle} • {format(new Date(item.meetingDate), 'MMM d, yyyy')}
+                          {item.timestamp !== undefined && ` • ${formatTimestamp(item.timestamp)}`}
+                        </button>
+                        {item.source === 'manual' && <span>added by hand</span>}
+                        {item.carriedOverTo.length > 0 && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-yellow-700 bg-yellow-100">
+                            carried over {item.carriedOverTo.length}×
+                          </span>
+                        )}
+                        {overdue && (
+                          <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium text-red-700 bg-red-100">
+                            <ExclamationTriangleIcon className="h-3 w-3" />
+                            overdue
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        aria-label="Assignee"
+                        defaultValue={item.assignee || ''}
+                        onBlur={(e) => e.target.value.trim() !== (item.assignee || '') && handleUpdate(item, { assignee: e.target.value })}
+                        className="modern-input zen-text w-40"
+                        placeholder="Unassigned"
+                      />
+                      <input
+                        type="date"
+                        aria-label="Due date"
+                        value={item.dueDate || ''}
+                        onChange={(e) => handleUpdate(item, { dueDate: e.target.value })}
+                        className={`modern-input zen-text ${overdue ? 'text-red-400' : ''}`}
+                      />
+                      <select
+                        aria-label="Status"
+                        value={item.status}
+                        onChange={(e) => handleUpdate(item, { status: e.target.value as ActionItemStatus })}
+                        className="modern-input zen-text"
+                      >
+                        {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                          <option key={value} value={value} style={OPTION_STYLE}>{label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleDelete(item)}
+                        className="p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-all duration-200"
+                        title="Delete action item"
+                      >
+                        <TrashIcon className="h-4 w-4 modern-text" />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="modern-card p-4 sm:p-6 space-y-3">
+        <h2 className="text-lg font-medium modern-text">Add an Action Item</h2>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-3">
+          <select
+            aria-label="Meeting"
+            value={newItem.meetingId}
+            onChange={(e) => setNewItem({ ...newItem, meetingId: e.target.value })}
+            className="modern-input zen-text"
+          >
+            <option value="" style={OPTION_STYLE}>Assigned at meeting...</option>
+            {recordings.map(recording => (
+              <option key={recording.id} value={recording.id} style={OPTION_STYLE}>
+                {recording.title} ({format(new Date(recording.date), 'MMM d, yyyy')})
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            aria-label="Task"
+            value={newItem.description}
+            onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
+            className="modern-input zen-text lg:col-span-2"
+            placeholder="What needs to be done"
+          />
+          <input
+            type="text"
+            aria-label="New item assignee"
+            value={newItem.assignee}
+            onChange={(e) => setNewItem({ ...newItem, assignee: e.target.value })}
+            className="modern-input zen-text"
+            placeholder="Assignee"
+          />
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="date"
+            aria-label="New item due date"
+            value={newItem.dueDate}
+            onChange={(e) => setNewItem({ ...newItem, dueDate: e.target.value })}
+            className="modern-input zen-text"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isAdding}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-all duration-200"
+          >
+            <PlusIcon className="h-4 w-4" />
+            {isAdding ? 'Adding...' : 'Add'}
+          </button>
+        </div>
+      </div>
+
+      <div className="modern-card p-4 sm:p-6 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-medium modern-text">Next Meeting&apos;s Agenda</h2>
+            <p className="text-sm modern-text-muted">
+              Open items from the selected body&apos;s meetings, ready to paste into the agenda.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handlePreviewAgenda}
+              className="glass-button inline-flex items-center px-4 py-2 text-sm font-medium zen-text transition-all"
+            >
+              <ClipboardDocumentListIcon className="h-4 w-4 mr-2" />
+              Build Agenda Section
+            </button>
+            {agenda && (
+              <button
+                onClick={handleCopyAgenda}
+                className="glass-button inline-flex items-center px-4 py-2 text-sm font-medium zen-text transition-all"
+              >
+                <ClipboardDocumentIcon className="h-4 w-4 mr-2" />
+                Copy
+              </button>
+            )}
+          </div>
+        </div>
+        {agenda && (
+          <div
+            className="markdown-preview modern-card p-4 max-h-96 overflow-y-auto"
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(agenda.markdown) }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
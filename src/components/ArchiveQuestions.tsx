@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, Fragment } from 'react';
+import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import BodySelect from './BodySelect';
+import { ArchiveAnswer, ArchiveCitation } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { formatTimestamp } from '@/lib/transcript';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface ArchiveQuestionsProps {
+  onOpenCitation: (citation: ArchiveCitation) => void;
+}
+
+const EXAMPLE_QUESTIONS = [
+  'When did the commission last approve the travel policy?',
+  'What was decided about overtime pay?',
+  'Who moved to adopt the budget?'
+];
+
+// Turn "[2]" and "[1, 3]" in an answer into links to the cited passages
+function AnswerText({ answer, onCite }: { answer: ArchiveAnswer; onCite: (citation: ArchiveCitation) => void }) {
+  return (
+    <>
+      {answer.answer.split(/(\[\d+(?:\s*,\s*\d+)*\])/).map((part, index) => {
+        if (index % 2 === 0) {
+          return <Fragment key={index}>{part}</Fragment>;
+        }
+        const numbers = (part.match(/\d+/g) || []).map(Number);
+        return (
+          <sup key={index} className="mx-0.5">
+            {numbers.map(number => {
+              const citation = answer.citations.find(candidate => candidate.number === number);
+              return citation ? (
+                <button
+                  key={number}
+                  onClick={() => onCite(citation)}
+                  className="text-blue-300 hover:text-blue-200 mx-0.5"
+                  title={`${citation.meetingTitle}${citation.start !== undefined ? ` at ${formatTimestamp(citation.start)}` : ''}`}
+                >
+                  [{number}]
+                </button>
+              ) : (
+                <span key={number} className="modern-text-muted mx-0.5">[{number}]</span>
+              );
+            })}
+          </sup>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Ask questions of the whole meeting archive. Answers cite the meetings and
+ * transcript moments they come from; a citation opens that transcript.
+ */
+export default function ArchiveQuestions({ onOpenCitation }: ArchiveQuestionsProps) {
+  const [question, setQuestion] = useState('');
+  const [bodyId, setBodyId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [answers, setAnswers] = useState<ArchiveAnswer[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+
+  const handleAsk = async (text = question) => {
+    if (!text.trim()) {
+      toast.error('Type a question first');
+      return;
+    }
+
+    setIsAsking(true);
+    try {
+      const answer = await MeetingsClient.getInstance().askArchive(text.trim(), {
+        bodyId: bodyId || undefined,
+        from: from || undefined,
+        to: to || undefined
+      });
+      setAnswers(prev => [answer, ...prev]);
+      setQuestion('');
+    } catch (error) {
+      console.error('Error asking the archive:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to answer question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-6 sm:py-8 space-y-6">
+      <div className="modern-card p-6">
+        <h1 className="text-xl sm:text-2xl font-bold modern-text">Ask the Archive</h1>
+        <p className="mt-2 text-sm modern-text-muted">
+          Questions are answered from stored meetings only, with every answer citing the meetings and moments it relies on.
+        </p>
+      </div>
+
+      <div className="modern-card p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            aria-label="Question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !isAsking && handleAsk()}
+            className="modern-input px-3 py-2 flex-1"
+            placeholder="e.g. When did the commission last approve the travel policy?"
+            maxLength={500}
+          />
+          <button
+            onClick={() => handleAsk()}
+            disabled={isAsking}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-all duration-200"
+          >
+            <ChatBubbleLeftRightIcon className="h-4 w-4" />
+            {isAsking ? 'Searching...' : 'Ask'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <BodySelect id="archive-body" value={bodyId} onChange={setBodyId} disabled={isAsking} />
+          <div>
+            <label htmlFor="archive-from" className="block text-sm font-medium zen-text mb-3 opacity-90">From</label>
+            <input id="archive-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="modern-input zen-text w-full" />
+          </div>
+          <div>
+            <label htmlFor="archive-to" className="block text-sm font-medium zen-text mb-3 opacity-90">To</label>
+            <input id="archive-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="modern-input zen-text w-full" />
+          </div>
+        </div>
+
+        {answers.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_QUESTIONS.map(example => (
+              <button
+                key={example}
+                onClick={() => handleAsk(example)}
+                disabled={isAsking}
+                className="text-xs px-3 py-1.5 rounded-full modern-text border border-border hover:bg-accent hover:text-accent-foreground transition-all duration-200"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {answers.map((answer, index) => (
+        <div key={answers.length - index} className="modern-card p-4 sm:p-6 space-y-4">
+          <h2 className="text-lg font-medium modern-text">{answer.question}</h2>
+          {answer.mode === 'heuristic' && (
+            <span
+              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-yellow-700 bg-yellow-100"
+              title={answer.warnings?.join('\n')}
+            >
+              quoted without AI
+            </span>
+          )}
+          <p className="text-sm modern-text whitespace-pre-wrap">
+            <AnswerText answer={answer} onCite={onOpenCitation} />
+          </p>
+          {answer.mode === 'ai' && answer.warnings?.map(warning => (
+            <p key={warning} className="text-xs text-orange-300">⚠️ {warning}</p>
+          ))}
+
+          {answer.citations.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium modern-text mb-2">Sources</h3>
+              <ol className="space-y-2">
+                {answer.citations.map(citation => (
+                  <li key={citation.number}>
+                    <button
+                      onClick={() => onOpenCitation(citation)}
+                      className="block w-full text-left text-sm modern-text rounded-lg px-3 py-2 hover:bg-accent hover:text-accent-foreground transition-all duration-200"
+                    >
+                      <span className="font-medium">[{citation.number}] {citation.meetingTitle}</span>
+                      <span className="ml-2 text-xs modern-text-muted">
+                        {format(new Date(citation.date), 'MMM d, yyyy')}
+                        {citation.start !== undefined && ` • ${formatTimestamp(citation.start)}`}
+                      </span>
+                      <span className="block text-xs modern-text-muted mt-1 whitespace-pre-wrap line-clamp-3">{citation.text}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
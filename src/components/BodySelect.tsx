@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GoverningBody } from '@/types';
+import { BodiesClient } from '@/lib/bodies-client';
+
+interface BodySelectProps {
+  id: string;
+  value: string;
+  onChange: (bodyId: string) => void;
+  disabled?: boolean;
+}
+
+// Picks the board or commission that met, so its roster and rules apply to the minutes
+export default function BodySelect({ id, value, onChange, disabled }: BodySelectProps) {
+  const [bodies, setBodies] = useState<GoverningBody[]>([]);
+
+  useEffect(() => {
+    BodiesClient.getInstance().listBodies()
+      .then(setBodies)
+      .catch(error => console.error('Error loading governing bodies:', error));
+  }, []);
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium zen-text mb-3 opacity-90">
+        Governing Body
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="modern-input zen-text"
+        disabled={disabled}
+      >
+        <option value="" style={{ background: 'rgba(0,0,0,0.9)', color: 'white' }}>Not a registered body</option>
+        {bodies.map(body => (
+          <option key={body.id} value={body.id} style={{ background: 'rgba(0,0,0,0.9)', color: 'white' }}>
+            {body.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
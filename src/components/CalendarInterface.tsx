@@ -1,77 +1,139 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { 
+import { useState, useEffect, useCallback } from 'react';
+import {
   CalendarDaysIcon,
   ClockIcon,
   UserGroupIcon,
   VideoCameraIcon,
+  ScaleIcon,
+  ExclamationTriangleIcon,
   PlusIcon,
+  TrashIcon,
+  CheckIcon,
+  XMarkIcon,
   ChevronLeftIcon,
   ChevronRightIcon
 } from '@heroicons/react/24/outline';
+import { CalendarEvent, CalendarEventType } from '@/types';
+import { CalendarClient } from '@/lib/calendar-client';
+import { format } from 'date-fns';
 import { toast } from 'react-hot-toast';
 
-interface CalendarEvent {
-  id: string;
-  title: string;
-  start: Date;
-  end: Date;
-  description?: string;
-  attendees?: string[];
-  location?: string;
-  type: 'meeting' | 'call' | 'event' | 'reminder';
+interface CalendarInterfaceProps {
+  onOpenMeeting: (meetingId: string) => void;
 }
 
-export default function CalendarInterface() {
+const EVENT_TYPES: CalendarEventType[] = ['meeting', 'call', 'event', 'reminder', 'hearing', 'filing', 'deadline'];
+
+const OPTION_STYLE = { background: 'rgba(0,0,0,0.9)', color: 'white' };
+
+const EMPTY_EVENT = { title: '', date: '', startTime: '09:00', endTime: '10:00', allDay: false, type: 'meeting' as CalendarEventType, location: '', description: '' };
+
+// All-day events are stored as YYYY-MM-DD; read them as local midnight, not UTC
+const parseEventDate = (value: string, allDay: boolean) => new Date(allDay ? `${value.slice(0, 10)}T00:00:00` : value);
+
+/**
+ * The meeting calendar. Events are added here or proposed from the dates and
+ * deadlines found in case hearings; proposed ones stay faded until confirmed
+ * or dismissed.
+ */
+export default function CalendarInterface({ onOpenMeeting }: CalendarInterfaceProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [proposals, setProposals] = useState<CalendarEvent[]>([]);
   const [showEventModal, setShowEventModal] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-
-  // Mock events for demonstration
-  const mockEvents: CalendarEvent[] = [
-    {
-      id: '1',
-      title: 'Executive Team Meeting',
-      start: new Date('2025-08-29T14:00:00'),
-      end: new Date('2025-08-29T15:30:00'),
-      description: 'Monthly executive team sync',
-      attendees: ['john.doe@company.com', 'sarah.johnson@company.com'],
-      location: 'Conference Room A',
-      type: 'meeting'
-    },
-    {
-      id: '2',
-      title: 'Client Call - Project Review',
-      start: new Date('2025-08-29T10:30:00'),
-      end: new Date('2025-08-29T11:30:00'),
-      description: 'Review project milestones with client',
-      attendees: ['client@company.com'],
-      type: 'call'
-    },
-    {
-      id: '3',
-      title: 'Budget Planning Session',
-      start: new Date('2025-08-30T09:00:00'),
-      end: new Date('2025-08-30T10:30:00'),
-      description: 'Q4 budget review and planning',
-      type: 'meeting'
+  const [newEvent, setNewEvent] = useState(EMPTY_EVENT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    const year = currentDate.getFullYear();
+    const month = currentDate.getMonth();
+
+    try {
+      const client = CalendarClient.getInstance();
+      // A day either side so timed events near midnight aren't lost to timezones
+      const [monthEvents, proposed] = await Promise.all([
+        client.listEvents({
+          from: format(new Date(year, month, 0), 'yyyy-MM-dd'),
+          to: format(new Date(year, month + 1, 1), 'yyyy-MM-dd')
+        }),
+        client.listEvents({ status: 'proposed' })
+      ]);
+      setEvents(monthEvents.filter(event => event.status !== 'dismissed'));
+      setProposals(proposed);
+    } catch (error) {
+      console.error('Error loading calendar events:', error);
+      toast.error('Failed to load calendar events');
     }
-  ];
+  }, [currentDate]);
 
   useEffect(() => {
-    setEvents(mockEvents);
-  }, []);
-
-  const handleConnectCalendar = () => {
-    toast.loading('Connecting to Google Calendar...', { id: 'calendar-connect' });
-    
-    setTimeout(() => {
-      setIsConnected(true);
-      toast.success('Connected to Google Calendar successfully!', { id: 'calendar-connect' });
-    }, 2000);
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleStatus = async (event: CalendarEvent, status: 'confirmed' | 'dismissed') => {
+    try {
+      await CalendarClient.getInstance().updateEvent(event.id, { status });
+      toast.success(status === 'confirmed' ? 'Added to the calendar' : 'Date dismissed');
+      await loadEvents();
+    } catch (error) {
+      console.error('Error updating calendar event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update event');
+    }
+  };
+
+  const handleDelete = async (event: CalendarEvent) => {
+    if (!confirm(`Delete "${event.title}"?`)) {
+      return;
+    }
+
+    try {
+      await CalendarClient.getInstance().deleteEvent(event.id);
+      toast.success('Event deleted');
+      await loadEvents();
+    } catch (error) {
+      console.error('Error deleting calendar event:', error);
+      toast.error('Failed to delete event');
+    }
+  };
+
+  const openEventModal = () => {
+    setNewEvent({ ...EMPTY_EVENT, date: format(selectedDate, 'yyyy-MM-dd') });
+    setShowEventModal(true);
+  };
+
+  const handleCreate = async () => {
+    if (!newEvent.title.trim() || !newEvent.date) {
+      toast.error('Give the event a title and a date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const start = newEvent.allDay ? newEvent.date : new Date(`${newEvent.date}T${newEvent.startTime}`).toISOString();
+      const end = newEvent.allDay ? newEvent.date : new Date(`${newEvent.date}T${newEvent.endTime || newEvent.startTime}`).toISOString();
+
+      await CalendarClient.getInstance().createEvent({
+        title: newEvent.title,
+        start,
+        end,
+        allDay: newEvent.allDay,
+        type: newEvent.type,
+        location: newEvent.location.trim() || undefined,
+        description: newEvent.description.trim() || undefined
+      });
+      toast.success('Event added');
+      setShowEventModal(false);
+      setSelectedDate(new Date(`${newEvent.date}T00:00:00`));
+      await loadEvents();
+    } catch (error) {
+      console.error('Error creating calendar event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add event');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const getDaysInMonth = (date: Date) => {
@@ -81,33 +143,38 @@ export default function CalendarInterface() {
     const lastDay = new Date(year, month + 1, 0);
     const daysInMonth = lastDay.getDate();
     const startingDayOfWeek = firstDay.getDay();
-    
+
     const days = [];
-    
+
     // Add empty cells for days before the first day of the month
     for (let i = 0; i < startingDayOfWeek; i++) {
       days.push(null);
     }
-    
+
     // Add all days of the month
     for (let day = 1; day <= daysInMonth; day++) {
       days.push(new Date(year, month, day));
     }
-    
+
     return days;
   };
 
   const getEventsForDate = (date: Date) => {
-    return events.filter(event => 
-      event.start.toDateString() === date.toDateString()
+    return events.filter(event =>
+      parseEventDate(event.start, event.allDay).toDateString() === date.toDateString()
     );
   };
 
+  const monthEventCount = events.filter(event => {
+    const start = parseEventDate(event.start, event.allDay);
+    return start.getFullYear() === currentDate.getFullYear() && start.getMonth() === currentDate.getMonth();
+  }).length;
+
   const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
       minute: '2-digit',
-      hour12: true 
+      hour12: true
     });
   };
 
@@ -117,6 +184,11 @@ export default function CalendarInterface() {
         return <VideoCameraIcon className="h-4 w-4" />;
       case 'meeting':
         return <UserGroupIcon className="h-4 w-4" />;
+      case 'hearing':
+      case 'filing':
+        return <ScaleIcon className="h-4 w-4" />;
+      case 'deadline':
+        return <ExclamationTriangleIcon className="h-4 w-4" />;
       default:
         return <ClockIcon className="h-4 w-4" />;
     }
@@ -130,6 +202,11 @@ export default function CalendarInterface() {
         return 'bg-green-500 bg-opacity-20 border-green-400';
       case 'reminder':
         return 'bg-orange-500 bg-opacity-20 border-orange-400';
+      case 'hearing':
+      case 'filing':
+        return 'bg-blue-500 bg-opacity-20 border-blue-400';
+      case 'deadline':
+        return 'bg-red-500 bg-opacity-20 border-red-400';
       default:
         return 'bg-purple-500 bg-opacity-20 border-purple-400';
     }
@@ -142,47 +219,32 @@ export default function CalendarInterface() {
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
-  if (!isConnected) {
-    return (
-      <div className="max-w-6xl mx-auto">
-        {/* Header */}
-        <div className="mb-8 sm:mb-12 text-center px-4">
-          <h1 className="text-3xl sm:text-4xl md:text-5xl font-light zen-text mb-3 sm:mb-4 floating">Calendar</h1>
-          <p className="text-base sm:text-lg zen-text opacity-80">
-            Connect your Google Calendar to manage schedules in paradise
-          </p>
-        </div>
-
-        {/* Connection Card */}
-        <div className="max-w-md mx-auto">
-          <div className="glass-panel-dark p-8 rounded-2xl text-center">
-            <div className="w-20 h-20 mx-auto mb-6 glass-panel rounded-full flex items-center justify-center floating">
-              <CalendarDaysIcon className="h-10 w-10 zen-text" />
-            </div>
-            
-            <h3 className="text-xl font-medium zen-text mb-4">Connect Your Calendar</h3>
-            <p className="zen-text opacity-75 mb-6 text-sm">
-              Securely connect your Google Calendar to view, create, and manage events directly in your paradise workspace.
-            </p>
-            
-            <button
-              onClick={handleConnectCalendar}
-              className="glass-button px-6 py-3 zen-text font-medium transition-all w-full"
-            >
-              <div className="flex items-center justify-center gap-3">
-                <CalendarDaysIcon className="h-5 w-5" />
-                Connect Google Calendar
-              </div>
-            </button>
-            
-            <p className="text-xs zen-text opacity-60 mt-4">
-              We use secure OAuth 2.0 authentication
-            </p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const renderProposalActions = (event: CalendarEvent) => (
+    <div className="flex items-center gap-2 mt-2">
+      <button
+        onClick={() => handleStatus(event, 'confirmed')}
+        className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-all duration-200"
+      >
+        <CheckIcon className="h-3 w-3" />
+        Confirm
+      </button>
+      <button
+        onClick={() => handleStatus(event, 'dismissed')}
+        className="glass-button flex items-center gap-1 px-2 py-1 text-xs zen-text"
+      >
+        <XMarkIcon className="h-3 w-3" />
+        Dismiss
+      </button>
+      {event.source && (
+        <button
+          onClick={() => onOpenMeeting(event.source!.meetingId)}
+          className="text-xs zen-text opacity-75 hover:opacity-100 underline"
+        >
+          Hearing
+        </button>
+      )}
+    </div>
+  );
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -192,12 +254,12 @@ export default function CalendarInterface() {
           <div>
             <h1 className="text-2xl sm:text-3xl font-light zen-text">Calendar</h1>
             <p className="text-sm zen-text opacity-80">
-              {events.length} events this month
+              {monthEventCount} events this month
             </p>
           </div>
-          
+
           <button
-            onClick={() => setShowEventModal(true)}
+            onClick={openEventModal}
             className="glass-button px-4 py-2 zen-text font-medium"
           >
             <PlusIcon className="h-4 w-4 mr-2 inline" />
@@ -206,24 +268,59 @@ export default function CalendarInterface() {
         </div>
       </div>
 
+      {/* Proposed Dates */}
+      {proposals.length > 0 && (
+        <div className="glass-panel-dark rounded-xl p-6 mb-6">
+          <h3 className="text-lg zen-text font-medium mb-1">Proposed dates</h3>
+          <p className="text-sm zen-text opacity-75 mb-4">
+            Found in case hearings. Confirm the ones that belong on the calendar.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {proposals.map(event => (
+              <div key={event.id} className="glass-panel p-4 rounded-lg border border-dashed border-white border-opacity-30">
+                <div className="flex items-start gap-3">
+                  <div className="zen-text opacity-60 mt-1">
+                    {getEventTypeIcon(event.type)}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <button
+                      onClick={() => {
+                        const date = parseEventDate(event.start, event.allDay);
+                        setCurrentDate(new Date(date.getFullYear(), date.getMonth()));
+                        setSelectedDate(date);
+                      }}
+                      className="zen-text opacity-75 text-xs hover:opacity-100"
+                    >
+                      {format(parseEventDate(event.start, event.allDay), 'EEE, MMM d, yyyy')}
+                    </button>
+                    <h4 className="zen-text font-medium text-sm">{event.title}</h4>
+                    {renderProposalActions(event)}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Calendar Grid */}
         <div className="lg:col-span-2">
           <div className="glass-panel-dark rounded-xl p-6">
             {/* Month Navigation */}
             <div className="flex items-center justify-between mb-6">
-              <button 
+              <button
                 onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1))}
                 className="glass-button p-2 rounded-lg"
               >
                 <ChevronLeftIcon className="h-5 w-5 zen-text" />
               </button>
-              
+
               <h2 className="text-xl zen-text font-medium">
                 {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
               </h2>
-              
-              <button 
+
+              <button
                 onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1))}
                 className="glass-button p-2 rounded-lg"
               >
@@ -246,7 +343,7 @@ export default function CalendarInterface() {
                 const dayEvents = day ? getEventsForDate(day) : [];
                 const isToday = day && day.toDateString() === new Date().toDateString();
                 const isSelected = day && day.toDateString() === selectedDate.toDateString();
-                
+
                 return (
                   <div key={index} className="relative min-h-[80px]">
                     {day ? (
@@ -261,12 +358,14 @@ export default function CalendarInterface() {
                         }`}>
                           {day.getDate()}
                         </span>
-                        
+
                         <div className="mt-1 space-y-1">
                           {dayEvents.slice(0, 2).map(event => (
                             <div
                               key={event.id}
-                              className={`text-xs p-1 rounded border ${getEventTypeColor(event.type)} zen-text truncate`}
+                              className={`text-xs p-1 rounded border ${getEventTypeColor(event.type)} zen-text truncate ${
+                                event.status === 'proposed' ? 'border-dashed opacity-60' : ''
+                              }`}
                             >
                               {event.title}
                             </div>
@@ -292,37 +391,53 @@ export default function CalendarInterface() {
         <div className="lg:col-span-1">
           <div className="glass-panel-dark rounded-xl p-6">
             <h3 className="text-lg zen-text font-medium mb-4">
-              {selectedDate.toDateString() === new Date().toDateString() ? 
-                "Today's Events" : 
+              {selectedDate.toDateString() === new Date().toDateString() ?
+                "Today's Events" :
                 selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
               }
             </h3>
-            
+
             <div className="space-y-3">
               {getEventsForDate(selectedDate).map(event => (
-                <div key={event.id} className="glass-panel p-4 rounded-lg">
+                <div
+                  key={event.id}
+                  className={`glass-panel p-4 rounded-lg ${event.status === 'proposed' ? 'border border-dashed border-white border-opacity-30' : ''}`}
+                >
                   <div className="flex items-start gap-3">
                     <div className="zen-text opacity-60 mt-1">
                       {getEventTypeIcon(event.type)}
                     </div>
-                    <div className="flex-1">
-                      <h4 className="zen-text font-medium text-sm mb-1">{event.title}</h4>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <h4 className="zen-text font-medium text-sm mb-1">{event.title}</h4>
+                        <button
+                          onClick={() => handleDelete(event)}
+                          className="glass-button p-1 rounded flex-shrink-0"
+                          title="Delete event"
+                        >
+                          <TrashIcon className="h-3 w-3 zen-text" />
+                        </button>
+                      </div>
                       <p className="zen-text opacity-75 text-xs mb-2">
-                        {formatTime(event.start)} - {formatTime(event.end)}
+                        {event.allDay
+                          ? 'All day'
+                          : `${formatTime(parseEventDate(event.start, false))} - ${formatTime(parseEventDate(event.end, false))}`}
+                        {event.status === 'proposed' && ' • Proposed'}
                       </p>
                       {event.location && (
                         <p className="zen-text opacity-60 text-xs">{event.location}</p>
                       )}
                       {event.description && (
-                        <p className="zen-text opacity-75 text-xs mt-2 line-clamp-2">
+                        <p className="zen-text opacity-75 text-xs mt-2 line-clamp-2 whitespace-pre-line">
                           {event.description}
                         </p>
                       )}
+                      {event.status === 'proposed' && renderProposalActions(event)}
                     </div>
                   </div>
                 </div>
               ))}
-              
+
               {getEventsForDate(selectedDate).length === 0 && (
                 <div className="text-center py-8">
                   <CalendarDaysIcon className="h-12 w-12 zen-text opacity-40 mx-auto mb-2" />
@@ -333,6 +448,102 @@ export default function CalendarInterface() {
           </div>
         </div>
       </div>
+
+      {/* New Event Modal */}
+      {showEventModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="glass-panel-dark rounded-xl p-6 w-full max-w-md space-y-3">
+            <h3 className="text-lg zen-text font-medium">New Event</h3>
+            <input
+              type="text"
+              aria-label="Event title"
+              value={newEvent.title}
+              onChange={(e) => setNewEvent({ ...newEvent, title: e.target.value })}
+              className="modern-input zen-text w-full"
+              placeholder="Title"
+            />
+            <div className="flex items-center gap-3">
+              <input
+                type="date"
+                aria-label="Event date"
+                value={newEvent.date}
+                onChange={(e) => setNewEvent({ ...newEvent, date: e.target.value })}
+                className="modern-input zen-text flex-1"
+              />
+              <label className="flex items-center gap-2 text-sm zen-text">
+                <input
+                  type="checkbox"
+                  checked={newEvent.allDay}
+                  onChange={(e) => setNewEvent({ ...newEvent, allDay: e.target.checked })}
+                />
+                All day
+              </label>
+            </div>
+            {!newEvent.allDay && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="time"
+                  aria-label="Start time"
+                  value={newEvent.startTime}
+                  onChange={(e) => setNewEvent({ ...newEvent, startTime: e.target.value })}
+                  className="modern-input zen-text flex-1"
+                />
+                <span className="zen-text opacity-60 text-sm">to</span>
+                <input
+                  type="time"
+                  aria-label="End time"
+                  value={newEvent.endTime}
+                  onChange={(e) => setNewEvent({ ...newEvent, endTime: e.target.value })}
+                  className="modern-input zen-text flex-1"
+                />
+              </div>
+            )}
+            <select
+              aria-label="Event type"
+              value={newEvent.type}
+              onChange={(e) => setNewEvent({ ...newEvent, type: e.target.value as CalendarEventType })}
+              className="modern-input zen-text w-full"
+            >
+              {EVENT_TYPES.map(type => (
+                <option key={type} value={type} style={OPTION_STYLE}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              aria-label="Event location"
+              value={newEvent.location}
+              onChange={(e) => setNewEvent({ ...newEvent, location: e.target.value })}
+              className="modern-input zen-text w-full"
+              placeholder="Location"
+            />
+            <textarea
+              aria-label="Event description"
+              value={newEvent.description}
+              onChange={(e) => setNewEvent({ ...newEvent, description: e.target.value })}
+              className="modern-input zen-text w-full"
+              rows={3}
+              placeholder="Description"
+            />
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setShowEventModal(false)}
+                className="glass-button px-4 py-2 zen-text"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-all duration-200"
+              >
+                {isSaving ? 'Saving...' : 'Add Event'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
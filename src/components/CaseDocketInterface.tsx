@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ScaleIcon } from '@heroicons/react/24/outline';
+import { CaseDocketListing, CaseHearingRef, CaseRecord } from '@/types';
+import { CasesClient } from '@/lib/cases-client';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface CaseDocketInterfaceProps {
+  onOpenHearing: (meetingId: string) => void;
+}
+
+const DATE_TYPE_STYLES: Record<CaseRecord['importantDates'][number]['type'], string> = {
+  hearing: 'text-blue-700 bg-blue-100',
+  filing: 'text-purple-700 bg-purple-100',
+  deadline: 'text-red-700 bg-red-100',
+  other: 'text-gray-700 bg-gray-100'
+};
+
+// "Mar 5, 2025" for dates the model wrote readably, otherwise as written
+function formatCaseDate(date: string): string {
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00` : date);
+  return isNaN(parsed.getTime()) ? date : format(parsed, 'MMM d, yyyy');
+}
+
+function HearingLink({ hearing, onOpen }: { hearing: CaseHearingRef; onOpen: (meetingId: string) => void }) {
+  return (
+    <button
+      onClick={() => onOpen(hearing.meetingId)}
+      className="text-xs text-blue-300 hover:text-blue-200"
+      title={`Open the transcript of ${hearing.meetingTitle}`}
+    >
+      {format(new Date(hearing.date), 'MMM d, yyyy')} hearing
+    </button>
+  );
+}
+
+/**
+ * Case docket: hearings grouped by case number, with the parties, rulings,
+ * procedural history, evidence and important dates gathered across them.
+ */
+export default function CaseDocketInterface({ onOpenHearing }: CaseDocketInterfaceProps) {
+  const [docket, setDocket] = useState<CaseDocketListing | null>(null);
+  const [selectedCase, setSelectedCase] = useState<CaseRecord | null>(null);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+
+  const loadDocket = useCallback(async () => {
+    try {
+      setDocket(await CasesClient.getInstance().listCases());
+    } catch (error) {
+      console.error('Error loading case docket:', error);
+      toast.error('Failed to load case docket');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocket();
+  }, [loadDocket]);
+
+  const openCase = async (caseNumber: string) => {
+    try {
+      setSelectedCase(await CasesClient.getInstance().getCase(caseNumber));
+    } catch (error) {
+      console.error('Error loading case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load case');
+    }
+  };
+
+  const handleAssign = async (hearing: CaseHearingRef) => {
+    const caseNumber = assignments[hearing.meetingId]?.trim();
+    if (!caseNumber) {
+      toast.error('Enter a case number');
+      return;
+    }
+
+    try {
+      const filed = await CasesClient.getInstance().assignCaseNumber(hearing.meetingId, caseNumber);
+      toast.success(`${hearing.meetingTitle} filed under ${filed.caseNumber}`);
+      await loadDocket();
+      if (filed.caseNumber) {
+        await openCase(filed.caseNumber);
+      }
+    } catch (error) {
+      console.error('Error assigning case number:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign case number');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-6 sm:py-8 space-y-6">
+      <div className="modern-card p-6">
+        <h1 className="text-xl sm:text-2xl font-bold modern-text">Case Docket</h1>
+        <p className="mt-2 text-sm modern-text-muted">
+          Hearings grouped by case number. Each processed case hearing is filed automatically; assign a number to any that weren&apos;t recognized.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="modern-card p-4">
+            <h2 className="text-lg font-medium modern-text mb-3">Cases</h2>
+            {!docket ? (
+              <p className="text-sm modern-text-muted">Loading cases...</p>
+            ) : docket.cases.length === 0 ? (
+              <div className="text-center py-6">
+                <ScaleIcon className="mx-auto h-12 w-12 modern-text opacity-60" />
+                <p className="mt-2 text-sm modern-text-muted">No case hearings have been processed yet.</p>
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {docket.cases.map(summary => (
+                  <li key={summary.caseNumber}>
+                    <button
+                      onClick={() => openCase(summary.caseNumber)}
+                      className={`block w-full text-left rounded-lg px-3 py-2 text-sm modern-text hover:bg-accent hover:text-accent-foreground transition-all duration-200 ${selectedCase?.caseNumber === summary.caseNumber ? 'ring-2 ring-white/60' : ''}`}
+                    >
+                      <span className="font-medium">{summary.caseNumber}</span>
+                      {summary.caseTitle && <span className="block text-xs modern-text-muted truncate">{summary.caseTitle}</span>}
+                      <span className="block text-xs modern-text-muted">
+                        {summary.hearingCount} hearing{summary.hearingCount === 1 ? '' : 's'} • last {format(new Date(summary.lastHearing), 'MMM d, yyyy')}
+                      </span>
+                      {summary.nextDate && (
+                        <span className="block text-xs text-orange-300">
+                          Next: {formatCaseDate(summary.nextDate.date)} - {summary.nextDate.description}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {docket && docket.unassigned.length > 0 && (
+            <div className="modern-card p-4">
+              <h2 className="text-lg font-medium modern-text mb-1">Hearings Without a Case Number</h2>
+              <p className="text-xs modern-text-muted mb-3">No case number was found in these hearings.</p>
+              <ul className="space-y-3">
+                {docket.unassigned.map(hearing => (
+                  <li key={hearing.meetingId} className="space-y-1">
+                    <p className="text-sm modern-text">{hearing.meetingTitle}</p>
+                    <HearingLink hearing={hearing} onOpen={onOpenHearing} />
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        aria-label={`Case number for ${hearing.meetingTitle}`}
+                        value={assignments[hearing.meetingId] || ''}
+                        onChange={(e) => setAssignments({ ...assignments, [hearing.meetingId]: e.target.value })}
+                        className="modern-input zen-text flex-1"
+                        placeholder="CSC-24-012"
+                        maxLength={50}
+                      />
+                      <button
+                        onClick={() => handleAssign(hearing)}
+                        className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg text-sm font-medium transition-all duration-200"
+                      >
+                        File
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!selectedCase ? (
+            <div className="modern-card p-6 text-center text-sm modern-text-muted">
+              Select a case to see its parties, rulings and timeline.
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="modern-card p-4 sm:p-6">
+                <h2 className="text-lg sm:text-xl font-bold modern-text">{selectedCase.caseNumber}</h2>
+                {selectedCase.caseTitle && <p className="text-sm modern-text">{selectedCase.caseTitle}</p>}
+                <p className="text-xs modern-text-muted mt-1">
+                  {[selectedCase.caseType, selectedCase.jurisdiction].filter(Boolean).join(' • ')}
+                </p>
+                {(selectedCase.courtPersonnel.hearingOfficer || selectedCase.courtPersonnel.judge) && (
+                  <p className="text-xs modern-text-muted mt-1">
+                    {[
+                      selectedCase.courtPersonnel.hearingOfficer && `Hearing officer: ${selectedCase.courtPersonnel.hearingOfficer}`,
+                      selectedCase.courtPersonnel.judge && `Judge: ${selectedCase.courtPersonnel.judge}`
+                    ].filter(Boolean).join(' • ')}
+                  </p>
+                )}
+
+                <h3 className="text-sm font-medium modern-text mt-4 mb-2">Hearings</h3>
+                <ul className="space-y-1">
+                  {selectedCase.hearings.map(hearing => (
+                    <li key={hearing.meetingId} className="text-sm modern-text">
+                      <HearingLink hearing={hearing} onOpen={onOpenHearing} />
+                      <span className="ml-2">{hearing.meetingTitle}</span>
+                      {hearing.hearingType && <span className="ml-2 text-xs modern-text-muted">({hearing.hearingType})</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="modern-card p-4 sm:p-6">
+                <h3 className="text-lg font-medium modern-text mb-3">Parties</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm modern-text">
+                  <div>
+                    <p className="text-xs font-medium modern-text-muted mb-1">Appellants / Complainants</p>
+                    {selectedCase.parties.plaintiffs.length > 0
+                      ? selectedCase.parties.plaintiffs.map(party => <p key={party}>{party}</p>)
+                      : <p className="modern-text-muted">Not recorded</p>}
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium modern-text-muted mb-1">Respondents</p>
+                    {selectedCase.parties.defendants.length > 0
+                      ? selectedCase.parties.defendants.map(party => <p key={party}>{party}</p>)
+                      : <p className="modern-text-muted">Not recorded</p>}
+                  </div>
+                </div>
+                {selectedCase.parties.attorneys.length > 0 && (
+                  <>
+                    <p className="text-xs font-medium modern-text-muted mt-4 mb-1">Attorneys</p>
+                    <ul className="space-y-1 text-sm modern-text">
+                      {selectedCase.parties.attorneys.map(attorney => (
+                        <li key={attorney.name}>
+                          {attorney.name}
+                          <span className="modern-text-muted"> - {attorney.role}, representing {attorney.representing}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                {selectedCase.legalIssues.length > 0 && (
+                  <>
+                    <p className="text-xs font-medium modern-text-muted mt-4 mb-1">Legal Issues</p>
+                    <ul className="list-disc list-inside space-y-1 text-sm modern-text">
+                      {selectedCase.legalIssues.map(issue => <li key={issue}>{issue}</li>)}
+                    </ul>
+                  </>
+                )}
+              </div>
+
+              <div className="modern-card p-4 sm:p-6">
+                <h3 className="text-lg font-medium modern-text mb-3">Timeline</h3>
+                {selectedCase.importantDates.length === 0 ? (
+                  <p className="text-sm modern-text-muted">No dates recorded.</p>
+                ) : (
+                  <ol className="border-l border-border pl-4 space-y-3">
+                    {selectedCase.importantDates.map((entry, index) => (
+                      <li key={index} className="text-sm modern-text">
+                        <span className="font-medium">{formatCaseDate(entry.date)}</span>
+                        <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${DATE_TYPE_STYLES[entry.type]}`}>
+                          {entry.type}
+                        </span>
+                        <p>{entry.description}</p>
+                        <HearingLink hearing={entry.hearing} onOpen={onOpenHearing} />
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div className="modern-card p-4 sm:p-6">
+                <h3 className="text-lg font-medium modern-text mb-3">Rulings</h3>
+                {selectedCase.rulings.length === 0 ? (
+                  <p className="text-sm modern-text-muted">No rulings recorded.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {selectedCase.rulings.map((ruling, index) => (
+                      <li key={index} className="text-sm modern-text">
+                        <p className="font-medium">{ruling.issue}</p>
+                        <p>{ruling.ruling}</p>
+                        {ruling.reasoning && <p className="text-xs modern-text-muted">{ruling.reasoning}</p>}
+                        <HearingLink hearing={ruling.hearing} onOpen={onOpenHearing} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="modern-card p-4 sm:p-6">
+                <h3 className="text-lg font-medium modern-text mb-3">Procedural History</h3>
+                {selectedCase.proceduralMatters.length === 0 ? (
+                  <p className="text-sm modern-text-muted">No motions, objections or orders recorded.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {selectedCase.proceduralMatters.map((matter, index) => (
+                      <li key={index} className="text-sm modern-text">
+                        <span className="text-xs font-medium uppercase modern-text-muted mr-2">{matter.type}</span>
+                        {matter.description}
+                        {matter.outcome && <span className="modern-text-muted"> - {matter.outcome}</span>}
+                        <div><HearingLink hearing={matter.hearing} onOpen={onOpenHearing} /></div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="modern-card p-4 sm:p-6">
+                <h3 className="text-lg font-medium modern-text mb-3">Evidence</h3>
+                {selectedCase.evidence.length === 0 ? (
+                  <p className="text-sm modern-text-muted">No evidence recorded.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {selectedCase.evidence.map((item, index) => (
+                      <li key={index} className="text-sm modern-text">
+                        <span className="text-xs font-medium uppercase modern-text-muted mr-2">{item.type}</span>
+                        {item.description}
+                        {item.submittedBy && <span className="modern-text-muted"> - submitted by {item.submittedBy}</span>}
+                        <div><HearingLink hearing={item.hearing} onOpen={onOpenHearing} /></div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {selectedCase.nextSteps.length > 0 && (
+                <div className="modern-card p-4 sm:p-6">
+                  <h3 className="text-lg font-medium modern-text mb-3">Next Steps</h3>
+                  <ul className="list-disc list-inside space-y-1 text-sm modern-text">
+                    {selectedCase.nextSteps.map((step, index) => (
+                      <li key={index}>
+                        {step.description}
+                        {step.responsibleParty && <span className="modern-text-muted"> ({step.responsibleParty})</span>}
+                        {step.deadline && <span className="text-orange-300"> - by {formatCaseDate(step.deadline)}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
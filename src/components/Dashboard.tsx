@@ -10,49 +10,45 @@ import {
   ExclamationCircleIcon,
   EnvelopeIcon,
   CalendarDaysIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  ClipboardDocumentListIcon
 } from '@heroicons/react/24/outline';
-import { Recording } from '@/types';
+import { ActionItem, Recording } from '@/types';
+import { useMeetings } from '@/hooks/useMeetings';
+import { ActionItemsClient } from '@/lib/action-items-client';
+import { isOverdue } from '@/lib/action-items';
 import { format } from 'date-fns';
 
 interface DashboardProps {
   onStartRecording: () => void;
+  onOpenActionItems: () => void;
 }
 
-export default function Dashboard({ onStartRecording }: DashboardProps) {
-  const [recentRecordings, setRecentRecordings] = useState<Recording[]>([]);
-  const [stats, setStats] = useState({
-    totalRecordings: 0,
-    todayRecordings: 0,
-    totalDuration: 0,
-    processingCount: 0
-  });
+export default function Dashboard({ onStartRecording, onOpenActionItems }: DashboardProps) {
+  const { recordings } = useMeetings();
+  const recentRecordings = recordings.slice(0, 5);
+  const [openActionItems, setOpenActionItems] = useState<ActionItem[]>([]);
 
   useEffect(() => {
-    // Load recent recordings from localStorage or API
-    const stored = localStorage.getItem('recordings');
-    if (stored) {
-      const recordings = JSON.parse(stored);
-      setRecentRecordings(recordings.slice(0, 5));
-      
-      // Calculate stats
-      const today = new Date().toDateString();
-      const todayCount = recordings.filter((r: Recording) => 
-        new Date(r.date).toDateString() === today
-      ).length;
-      
-      const totalDuration = recordings.reduce((acc: number, r: Recording) => acc + r.duration, 0);
-      const processingCount = recordings.filter((r: Recording) => r.status === 'processing').length;
-      
-      setStats({
-        totalRecordings: recordings.length,
-        todayRecordings: todayCount,
-        totalDuration: Math.floor(totalDuration / 60), // Convert to minutes
-        processingCount
-      });
-    }
+    ActionItemsClient.getInstance().listActionItems({ status: 'active' })
+      .then(setOpenActionItems)
+      .catch(error => console.error('Error loading action items:', error));
   }, []);
 
+  // Listed earliest due first, so the most overdue come first
+  const overdueActionItems = openActionItems.filter(item => isOverdue(item));
+
+  // Calculate stats
+  const today = new Date().toDateString();
+  const totalDuration = recordings.reduce((acc, r) => acc + r.duration, 0);
+  const stats = {
+    totalRecordings: recordings.length,
+    todayRecordings: recordings.filter(r => new Date(r.date).toDateString() === today).length,
+    totalDuration: Math.floor(totalDuration / 60), // Convert to minutes
+    // Meetings whose background processing job hasn't finished yet
+    processingCount: recordings.filter(r => r.status === 'processing').length
+  };
+
   const getStatusColor = (status: Recording['status']) => {
     switch (status) {
       case 'completed': return 'text-green-600 bg-green-100';
@@ -176,6 +172,49 @@ export default function Dashboard({ onStartRecording }: DashboardProps) {
         </div>
       </div>
 
+      {/* Action Items */}
+      {openActionItems.length > 0 && (
+        <div className={`modern-card mb-8 ${overdueActionItems.length > 0 ? 'border border-red-400' : ''}`}>
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium modern-text">Action Items</h3>
+              <button
+                onClick={onOpenActionItems}
+                className="glass-button inline-flex items-center px-3 py-1.5 text-sm font-medium zen-text transition-all"
+              >
+                <ClipboardDocumentListIcon className="h-4 w-4 mr-2" />
+                View all {openActionItems.length} open
+              </button>
+            </div>
+            {overdueActionItems.length === 0 ? (
+              <p className="text-sm modern-text-muted">Nothing is overdue.</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-red-400">
+                  {overdueActionItems.length} overdue
+                </p>
+                {overdueActionItems.slice(0, 5).map(item => (
+                  <div key={item.id} className="flex items-start justify-between gap-3 p-3 rounded-lg border border-red-400 bg-red-500/10">
+                    <div className="flex items-start gap-2 min-w-0">
+                      <ExclamationCircleIcon className="h-5 w-5 text-red-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm modern-text">{item.description}</p>
+                        <p className="text-xs modern-text-muted">
+                          {item.assignee || 'Unassigned'} • from {item.meetingTitle}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="text-xs font-medium text-red-400 whitespace-nowrap">
+                      due {format(new Date(`${item.dueDate}T00:00:00`), 'MMM d')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Recent Recordings */}
       <div className="modern-card">
         <div className="px-4 py-5 sm:p-6">
@@ -9,9 +9,11 @@ import {
   CheckCircleIcon,
   XCircleIcon
 } from '@heroicons/react/24/solid';
-import { OpenAIClient } from '@/lib/openai-client';
+import { OpenAIClient, PROCESSING_STAGE_MESSAGES } from '@/lib/openai-client';
+import { MeetingsClient } from '@/lib/meetings-client';
 import { Recording } from '@/types';
 import { toast } from 'react-hot-toast';
+import BodySelect from './BodySelect';
 
 interface FileUploadInterfaceProps {
   onUploadComplete?: (recording: Recording) => void;
@@ -23,6 +25,7 @@ export default function FileUploadInterface({ onUploadComplete }: FileUploadInte
   const [fileType, setFileType] = useState<'audio' | 'text' | null>(null);
   const [meetingTitle, setMeetingTitle] = useState('');
   const [meetingType, setMeetingType] = useState<'general' | 'case' | 'board' | 'other'>('general');
+  const [bodyId, setBodyId] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -78,78 +81,80 @@ export default function FileUploadInterface({ onUploadComplete }: FileUploadInte
 
     setIsProcessing(true);
     const processingToast = toast.loading('Processing file...');
+    let meetingId: string | undefined;
+    let jobId: string | undefined;
 
     try {
-      let processingResult;
-      const openAIClient = OpenAIClient.getInstance();
+      const meetingsClient = MeetingsClient.getInstance();
+      let transcript = '';
 
       if (fileType === 'audio') {
-        // Process audio file (includes transcription + analysis)
-        toast.loading('Transcribing and analyzing audio...', { id: processingToast });
-        processingResult = await openAIClient.processAudioFile(
-          uploadedFile,
-          meetingTitle,
-          meetingType
-        );
+        toast.loading('Uploading audio...', { id: processingToast });
       } else {
-        // For text files, read the content and process with OpenAI
+        // Text files are analyzed as-is, no transcription needed
         toast.loading('Reading text file...', { id: processingToast });
-        const text = await uploadedFile.text();
-        toast.loading('Analyzing content...', { id: processingToast });
-        
-        processingResult = await openAIClient.processTranscript(
-          text,
-          meetingTitle,
-          meetingType
-        );
+        transcript = await uploadedFile.text();
       }
 
-      // Save to meeting-summaries folder via API
-      toast.loading('Saving files...', { id: processingToast });
-      
-      const response = await fetch('/api/save-summary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      // Save the meeting (and the uploaded audio, if any) first so processing
+      // survives a closed tab
+      const meeting = await meetingsClient.createMeeting(
+        {
           title: meetingTitle,
-          summary: processingResult.summary,
-          transcript: processingResult.transcript,
-          date: new Date().toISOString(),
-          meetingType
-        })
+          date: new Date(),
+          duration: 0, // Duration not applicable for uploaded files
+          status: 'processing',
+          type: meetingType,
+          bodyId: bodyId || undefined,
+          transcriptUrl: transcript,
+          participants: []
+        },
+        fileType === 'audio' ? uploadedFile : undefined,
+        uploadedFile.name
+      );
+      meetingId = meeting.id;
+
+      // Transcription + analysis run as a background job; follow its progress
+      const openAIClient = OpenAIClient.getInstance();
+      jobId = await openAIClient.startProcessing(meeting.id);
+      const job = await openAIClient.waitForJob(jobId, state => {
+        toast.loading(PROCESSING_STAGE_MESSAGES[state], { id: processingToast });
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to save summary');
-      }
+      const recording = await meetingsClient.getMeeting(meeting.id);
 
-      // Create recording object
-      const recording: Recording = {
-        id: Date.now().toString(),
-        title: meetingTitle,
-        date: new Date(),
-        duration: 0, // Duration not applicable for uploaded files
-        status: 'completed',
-        type: meetingType,
-        transcriptUrl: processingResult.transcript || '',
-        summaryUrl: processingResult.summary || '',
-        participants: processingResult.participants || []
-      };
-
-      // Save to localStorage
-      const existingRecordings = JSON.parse(localStorage.getItem('recordings') || '[]');
-      const updatedRecordings = [recording, ...existingRecordings];
-      localStorage.setItem('recordings', JSON.stringify(updatedRecordings));
-
-      const agentMessage = meetingType === 'board' 
-        ? 'File processed by Roberts Rules Agent and saved successfully!' 
-        : meetingType === 'case'
-        ? 'File processed by Legal Assistant Agent and saved successfully!'
-        : 'File processed and saved successfully!';
-      
-      toast.success(agentMessage, { id: processingToast });
+      if (job.state === 'failed') {
+        toast.error(`File saved, but processing failed: ${job.error}`, { id: processingToast });
+      } else {
+        // Save to meeting-summaries folder via API
+        toast.loading('Saving files...', { id: processingToast });
+        
+        const response = await fetch('/api/save-summary', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            title: meetingTitle,
+            summary: recording.summaryUrl,
+            transcript: recording.transcriptUrl,
+            date: new Date().toISOString(),
+            meetingType
+          })
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to save summary');
+        }
+
+        const agentMessage = meetingType === 'board' 
+          ? 'File processed by Roberts Rules Agent and saved successfully!' 
+          : meetingType === 'case'
+          ? 'File processed by Legal Assistant Agent and saved successfully!'
+          : 'File processed and saved successfully!';
+        
+        toast.success(agentMessage, { id: processingToast });
+      }
       
       if (onUploadComplete) {
         onUploadComplete(recording);
@@ -160,6 +165,7 @@ export default function FileUploadInterface({ onUploadComplete }: FileUploadInte
       setFileType(null);
       setMeetingTitle('');
       setMeetingType('general');
+      setBodyId('');
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -167,6 +173,12 @@ export default function FileUploadInterface({ onUploadComplete }: FileUploadInte
     } catch (error) {
       console.error('Processing error:', error);
       toast.error('Failed to process file', { id: processingToast });
+
+      // Don't leave a meeting stuck in "processing" if the job never started
+      if (meetingId && !jobId) {
+        MeetingsClient.getInstance().updateMeeting(meetingId, { status: 'error' })
+          .catch(updateError => console.error('Error updating meeting status:', updateError));
+      }
     } finally {
       setIsProcessing(false);
     }
@@ -302,6 +314,10 @@ export default function FileUploadInterface({ onUploadComplete }: FileUploadInte
                 <option value="other">Lecture/Workshop</option>
               </select>
             </div>
+
+            {(meetingType === 'board' || meetingType === 'case') && (
+              <BodySelect id="upload-meeting-body" value={bodyId} onChange={setBodyId} disabled={isProcessing} />
+            )}
           </div>
 
           <div className="mt-8 flex flex-col sm:flex-row gap-4">
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MagnifyingGlassIcon, FunnelIcon } from '@heroicons/react/24/outline';
+import HighlightedText from './HighlightedText';
+import SearchFilters, { EMPTY_SEARCH_FILTERS, hasSearchFilters, SearchFilterValues } from './SearchFilters';
+import { SearchResponse } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { formatTimestamp } from '@/lib/transcript';
+import { format } from 'date-fns';
+
+interface GlobalSearchProps {
+  onOpenResult: (meetingId: string, query: string) => void;
+}
+
+const MAX_RESULTS = 8;
+
+/**
+ * Search box available on every page. Shows the best-matching meetings with a
+ * snippet each; picking one opens its transcript with the search applied. The
+ * filter button narrows results by date range, body and participant.
+ */
+export default function GlobalSearch({ onOpenResult }: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<SearchFilterValues>(EMPTY_SEARCH_FILTERS);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResponse(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      MeetingsClient.getInstance().search({
+        q,
+        from: filters.from || undefined,
+        to: filters.to || undefined,
+        bodyId: filters.bodyId || undefined,
+        participant: filters.participant.trim() || undefined,
+        limit: MAX_RESULTS
+      })
+        .then(setResponse)
+        .catch(error => console.error('Error searching meetings:', error));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, filters]);
+
+  const openResult = (meetingId: string, snippetText?: string) => {
+    const terms = response?.terms || [];
+    const term = terms.find(candidate => snippetText?.toLowerCase().includes(candidate.toLowerCase())) || terms[0] || '';
+    onOpenResult(meetingId, term);
+    setIsOpen(false);
+  };
+
+  return (
+    <div
+      className="relative w-full max-w-xl"
+      // Moving focus to a filter or result inside the box keeps it open
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsOpen(false);
+        }
+      }}
+    >
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <MagnifyingGlassIcon className="h-5 w-5 modern-text opacity-60" />
+      </div>
+      <input
+        type="search"
+        aria-label="Search all meetings"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setIsOpen(false);
+          } else if (e.key === 'Enter' && response?.results[0]) {
+            openResult(response.results[0].meetingId, response.results[0].snippets[0]?.text);
+          }
+        }}
+        className="modern-input pl-10 pr-10 py-2 w-full"
+        placeholder="Search all meetings"
+      />
+      <button
+        onClick={() => {
+          setShowFilters(!showFilters);
+          setIsOpen(true);
+        }}
+        className={`absolute inset-y-0 right-0 pr-3 flex items-center ${hasSearchFilters(filters) ? 'text-blue-500' : 'modern-text opacity-60'}`}
+        title="Filter by date, body or participant"
+        aria-label="Search filters"
+        aria-pressed={showFilters}
+      >
+        <FunnelIcon className="h-5 w-5" />
+      </button>
+
+      {isOpen && (showFilters || (response && query.trim())) && (
+        <div className="absolute left-0 right-0 top-full mt-2 modern-card shadow-lg z-40 max-h-[70vh] overflow-y-auto">
+          {showFilters && (
+            <div className="p-3 border-b border-border">
+              <SearchFilters value={filters} onChange={setFilters} />
+            </div>
+          )}
+          {!response || !query.trim() ? null : response.results.length === 0 ? (
+            <p className="px-4 py-3 text-sm modern-text-muted">No meetings match &ldquo;{response.query}&rdquo;</p>
+          ) : (
+            <ul className="py-1">
+              {response.results.map(result => {
+                const snippet = result.snippets.find(candidate => candidate.field !== 'title');
+                return (
+                  <li key={result.meetingId}>
+                    <button
+                      // Keep focus so the list isn't closed before the click lands
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => openResult(result.meetingId, snippet?.text)}
+                      className="block w-full px-4 py-2 text-left text-sm modern-text hover:bg-accent hover:text-accent-foreground rounded-lg transition-all duration-200"
+                    >
+                      <span className="font-medium">
+                        <HighlightedText text={result.title} terms={response.terms} />
+                      </span>
+                      <span className="ml-2 text-xs modern-text-muted">{format(new Date(result.date), 'MMM d, yyyy')}</span>
+                      {snippet && (
+                        <span className="block text-xs modern-text-muted mt-1 line-clamp-2">
+                          {snippet.start !== undefined && `${formatTimestamp(snippet.start)} `}
+                          <HighlightedText text={snippet.text} terms={response.terms} />
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+              {response.total > response.results.length && (
+                <li className="px-4 py-2 text-xs modern-text-muted">
+                  {response.total - response.results.length} more - refine your search or use the Meetings page
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BodyMember, GoverningBody, GoverningBodyInput, MemberVoteRecord, QuorumRule, VotingThreshold } from '@/types';
+import { BodiesClient } from '@/lib/bodies-client';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { toast } from 'react-hot-toast';
+
+const THRESHOLD_LABELS: Record<VotingThreshold, string> = {
+  majority: 'Majority of votes cast',
+  two_thirds: 'Two-thirds of votes cast',
+  majority_of_membership: 'Majority of full membership'
+};
+
+const EMPTY_MEMBER: BodyMember = { name: '', title: 'Commissioner', voting: true, aliases: [] };
+
+function toDraft(body: GoverningBody): GoverningBodyInput {
+  return {
+    name: body.name,
+    members: body.members,
+    quorum: body.quorum,
+    votingThreshold: body.votingThreshold,
+    defaultTemplate: body.defaultTemplate
+  };
+}
+
+export default function GoverningBodiesInterface() {
+  const [bodies, setBodies] = useState<GoverningBody[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GoverningBodyInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [voteMember, setVoteMember] = useState('');
+  const [voteQuery, setVoteQuery] = useState('');
+  const [voteYear, setVoteYear] = useState(String(new Date().getFullYear()));
+  const [votes, setVotes] = useState<MemberVoteRecord[] | null>(null);
+
+  useEffect(() => {
+    BodiesClient.getInstance().listBodies()
+      .then(list => {
+        setBodies(list);
+        if (list.length > 0) {
+          setSelectedId(list[0].id);
+          setDraft(toDraft(list[0]));
+        }
+      })
+      .catch(error => {
+        console.error('Error loading governing bodies:', error);
+        toast.error('Failed to load governing bodies');
+      });
+  }, []);
+
+  const selectBody = (body: GoverningBody) => {
+    setSelectedId(body.id);
+    setDraft(toDraft(body));
+    setVoteMember('');
+    setVotes(null);
+  };
+
+  const updateDraft = (patch: Partial<GoverningBodyInput>) => {
+    setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  };
+
+  const updateQuorum = (patch: Partial<QuorumRule>) => {
+    setDraft(prev => prev ? { ...prev, quorum: { ...prev.quorum, ...patch } } : prev);
+  };
+
+  const updateMember = (index: number, patch: Partial<BodyMember>) => {
+    setDraft(prev => prev ? {
+      ...prev,
+      members: prev.members.map((member, i) => i === index ? { ...member, ...patch } : member)
+    } : prev);
+  };
+
+  const handleCreate = async () => {
+    try {
+      const body = await BodiesClient.getInstance().createBody({ name: 'New Body', members: [{ ...EMPTY_MEMBER }] });
+      setBodies(prev => [...prev, body]);
+      selectBody(body);
+    } catch (error) {
+      console.error('Error creating governing body:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create governing body');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedId || !draft) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await BodiesClient.getInstance().updateBody(selectedId, draft);
+      setBodies(prev => prev.map(body => body.id === saved.id ? saved : body));
+      setDraft(toDraft(saved));
+      toast.success(`${saved.name} saved`);
+    } catch (error) {
+      console.error('Error saving governing body:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save governing body');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !draft || !confirm(`Delete ${draft.name}? Meetings already processed keep their minutes.`)) {
+      return;
+    }
+
+    try {
+      await BodiesClient.getInstance().deleteBody(selectedId);
+      const remaining = bodies.filter(body => body.id !== selectedId);
+      setBodies(remaining);
+      setSelectedId(remaining[0]?.id || null);
+      setDraft(remaining[0] ? toDraft(remaining[0]) : null);
+      toast.success('Governing body deleted');
+    } catch (error) {
+      console.error('Error deleting governing body:', error);
+      toast.error('Failed to delete governing body');
+    }
+  };
+
+  const handleVoteSearch = async () => {
+    if (!selectedId) {
+      return;
+    }
+
+    try {
+      const year = voteYear.trim();
+      setVotes(await MeetingsClient.getInstance().searchVotes({
+        bodyId: selectedId,
+        member: voteMember,
+        q: voteQuery,
+        from: year ? `${year}-01-01` : undefined,
+        to: year ? `${year}-12-31` : undefined
+      }));
+    } catch (error) {
+      console.error('Error searching votes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to search votes');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-8 sm:mb-12 text-center px-4">
+        <h2 className="text-2xl sm:text-3xl md:text-4xl font-light zen-text mb-3 sm:mb-4 floating">Governing Bodies</h2>
+        <p className="text-base sm:text-lg zen-text opacity-80">
+          Rosters and rules used to check attendance, names, quorum and votes in minutes
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-8">
+        {bodies.map(body => (
+          <button
+            key={body.id}
+            onClick={() => selectBody(body)}
+            className={`glass-button py-2 px-4 zen-text text-sm ${body.id === selectedId ? 'ring-2 ring-white/60' : 'opacity-80'}`}
+          >
+            {body.name}
+          </button>
+        ))}
+        <button onClick={handleCreate} className="glass-button py-2 px-4 zen-text text-sm">
+          + Add Body
+        </button>
+      </div>
+
+      {!draft ? (
+        <div className="text-center zen-text opacity-80">No governing bodies registered yet.</div>
+      ) : (
+        <>
+          <div className="modern-card p-6 sm:p-8 mb-8">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <div className="sm:col-span-2">
+                <label htmlFor="body-name" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="body-name"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className="modern-input zen-text"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="body-threshold" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Motions Pass With
+                </label>
+                <select
+                  id="body-threshold"
+                  value={draft.votingThreshold}
+                  onChange={(e) => updateDraft({ votingThreshold: e.target.value as VotingThreshold })}
+                  className="modern-input zen-text"
+                >
+                  {(Object.keys(THRESHOLD_LABELS) as VotingThreshold[]).map(threshold => (
+                    <option key={threshold} value={threshold}>{THRESHOLD_LABELS[threshold]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="body-template" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Minutes Template
+                </label>
+                <select
+                  id="body-template"
+                  value={draft.defaultTemplate}
+                  onChange={(e) => updateDraft({ defaultTemplate: e.target.value as GoverningBodyInput['defaultTemplate'] })}
+                  className="modern-input zen-text"
+                >
+                  <option value="commission">Commission Meeting</option>
+                  <option value="case">Case Hearing</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="body-size" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Voting Seats
+                </label>
+                <input
+                  type="number"
+                  id="body-size"
+                  min={1}
+                  value={draft.quorum.bodySize ?? ''}
+                  onChange={(e) => updateQuorum({ bodySize: parseInt(e.target.value) || null })}
+                  className="modern-input zen-text"
+                  placeholder="Unknown"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="body-quorum" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Quorum
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    id="body-quorum"
+                    value={draft.quorum.type}
+                    onChange={(e) => updateQuorum({ type: e.target.value as QuorumRule['type'] })}
+                    className="modern-input zen-text"
+                  >
+                    <option value="majority">Majority of seats</option>
+                    <option value="fixed">Fixed number</option>
+                  </select>
+                  {draft.quorum.type === 'fixed' && (
+                    <input
+                      type="number"
+                      min={1}
+                      aria-label="Members required for quorum"
+                      value={draft.quorum.count ?? ''}
+                      onChange={(e) => updateQuorum({ count: parseInt(e.target.value) || undefined })}
+                      className="modern-input zen-text w-24"
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Members */}
+          <div className="modern-card p-6 sm:p-8 mb-8">
+            <h3 className="text-xl sm:text-2xl font-light zen-text mb-6">Members</h3>
+
+            <div className="space-y-4">
+              {draft.members.map((member, index) => (
+                <div key={index} className="grid grid-cols-1 sm:grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    aria-label="Name"
+                    value={member.name}
+                    onChange={(e) => updateMember(index, { name: e.target.value })}
+                    className="modern-input zen-text sm:col-span-3"
+                    placeholder="Full name"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Title"
+                    value={member.title}
+                    onChange={(e) => updateMember(index, { title: e.target.value })}
+                    className="modern-input zen-text sm:col-span-2"
+                    placeholder="Title"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Also heard as"
+                    value={member.aliases.join(', ')}
+                    onChange={(e) => updateMember(index, { aliases: e.target.value.split(',').map(alias => alias.trimStart()) })}
+                    className="modern-input zen-text sm:col-span-3"
+                    placeholder="Also heard as (comma separated)"
+                  />
+                  <input
+                    type="date"
+                    aria-label="Term start"
+                    value={member.termStart || ''}
+                    onChange={(e) => updateMember(index, { termStart: e.target.value || undefined })}
+                    className="modern-input zen-text sm:col-span-1"
+                  />
+                  <input
+                    type="date"
+                    aria-label="Term end"
+                    value={member.termEnd || ''}
+                    onChange={(e) => updateMember(index, { termEnd: e.target.value || undefined })}
+                    className="modern-input zen-text sm:col-span-1"
+                  />
+                  <label className="flex items-center gap-2 zen-text text-sm sm:col-span-1">
+                    <input
+                      type="checkbox"
+                      checked={member.voting}
+                      onChange={(e) => updateMember(index, { voting: e.target.checked })}
+                      className="h-4 w-4"
+                    />
+                    Votes
+                  </label>
+                  <button
+                    onClick={() => updateDraft({ members: draft.members.filter((_, i) => i !== index) })}
+                    className="text-sm text-red-300 hover:text-red-200 sm:col-span-1"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => updateDraft({ members: [...draft.members, { ...EMPTY_MEMBER }] })}
+              className="mt-6 glass-button py-2 px-4 zen-text text-sm"
+            >
+              + Add Member
+            </button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 glass-button py-3 px-6 zen-text font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+            >
+              {isSaving ? 'Saving...' : 'Save Body'}
+            </button>
+            <button
+              onClick={handleDelete}
+              className="glass-button py-3 px-6 text-red-300 font-medium transition-all duration-300"
+            >
+              Delete
+            </button>
+          </div>
+
+          {/* Voting record */}
+          <div className="modern-card p-6 sm:p-8 mt-8">
+            <h3 className="text-xl sm:text-2xl font-light zen-text mb-2">Voting Record</h3>
+            <p className="text-sm zen-text opacity-70 mb-6">Roll-call votes from processed meetings of this body</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-12 gap-2 mb-6">
+              <select
+                aria-label="Member"
+                value={voteMember}
+                onChange={(e) => setVoteMember(e.target.value)}
+                className="modern-input zen-text sm:col-span-4"
+              >
+                <option value="">All members</option>
+                {draft.members.filter(member => member.voting && member.name.trim()).map(member => (
+                  <option key={member.name} value={member.name}>{member.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                aria-label="Motion contains"
+                value={voteQuery}
+                onChange={(e) => setVoteQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleVoteSearch()}
+                className="modern-input zen-text sm:col-span-4"
+                placeholder="Motion contains, e.g. budget"
+              />
+              <input
+                type="number"
+                aria-label="Year"
+                value={voteYear}
+                onChange={(e) => setVoteYear(e.target.value)}
+                className="modern-input zen-text sm:col-span-2"
+                placeholder="Any year"
+              />
+              <button onClick={handleVoteSearch} className="glass-button py-2 px-4 zen-text text-sm sm:col-span-2">
+                Search
+              </button>
+            </div>
+
+            {votes && (votes.length === 0 ? (
+              <div className="zen-text opacity-70 text-sm">No roll-call votes found.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm zen-text">
+                  <thead>
+                    <tr className="text-left opacity-70">
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Member</th>
+                      <th className="py-2 pr-4 font-medium">Motion</th>
+                      <th className="py-2 pr-4 font-medium">Vote</th>
+                      <th className="py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {votes.map(record => (
+                      <tr key={`${record.meetingId}-${record.motionNumber}-${record.member}`} className="border-t border-white/10 align-top">
+                        <td className="py-2 pr-4 whitespace-nowrap">{record.date}</td>
+                        <td className="py-2 pr-4">{record.member}</td>
+                        <td className="py-2 pr-4" title={record.meetingTitle}>{record.motionText}</td>
+                        <td className="py-2 pr-4 capitalize">{record.vote}</td>
+                        <td className="py-2">{record.result}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
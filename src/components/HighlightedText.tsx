@@ -0,0 +1,21 @@
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+// Wrap each case-insensitive occurrence of any of `terms` in <mark>
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const needles = terms.map(term => term.trim()).filter(Boolean);
+  if (needles.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${needles.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-yellow-300 text-black rounded px-0.5">{part}</mark> : part
+      )}
+    </>
+  );
+}
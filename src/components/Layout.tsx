@@ -13,8 +13,13 @@ import {
   ComputerDesktopIcon,
   EnvelopeIcon,
   CalendarDaysIcon,
-  CloudArrowUpIcon
+  CloudArrowUpIcon,
+  BuildingLibraryIcon,
+  ChatBubbleLeftRightIcon,
+  ClipboardDocumentListIcon,
+  ScaleIcon
 } from '@heroicons/react/24/outline';
+import GlobalSearch from './GlobalSearch';
 
 // Cute Flying Bee SVG Component with dotted trail
 const BeeIcon = ({ className }: { className?: string }) => (
@@ -74,6 +79,7 @@ interface LayoutProps {
   children: React.ReactNode;
   currentPage: string;
   onPageChange: (page: string) => void;
+  onOpenSearchResult?: (meetingId: string, query: string) => void;
 }
 
 const navigation = [
@@ -81,13 +87,17 @@ const navigation = [
   { name: 'Record', id: 'record', icon: MicrophoneIcon },
   { name: 'Upload', id: 'upload', icon: CloudArrowUpIcon },
   { name: 'Meetings', id: 'meetings', icon: DocumentTextIcon },
+  { name: 'Ask', id: 'ask', icon: ChatBubbleLeftRightIcon },
+  { name: 'Actions', id: 'actions', icon: ClipboardDocumentListIcon },
+  { name: 'Cases', id: 'cases', icon: ScaleIcon },
   { name: 'Email', id: 'email', icon: EnvelopeIcon },
   { name: 'Calendar', id: 'calendar', icon: CalendarDaysIcon },
   { name: 'Files', id: 'files', icon: FolderIcon },
+  { name: 'Bodies', id: 'bodies', icon: BuildingLibraryIcon },
   { name: 'Settings', id: 'settings', icon: Cog6ToothIcon },
 ];
 
-export default function Layout({ children, currentPage, onPageChange }: LayoutProps) {
+export default function Layout({ children, currentPage, onPageChange, onOpenSearchResult }: LayoutProps) {
   const [navCollapsed, setNavCollapsed] = useState(true);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
   const [isMobileView, setIsMobileView] = useState(false);
@@ -248,6 +258,12 @@ export default function Layout({ children, currentPage, onPageChange }: LayoutPr
       {/* Main Content */}
       <div className={`transition-all duration-300 ${isMobileView ? '' : navCollapsed ? 'md:ml-20' : 'md:ml-80'}`}>
         <main className="min-h-screen p-3 sm:p-4 md:p-6 lg:p-8">
+          {onOpenSearchResult && (
+            // Padded clear of the fixed navigation and view toggles
+            <div className="flex justify-center px-14 mb-4">
+              <GlobalSearch onOpenResult={onOpenSearchResult} />
+            </div>
+          )}
           {children}
         </main>
       </div>
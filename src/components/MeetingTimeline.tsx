@@ -0,0 +1,57 @@
+'use client';
+
+import { useRef } from 'react';
+import { Recording } from '@/types';
+import { formatTimestamp } from '@/lib/transcript';
+import { getSpeakerName } from '@/lib/speaker-names';
+import SpeakerMapEditor from './SpeakerMapEditor';
+
+interface MeetingTimelineProps {
+  recording: Recording;
+  onRecordingUpdate: (recording: Recording) => void;
+}
+
+export default function MeetingTimeline({ recording, onRecordingUpdate }: MeetingTimelineProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const segments = recording.transcriptSegments || [];
+
+  const handleSeek = (seconds: number) => {
+    if (!audioRef.current) {
+      return;
+    }
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play().catch(error => console.error('Playback error:', error));
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      {recording.audioUrl && (
+        <audio ref={audioRef} src={recording.audioUrl} controls preload="metadata" className="w-full mb-3" />
+      )}
+
+      <SpeakerMapEditor recording={recording} onSaved={onRecordingUpdate} />
+
+      <div className="max-h-72 overflow-y-auto space-y-1">
+        {segments.map((segment, index) => {
+          const speakerName = getSpeakerName(segment.speaker, recording.speakers);
+          return (
+            <button
+              key={index}
+              onClick={() => handleSeek(segment.start)}
+              disabled={!recording.audioUrl}
+              className="flex w-full items-start gap-3 px-3 py-1.5 text-left text-sm rounded-lg modern-text hover:bg-accent hover:text-accent-foreground disabled:cursor-default transition-all duration-200"
+            >
+              <span className="font-mono text-xs modern-text-muted pt-0.5 shrink-0">
+                {formatTimestamp(segment.start)}
+              </span>
+              <span>
+                {speakerName && <span className="font-medium">{speakerName}: </span>}
+                {segment.text}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -9,89 +9,88 @@ import {
   EyeIcon,
   ArrowDownTrayIcon,
   MicrophoneIcon,
-  TrashIcon
+  TrashIcon,
+  ClockIcon,
+  ClipboardDocumentCheckIcon,
+  CodeBracketIcon
 } from '@heroicons/react/24/outline';
-import { Recording } from '@/types';
+import MeetingTimeline from './MeetingTimeline';
+import MinutesReviewPanel, { MINUTES_STATUS_LABELS } from './MinutesReviewPanel';
+import SummaryEditor from './SummaryEditor';
+import HighlightedText from './HighlightedText';
+import SearchFilters, { EMPTY_SEARCH_FILTERS, hasSearchFilters, SearchFilterValues } from './SearchFilters';
+import { MeetingFileType, Recording, SearchResponse, SearchSnippet } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { useMeetings } from '@/hooks/useMeetings';
+import { formatTimestamp } from '@/lib/transcript';
 import { format } from 'date-fns';
 import { toast } from 'react-hot-toast';
 
-export default function MeetingsList() {
-  const [recordings, setRecordings] = useState<Recording[]>([]);
+interface MeetingsListProps {
+  onOpenTranscript?: (recording: Recording, query?: string) => void;
+}
+
+const SNIPPET_LABELS: Record<SearchSnippet['field'], string> = {
+  title: 'Title',
+  participants: 'Participants',
+  transcript: 'Transcript',
+  summary: 'Summary',
+  motion: 'Motion',
+  actionItem: 'Action item'
+};
+
+export default function MeetingsList({ onOpenTranscript }: MeetingsListProps) {
+  const { recordings, setRecordings } = useMeetings();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'all' | 'commission' | 'case' | 'other'>('all');
   const [filterStatus, setFilterStatus] = useState<'all' | 'completed' | 'processing' | 'error'>('all');
+  const [searchFilters, setSearchFilters] = useState<SearchFilterValues>(EMPTY_SEARCH_FILTERS);
   const [showDownloadMenu, setShowDownloadMenu] = useState<string | null>(null);
+  const [expandedTimeline, setExpandedTimeline] = useState<string | null>(null);
+  const [expandedMinutes, setExpandedMinutes] = useState<string | null>(null);
+  const [expandedSummary, setExpandedSummary] = useState<string | null>(null);
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
 
-  // Mock recordings data with transcripts and summaries
-  const mockRecordings: Recording[] = [
-    {
-      id: '1',
-      title: 'Commission Meeting - Budget Review',
-      date: new Date('2025-08-25T14:00:00'),
-      duration: 3600, // 1 hour
-      status: 'completed',
-      type: 'commission',
-      participants: ['John Smith', 'Sarah Johnson', 'Michael Brown'],
-      audioUrl: '/recordings/commission-meeting-20250825.mp3',
-      transcriptUrl: '/transcripts/commission-meeting-20250825.txt',
-      summaryUrl: '/summaries/commission-meeting-20250825.pdf'
-    },
-    {
-      id: '2',
-      title: 'Case Hearing - Employee Appeal #2024-156',
-      date: new Date('2025-08-24T10:30:00'),
-      duration: 2400, // 40 minutes
-      status: 'completed',
-      type: 'case',
-      participants: ['Judge Wilson', 'Attorney Davis', 'Employee Roberts'],
-      audioUrl: '/recordings/case-hearing-20250824.mp3',
-      transcriptUrl: '/transcripts/case-hearing-20250824.txt',
-      summaryUrl: '/summaries/case-hearing-20250824.pdf'
-    },
-    {
-      id: '3',
-      title: 'Staff Training Session - New Procedures',
-      date: new Date('2025-08-23T09:00:00'),
-      duration: 5400, // 1.5 hours
-      status: 'completed',
-      type: 'other',
-      participants: ['Training Coordinator', 'Staff Members'],
-      audioUrl: '/recordings/training-session-20250823.mp3',
-      transcriptUrl: '/transcripts/training-session-20250823.txt',
-      summaryUrl: '/summaries/training-session-20250823.pdf'
-    },
-    {
-      id: '4',
-      title: 'Executive Meeting - Policy Updates',
-      date: new Date('2025-08-22T15:30:00'),
-      duration: 1800, // 30 minutes
-      status: 'processing',
-      type: 'commission',
-      participants: ['Director Thompson', 'Deputy Director Lee'],
-      audioUrl: '/recordings/executive-meeting-20250822.mp3'
-    }
-  ];
+  const isSearching = !!searchTerm.trim() || hasSearchFilters(searchFilters);
 
+  // Search transcripts, summaries and motions server-side once typing pauses
   useEffect(() => {
-    // Load recordings from localStorage or use mock data
-    const stored = localStorage.getItem('recordings');
-    if (stored) {
-      const recordingsData = JSON.parse(stored);
-      setRecordings([...mockRecordings, ...recordingsData]);
-    } else {
-      setRecordings(mockRecordings);
+    const q = searchTerm.trim();
+    if (!q && !hasSearchFilters(searchFilters)) {
+      setSearchResults(null);
+      return;
     }
-  }, []);
 
+    const timer = setTimeout(() => {
+      MeetingsClient.getInstance().search({
+        q: q || undefined,
+        from: searchFilters.from || undefined,
+        to: searchFilters.to || undefined,
+        bodyId: searchFilters.bodyId || undefined,
+        participant: searchFilters.participant.trim() || undefined,
+        limit: Math.max(recordings.length, 1)
+      })
+        .then(setSearchResults)
+        .catch(error => console.error('Error searching meetings:', error));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, searchFilters, recordings]);
+
+  const searchRank = new Map(searchResults?.results.map((result, rank) => [result.meetingId, rank]));
   const filteredRecordings = recordings.filter(recording => {
-    const matchesSearch = recording.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         recording.participants.some(p => p.toLowerCase().includes(searchTerm.toLowerCase()));
+    // Until the first results arrive, match titles and participants locally
+    const needle = searchTerm.trim().toLowerCase();
+    const matchesSearch = !isSearching || (searchResults
+      ? searchRank.has(recording.id)
+      : recording.title.toLowerCase().includes(needle) || recording.participants.some(p => p.toLowerCase().includes(needle)));
     
     const matchesType = filterType === 'all' || recording.type === filterType;
     const matchesStatus = filterStatus === 'all' || recording.status === filterStatus;
     
     return matchesSearch && matchesType && matchesStatus;
-  });
+  }).sort((a, b) => (searchRank.get(a.id) ?? 0) - (searchRank.get(b.id) ?? 0));
 
   const getStatusColor = (status: Recording['status']) => {
     switch (status) {
@@ -112,10 +111,13 @@ export default function MeetingsList() {
     }
   };
 
+  const handleRecordingUpdate = (updated: Recording) => {
+    setRecordings(prev => prev.map(r => r.id === updated.id ? updated : r));
+  };
+
   const handleViewTranscript = (recording: Recording) => {
-    if (recording.transcriptUrl) {
-      toast.success('Opening transcript: ' + recording.title);
-      // In a real app, this would open the transcript file
+    if (recording.transcriptUrl || recording.transcriptSegments?.length) {
+      onOpenTranscript?.(recording);
     } else {
       toast.error('Transcript not available');
     }
@@ -123,68 +125,70 @@ export default function MeetingsList() {
 
   const handleViewSummary = (recording: Recording) => {
     if (recording.summaryUrl) {
-      toast.success('Opening summary: ' + recording.title);
-      // In a real app, this would open the summary file
+      setExpandedSummary(expandedSummary === recording.id ? null : recording.id);
     } else {
       toast.error('Summary not available');
     }
   };
 
-  const handleDownload = (recording: Recording, type: 'audio' | 'transcript' | 'summary') => {
-    const urls = {
-      audio: recording.audioUrl,
-      transcript: recording.transcriptUrl,
-      summary: recording.summaryUrl
-    };
-    
-    if (urls[type]) {
-      toast.success(`Downloading ${type}: ${recording.title}`);
-      // In a real app, this would download the selected file
-    } else {
-      toast.error(`${type.charAt(0).toUpperCase() + type.slice(1)} not available`);
-    }
+  const handleDownload = (recording: Recording, type: MeetingFileType) => {
+    // The browser saves the attachment; the menu only offers files the meeting has
+    const link = document.createElement('a');
+    link.href = MeetingsClient.getInstance().getDownloadUrl(recording.id, type);
+    link.click();
     setShowDownloadMenu(null);
   };
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     if (recordings.length === 0) {
       toast.error('No recordings to clear');
       return;
     }
     
     if (window.confirm('Are you sure you want to clear all recordings? This action cannot be undone.')) {
-      setRecordings([]);
-      localStorage.removeItem('recordings');
-      toast.success('All recordings have been cleared');
+      try {
+        await MeetingsClient.getInstance().clearMeetings();
+        setRecordings([]);
+        toast.success('All recordings have been cleared');
+      } catch (error) {
+        console.error('Error clearing recordings:', error);
+        toast.error('Failed to clear recordings');
+      }
     }
   };
 
-  const handleDownloadAll = () => {
-    const completedRecordings = recordings.filter(r => r.status === 'completed');
-    
-    if (completedRecordings.length === 0) {
-      toast.error('No completed recordings available for download');
+  const handleDownloadAll = async () => {
+    if (filteredRecordings.length === 0) {
+      toast.error('No recordings match the current filters');
       return;
     }
 
-    let downloadCount = 0;
-    completedRecordings.forEach(recording => {
-      // Download audio
-      if (recording.audioUrl) {
-        downloadCount++;
-      }
-      // Download transcript
-      if (recording.transcriptUrl) {
-        downloadCount++;
-      }
-      // Download summary
-      if (recording.summaryUrl) {
-        downloadCount++;
-      }
-    });
+    setIsExporting(true);
+    const exportToast = toast.loading(`Preparing ${filteredRecordings.length} recordings...`);
+    try {
+      const bundle = await MeetingsClient.getInstance().exportMeetings({
+        q: searchTerm || undefined,
+        from: searchFilters.from || undefined,
+        to: searchFilters.to || undefined,
+        bodyId: searchFilters.bodyId || undefined,
+        participant: searchFilters.participant.trim() || undefined,
+        type: filterType === 'all' ? undefined : filterType,
+        status: filterStatus === 'all' ? undefined : filterStatus
+      }, includeAudio);
 
-    toast.success(`Downloading ${downloadCount} files from ${completedRecordings.length} recordings`);
-    // In a real app, this would trigger downloads of all available files
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `busybee_meetings_${format(new Date(), 'yyyy-MM-dd')}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${filteredRecordings.length} recordings`, { id: exportToast });
+    } catch (error) {
+      console.error('Error exporting recordings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export recordings', { id: exportToast });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const formatDuration = (seconds: number) => {
@@ -225,7 +229,7 @@ export default function MeetingsList() {
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="modern-input pl-10 pr-3 py-2 w-full"
-                  placeholder="Search meetings or participants..."
+                  placeholder='Search transcripts, summaries, motions... use "quotes" for phrases'
                 />
               </div>
             </div>
@@ -259,16 +263,28 @@ export default function MeetingsList() {
             </div>
           </div>
 
+          <SearchFilters value={searchFilters} onChange={setSearchFilters} />
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3 pt-2 border-t border-border">
             <button
               onClick={handleDownloadAll}
-              disabled={recordings.filter(r => r.status === 'completed').length === 0}
+              disabled={filteredRecordings.length === 0 || isExporting}
               className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-all duration-200"
+              title="Download the meetings shown below as a ZIP"
             >
               <ArrowDownTrayIcon className="h-4 w-4" />
-              Download All
+              {isExporting ? 'Exporting...' : 'Download All'}
             </button>
+            <label className="flex items-center gap-2 text-sm modern-text">
+              <input
+                type="checkbox"
+                checked={includeAudio}
+                onChange={(e) => setIncludeAudio(e.target.checked)}
+                className="h-4 w-4"
+              />
+              Include audio
+            </label>
             <button
               onClick={handleClearAll}
               disabled={recordings.length === 0}
@@ -318,6 +334,33 @@ export default function MeetingsList() {
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(recording.status)}`}>
                         {recording.status}
                       </span>
+                      {recording.analysisMode === 'heuristic' && (
+                        <span
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-yellow-700 bg-yellow-100"
+                          title="Drafted offline by pattern matching, without AI - verify before use"
+                        >
+                          heuristic
+                        </span>
+                      )}
+                      {recording.status === 'completed' && recording.summaryUrl && (
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            recording.minutes?.status === 'approved' || recording.minutes?.status === 'published'
+                              ? 'text-green-700 bg-green-100'
+                              : 'text-blue-700 bg-blue-100'
+                          }`}
+                        >
+                          {MINUTES_STATUS_LABELS[recording.minutes?.status || 'draft']}
+                        </span>
+                      )}
+                      {recording.validationWarnings && recording.validationWarnings.length > 0 && (
+                        <span
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-orange-700 bg-orange-100"
+                          title={recording.validationWarnings.join('\n')}
+                        >
+                          {recording.validationWarnings.length} corrected
+                        </span>
+                      )}
                     </div>
 
                     {/* Details */}
@@ -335,12 +378,48 @@ export default function MeetingsList() {
                         </span>
                       )}
                     </div>
+
+                    {/* Search matches */}
+                    {searchResults && (searchResults.results.find(result => result.meetingId === recording.id)?.snippets || [])
+                      .filter(snippet => snippet.field !== 'title')
+                      .map((snippet, index) => (
+                        <button
+                          key={index}
+                          onClick={() => snippet.field === 'transcript'
+                            ? onOpenTranscript?.(recording, searchResults.terms.find(term => snippet.text.toLowerCase().includes(term.toLowerCase())) || searchResults.terms[0])
+                            : handleViewSummary(recording)}
+                          className="block w-full text-left text-sm modern-text mt-2 hover:text-white"
+                        >
+                          <span className="text-xs font-medium modern-text-muted mr-2">
+                            {SNIPPET_LABELS[snippet.field]}{snippet.start !== undefined && ` ${formatTimestamp(snippet.start)}`}
+                          </span>
+                          <HighlightedText text={snippet.text} terms={searchResults.terms} />
+                        </button>
+                      ))}
                   </div>
 
                   {/* Action Buttons */}
                   <div className="flex items-center gap-2 sm:gap-3">
                     {recording.status === 'completed' && (
                       <>
+                        {recording.transcriptSegments && recording.transcriptSegments.length > 0 && (
+                          <button
+                            onClick={() => setExpandedTimeline(expandedTimeline === recording.id ? null : recording.id)}
+                            className="nav-button-circle w-10 h-10 flex items-center justify-center"
+                            title="Show Timeline"
+                          >
+                            <ClockIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        {recording.summaryUrl && (
+                          <button
+                            onClick={() => setExpandedMinutes(expandedMinutes === recording.id ? null : recording.id)}
+                            className="nav-button-circle w-10 h-10 flex items-center justify-center"
+                            title="Review Minutes"
+                          >
+                            <ClipboardDocumentCheckIcon className="h-5 w-5" />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleViewTranscript(recording)}
                           className="nav-button-circle w-10 h-10 flex items-center justify-center"
@@ -351,7 +430,7 @@ export default function MeetingsList() {
                         <button
                           onClick={() => handleViewSummary(recording)}
                           className="nav-button-circle w-10 h-10 flex items-center justify-center"
-                          title="View Summary"
+                          title="Edit Summary"
                         >
                           <EyeIcon className="h-5 w-5" />
                         </button>
@@ -367,13 +446,15 @@ export default function MeetingsList() {
                           {showDownloadMenu === recording.id && (
                             <div className="absolute right-0 top-full mt-2 w-48 modern-card shadow-lg z-10">
                               <div className="py-1">
-                                <button
-                                  onClick={() => handleDownload(recording, 'audio')}
-                                  className="flex items-center w-full px-4 py-2 text-sm modern-text hover:bg-accent hover:text-accent-foreground rounded-lg transition-all duration-200"
-                                >
-                                  <SpeakerWaveIcon className="h-4 w-4 mr-3" />
-                                  Download Audio
-                                </button>
+                                {recording.audioUrl && (
+                                  <button
+                                    onClick={() => handleDownload(recording, 'audio')}
+                                    className="flex items-center w-full px-4 py-2 text-sm modern-text hover:bg-accent hover:text-accent-foreground rounded-lg transition-all duration-200"
+                                  >
+                                    <SpeakerWaveIcon className="h-4 w-4 mr-3" />
+                                    Download Audio
+                                  </button>
+                                )}
                                 {recording.transcriptUrl && (
                                   <button
                                     onClick={() => handleDownload(recording, 'transcript')}
@@ -392,6 +473,13 @@ export default function MeetingsList() {
                                     Download Summary
                                   </button>
                                 )}
+                                <button
+                                  onClick={() => handleDownload(recording, 'analysis')}
+                                  className="flex items-center w-full px-4 py-2 text-sm modern-text hover:bg-accent hover:text-accent-foreground rounded-lg transition-all duration-200"
+                                >
+                                  <CodeBracketIcon className="h-4 w-4 mr-3" />
+                                  Download Analysis (JSON)
+                                </button>
                               </div>
                             </div>
                           )}
@@ -411,6 +499,18 @@ export default function MeetingsList() {
                     )}
                   </div>
                 </div>
+
+                {expandedTimeline === recording.id && (
+                  <MeetingTimeline recording={recording} onRecordingUpdate={handleRecordingUpdate} />
+                )}
+
+                {expandedSummary === recording.id && (
+                  <SummaryEditor recording={recording} onRecordingUpdate={handleRecordingUpdate} />
+                )}
+
+                {expandedMinutes === recording.id && (
+                  <MinutesReviewPanel recording={recording} onRecordingUpdate={handleRecordingUpdate} />
+                )}
               </div>
             ))}
           </div>
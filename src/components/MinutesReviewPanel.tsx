@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { MinutesStatus, MinutesTransition, Recording } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface MinutesReviewPanelProps {
+  recording: Recording;
+  onRecordingUpdate: (recording: Recording) => void;
+}
+
+export const MINUTES_STATUS_LABELS: Record<MinutesStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published'
+};
+
+// Actions offered from each status; the server enforces the same moves
+const ACTIONS: Record<MinutesStatus, { status: MinutesStatus; label: string }[]> = {
+  draft: [{ status: 'in_review', label: 'Submit for Review' }],
+  in_review: [{ status: 'draft', label: 'Return to Draft' }, { status: 'approved', label: 'Record Approval' }],
+  approved: [{ status: 'in_review', label: 'Reopen' }, { status: 'published', label: 'Publish' }],
+  published: []
+};
+
+export default function MinutesReviewPanel({ recording, onRecordingUpdate }: MinutesReviewPanelProps) {
+  const minutes = recording.minutes;
+  const status = minutes?.status || 'draft';
+  const [reviewer, setReviewer] = useState('');
+  const [comment, setComment] = useState('');
+  const [approvedOn, setApprovedOn] = useState(new Date().toISOString().split('T')[0]);
+  const [approvalMotion, setApprovalMotion] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const client = MeetingsClient.getInstance();
+  const isApproved = status === 'approved' || status === 'published';
+
+  const handleTransition = async (next: MinutesStatus) => {
+    const transition: MinutesTransition = { status: next, by: reviewer || undefined };
+    if (next === 'approved') {
+      transition.approvedOn = approvedOn;
+      transition.approvalMotion = approvalMotion;
+    }
+
+    setIsSaving(true);
+    try {
+      onRecordingUpdate(await client.transitionMinutes(recording.id, transition));
+      toast.success(`Minutes ${MINUTES_STATUS_LABELS[next].toLowerCase()}`);
+    } catch (error) {
+      console.error('Error updating minutes status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update minutes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!reviewer.trim() || !comment.trim()) {
+      toast.error('Enter your name and a comment');
+      return;
+    }
+
+    try {
+      onRecordingUpdate(await client.addMinutesComment(recording.id, reviewer, comment));
+      setComment('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error('Failed to add comment');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm modern-text">
+        <span className="font-medium">Minutes: {MINUTES_STATUS_LABELS[status]}</span>
+        {minutes?.approvedOn && (
+          <span className="modern-text-muted">
+            Approved {minutes.approvedOn} - {minutes.approvalMotion}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          type="text"
+          aria-label="Reviewer"
+          value={reviewer}
+          onChange={(e) => setReviewer(e.target.value)}
+          className="modern-input px-3 py-1.5"
+          placeholder="Your name"
+        />
+        {status === 'in_review' && (
+          <>
+            <input
+              type="date"
+              aria-label="Approval date"
+              value={approvedOn}
+              onChange={(e) => setApprovedOn(e.target.value)}
+              className="modern-input px-3 py-1.5"
+            />
+            <input
+              type="text"
+              aria-label="Approval motion"
+              value={approvalMotion}
+              onChange={(e) => setApprovalMotion(e.target.value)}
+              className="modern-input px-3 py-1.5 sm:col-span-2"
+              placeholder="Approving motion, e.g. Motion 2 moved by Fitial, seconded by Bellas"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ACTIONS[status].map(action => (
+          <button
+            key={action.status}
+            onClick={() => handleTransition(action.status)}
+            disabled={isSaving}
+            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-all duration-200"
+          >
+            {action.label}
+          </button>
+        ))}
+        {!isApproved && (
+          <a
+            href={client.getMinutesExportUrl(recording.id, false)}
+            className="px-4 py-1.5 modern-card text-sm modern-text rounded-lg font-medium"
+          >
+            Download Draft
+          </a>
+        )}
+        {isApproved ? (
+          <a
+            href={client.getMinutesExportUrl(recording.id, true)}
+            className="px-4 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg font-medium transition-all duration-200"
+          >
+            Download Official
+          </a>
+        ) : (
+          <span className="px-4 py-1.5 text-sm modern-text-muted" title="Official minutes can be exported once approved">
+            Official copy available after approval
+          </span>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium modern-text mb-2">Reviewer Comments</h4>
+        {(minutes?.comments || []).length === 0 ? (
+          <p className="text-sm modern-text-muted">No comments yet.</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {minutes?.comments.map(entry => (
+              <li key={entry.id} className="text-sm modern-text">
+                <span className="font-medium">{entry.author}</span>
+                <span className="modern-text-muted"> · {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                <p className="whitespace-pre-wrap">{entry.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {status !== 'published' && (
+          <div className="flex gap-2">
+            <textarea
+              aria-label="Comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              className="modern-input px-3 py-1.5 flex-1"
+              placeholder="Corrections or questions about these minutes"
+            />
+            <button
+              onClick={handleComment}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-medium self-end transition-all duration-200"
+            >
+              Comment
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
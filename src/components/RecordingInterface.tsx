@@ -11,9 +11,11 @@ import {
 import BeeIcon from './BeeIcon';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 import { useLiveTranscription } from '@/hooks/useLiveTranscription';
-import { OpenAIClient } from '@/lib/openai-client';
+import { OpenAIClient, PROCESSING_STAGE_MESSAGES } from '@/lib/openai-client';
+import { MeetingsClient } from '@/lib/meetings-client';
 import { Recording } from '@/types';
 import { toast } from 'react-hot-toast';
+import BodySelect from './BodySelect';
 
 interface RecordingInterfaceProps {
   onRecordingComplete: (recording: Recording) => void;
@@ -25,6 +27,7 @@ export default function RecordingInterface({ onRecordingComplete }: RecordingInt
   const [showPostRecordingForm, setShowPostRecordingForm] = useState(false);
   const [meetingTitle, setMeetingTitle] = useState('');
   const [meetingType, setMeetingType] = useState<'general' | 'case' | 'board' | 'other'>('general');
+  const [bodyId, setBodyId] = useState('');
   const [liveTimer, setLiveTimer] = useState(0);
   const [startTime, setStartTime] = useState(0);
   
@@ -124,59 +127,60 @@ export default function RecordingInterface({ onRecordingComplete }: RecordingInt
 
     setIsProcessing(true);
     setShowPostRecordingForm(false);
-    const processingToast = toast.loading('Processing recording...');
+    const processingToast = toast.loading('Uploading recording...');
+    let meetingId: string | undefined;
+    let jobId: string | undefined;
 
     try {
-      // Process audio using OpenAI (includes transcription + analysis)
-      toast.loading('Transcribing and analyzing audio...', { id: processingToast });
-      const openAIClient = OpenAIClient.getInstance();
-      const processingResult = await openAIClient.processAudioFile(
-        new File([audioBlob], 'recording.wav', { type: 'audio/wav' }),
-        meetingTitle,
-        meetingType
+      // Save the meeting and audio first so processing survives a closed tab
+      const meetingsClient = MeetingsClient.getInstance();
+      const meeting = await meetingsClient.createMeeting(
+        {
+          title: meetingTitle,
+          date: new Date(),
+          duration,
+          status: 'processing',
+          type: meetingType,
+          bodyId: bodyId || undefined,
+          participants: []
+        },
+        audioBlob,
+        'recording.webm'
       );
+      meetingId = meeting.id;
 
-      // Step 3: Save files to local storage (not desktop downloads)
-      toast.loading('Saving files locally...', { id: processingToast });
-      
-      // Convert audio blob to base64 for storage
-      const audioBase64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.readAsDataURL(audioBlob);
+      // Transcription + analysis run as a background job; follow its progress
+      const openAIClient = OpenAIClient.getInstance();
+      jobId = await openAIClient.startProcessing(meeting.id);
+      const job = await openAIClient.waitForJob(jobId, state => {
+        toast.loading(PROCESSING_STAGE_MESSAGES[state], { id: processingToast });
       });
 
-      // Create recording object with local data
-      const recording: Recording = {
-        id: Date.now().toString(),
-        title: meetingTitle,
-        date: new Date(),
-        duration,
-        status: 'completed',
-        type: meetingType,
-        audioUrl: audioBase64, // Store as base64 data URL
-        transcriptUrl: processingResult.transcript || '', // Store transcript text directly
-        summaryUrl: processingResult.summary || '', // Store clean markdown summary
-        participants: processingResult.participants || []
-      };
-
-      // Save to localStorage (in production, save to database)
-      const existingRecordings = JSON.parse(localStorage.getItem('recordings') || '[]');
-      const updatedRecordings = [recording, ...existingRecordings];
-      localStorage.setItem('recordings', JSON.stringify(updatedRecordings));
-
-      toast.success('Recording processed and saved locally!', { id: processingToast });
+      const recording = await meetingsClient.getMeeting(meeting.id);
+
+      if (job.state === 'failed') {
+        toast.error(`Recording saved, but processing failed: ${job.error}`, { id: processingToast });
+      } else {
+        toast.success('Recording processed and saved!', { id: processingToast });
+      }
       onRecordingComplete(recording);
       
       // Reset form
       setMeetingTitle('');
-      setMeetingType('commission');
+      setMeetingType('general');
+      setBodyId('');
       resetRecording();
       clearTranscript();
 
     } catch (error) {
       console.error('Processing error:', error);
       toast.error('Failed to process recording', { id: processingToast });
+
+      // Don't leave a meeting stuck in "processing" if the job never started
+      if (meetingId && !jobId) {
+        MeetingsClient.getInstance().updateMeeting(meetingId, { status: 'error' })
+          .catch(updateError => console.error('Error updating meeting status:', updateError));
+      }
     } finally {
       setIsProcessing(false);
     }
@@ -187,7 +191,8 @@ export default function RecordingInterface({ onRecordingComplete }: RecordingInt
     clearTranscript();
     setShowPostRecordingForm(false);
     setMeetingTitle('');
-    setMeetingType('commission');
+    setMeetingType('general');
+    setBodyId('');
     toast.success('Recording discarded');
   };
 
@@ -245,6 +250,10 @@ export default function RecordingInterface({ onRecordingComplete }: RecordingInt
                   <option value="other" style={{ background: 'rgba(0,0,0,0.9)', color: 'white' }}>Lecture/Workshop</option>
                 </select>
               </div>
+
+              {(meetingType === 'board' || meetingType === 'case') && (
+                <BodySelect id="meeting-body" value={bodyId} onChange={setBodyId} />
+              )}
             </div>
 
             <div className="mt-8 flex flex-col sm:flex-row gap-4">
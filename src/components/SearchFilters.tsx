@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GoverningBody } from '@/types';
+import { BodiesClient } from '@/lib/bodies-client';
+
+export interface SearchFilterValues {
+  from: string; // YYYY-MM-DD
+  to: string;
+  bodyId: string;
+  participant: string;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilterValues = { from: '', to: '', bodyId: '', participant: '' };
+
+export const hasSearchFilters = (filters: SearchFilterValues) => Object.values(filters).some(value => value.trim());
+
+interface SearchFiltersProps {
+  value: SearchFilterValues;
+  onChange: (filters: SearchFilterValues) => void;
+}
+
+const OPTION_STYLE = { background: 'rgba(0,0,0,0.9)', color: 'white' };
+
+// Date range, body and participant filters shared by the Meetings page and the global search box
+export default function SearchFilters({ value, onChange }: SearchFiltersProps) {
+  const [bodies, setBodies] = useState<GoverningBody[]>([]);
+
+  useEffect(() => {
+    BodiesClient.getInstance().listBodies()
+      .then(setBodies)
+      .catch(error => console.error('Error loading governing bodies:', error));
+  }, []);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3">
+      <label className="flex items-center gap-2 text-sm modern-text">
+        From
+        <input
+          type="date"
+          value={value.from}
+          max={value.to || undefined}
+          onChange={(e) => onChange({ ...value, from: e.target.value })}
+          className="modern-input px-3 py-2"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm modern-text">
+        To
+        <input
+          type="date"
+          value={value.to}
+          min={value.from || undefined}
+          onChange={(e) => onChange({ ...value, to: e.target.value })}
+          className="modern-input px-3 py-2"
+        />
+      </label>
+      <select
+        aria-label="Governing body"
+        value={value.bodyId}
+        onChange={(e) => onChange({ ...value, bodyId: e.target.value })}
+        className="modern-input pl-3 pr-10 py-2"
+      >
+        <option value="" style={OPTION_STYLE}>All Bodies</option>
+        {bodies.map(body => (
+          <option key={body.id} value={body.id} style={OPTION_STYLE}>{body.name}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        aria-label="Participant"
+        value={value.participant}
+        onChange={(e) => onChange({ ...value, participant: e.target.value })}
+        className="modern-input px-3 py-2 sm:flex-1"
+        placeholder="Participant or speaker"
+      />
+      {hasSearchFilters(value) && (
+        <button
+          onClick={() => onChange(EMPTY_SEARCH_FILTERS)}
+          className="text-sm modern-text-muted hover:underline"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
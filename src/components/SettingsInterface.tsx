@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AppSettings, LLMProviderId, QuorumRule, StorageFolder } from '@/types';
+import { SettingsClient } from '@/lib/settings-client';
+import { toast } from 'react-hot-toast';
+
+const FOLDER_LABELS: Record<StorageFolder, string> = {
+  recordings: 'Recordings',
+  transcripts: 'Transcripts',
+  notes: 'Notes',
+  orders: 'Orders & Notices',
+  logs: 'Logs'
+};
+
+export default function SettingsInterface() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    SettingsClient.getInstance().getSettings()
+      .then(setSettings)
+      .catch(error => {
+        console.error('Error loading settings:', error);
+        toast.error('Failed to load settings');
+      });
+  }, []);
+
+  const updateField = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setSettings(prev => prev ? { ...prev, [key]: value } : prev);
+  };
+
+  const updateFolder = (folder: StorageFolder, name: string) => {
+    setSettings(prev => prev ? {
+      ...prev,
+      storage: { ...prev.storage, folders: { ...prev.storage.folders, [folder]: name } }
+    } : prev);
+  };
+
+  const updateQuorum = (patch: Partial<QuorumRule>) => {
+    setSettings(prev => prev ? { ...prev, quorum: { ...prev.quorum, ...patch } } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!settings) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setSettings(await SettingsClient.getInstance().updateSettings(settings));
+      toast.success('Settings saved');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="max-w-4xl mx-auto text-center zen-text opacity-80">Loading settings...</div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8 sm:mb-12 text-center px-4">
+        <h2 className="text-2xl sm:text-3xl md:text-4xl font-light zen-text mb-3 sm:mb-4 floating">Settings</h2>
+        <p className="text-base sm:text-lg zen-text opacity-80">
+          Changes apply to the next meeting processed - no restart needed
+        </p>
+      </div>
+
+      {/* AI Processing */}
+      <div className="modern-card p-6 sm:p-8 mb-8">
+        <h3 className="text-xl sm:text-2xl font-light zen-text mb-6">AI Processing</h3>
+
+        <div className="space-y-6">
+          <div>
+            <label htmlFor="settings-provider" className="block text-sm font-medium zen-text mb-2 opacity-90">
+              Provider
+            </label>
+            <select
+              id="settings-provider"
+              value={settings.llmProvider}
+              onChange={(e) => updateField('llmProvider', e.target.value as LLMProviderId)}
+              className="modern-input zen-text"
+            >
+              <option value="openai">OpenAI</option>
+              <option value="local">Local server (Ollama, llama.cpp, LocalAI)</option>
+            </select>
+          </div>
+
+          {settings.llmProvider === 'openai' ? (
+            <div>
+              <label htmlFor="settings-model" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                Model
+              </label>
+              <input
+                type="text"
+                id="settings-model"
+                value={settings.openaiModel}
+                onChange={(e) => updateField('openaiModel', e.target.value)}
+                className="modern-input zen-text"
+                placeholder="gpt-4o-mini"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="settings-local-url" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  Endpoint (OpenAI-compatible)
+                </label>
+                <input
+                  type="text"
+                  id="settings-local-url"
+                  value={settings.localBaseUrl}
+                  onChange={(e) => updateField('localBaseUrl', e.target.value)}
+                  className="modern-input zen-text font-mono"
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <div>
+                  <label htmlFor="settings-local-model" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                    Chat Model
+                  </label>
+                  <input
+                    type="text"
+                    id="settings-local-model"
+                    value={settings.localModel}
+                    onChange={(e) => updateField('localModel', e.target.value)}
+                    className="modern-input zen-text"
+                    placeholder="llama3.1"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="settings-local-transcription" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                    Transcription Model
+                  </label>
+                  <input
+                    type="text"
+                    id="settings-local-transcription"
+                    value={settings.localTranscriptionModel}
+                    onChange={(e) => updateField('localTranscriptionModel', e.target.value)}
+                    className="modern-input zen-text"
+                    placeholder="whisper-1"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="settings-max-tokens" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                Max Tokens
+              </label>
+              <input
+                type="number"
+                id="settings-max-tokens"
+                min={1}
+                value={settings.maxTokens}
+                onChange={(e) => updateField('maxTokens', parseInt(e.target.value) || 0)}
+                className="modern-input zen-text"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="settings-temperature" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                Temperature ({settings.temperature.toFixed(1)})
+              </label>
+              <input
+                type="range"
+                id="settings-temperature"
+                min={0}
+                max={2}
+                step={0.1}
+                value={settings.temperature}
+                onChange={(e) => updateField('temperature', parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Caching */}
+      <div className="modern-card p-6 sm:p-8 mb-8">
+        <h3 className="text-xl sm:text-2xl font-light zen-text mb-6">Response Cache</h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 items-end">
+          <label className="flex items-center gap-3 zen-text">
+            <input
+              type="checkbox"
+              checked={settings.enableAiCache}
+              onChange={(e) => updateField('enableAiCache', e.target.checked)}
+              className="h-4 w-4"
+            />
+            Reuse results for identical transcripts
+          </label>
+
+          <div>
+            <label htmlFor="settings-cache-ttl" className="block text-sm font-medium zen-text mb-2 opacity-90">
+              Cache Duration (hours)
+            </label>
+            <input
+              type="number"
+              id="settings-cache-ttl"
+              min={1}
+              value={settings.cacheTtlHours}
+              onChange={(e) => updateField('cacheTtlHours', parseInt(e.target.value) || 0)}
+              className="modern-input zen-text"
+              disabled={!settings.enableAiCache}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Quorum */}
+      <div className="modern-card p-6 sm:p-8 mb-8">
+        <h3 className="text-xl sm:text-2xl font-light zen-text mb-2">Quorum</h3>
+        <p className="text-sm zen-text opacity-70 mb-6">
+          Used to check quorum against recorded attendance. Without these, minutes mark quorum as unverified.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+          <div>
+            <label htmlFor="settings-body-size" className="block text-sm font-medium zen-text mb-2 opacity-90">
+              Seats on the Body
+            </label>
+            <input
+              type="number"
+              id="settings-body-size"
+              min={1}
+              value={settings.quorum.bodySize ?? ''}
+              onChange={(e) => updateQuorum({ bodySize: parseInt(e.target.value) || null })}
+              className="modern-input zen-text"
+              placeholder="Unknown"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="settings-quorum-rule" className="block text-sm font-medium zen-text mb-2 opacity-90">
+              Quorum Rule
+            </label>
+            <select
+              id="settings-quorum-rule"
+              value={settings.quorum.type}
+              onChange={(e) => updateQuorum({ type: e.target.value as QuorumRule['type'] })}
+              className="modern-input zen-text"
+            >
+              <option value="majority">Majority of seats</option>
+              <option value="fixed">Fixed number of members</option>
+            </select>
+          </div>
+
+          {settings.quorum.type === 'fixed' && (
+            <div>
+              <label htmlFor="settings-quorum-count" className="block text-sm font-medium zen-text mb-2 opacity-90">
+                Members Required
+              </label>
+              <input
+                type="number"
+                id="settings-quorum-count"
+                min={1}
+                value={settings.quorum.count ?? ''}
+                onChange={(e) => updateQuorum({ count: parseInt(e.target.value) || undefined })}
+                className="modern-input zen-text"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Storage */}
+      <div className="modern-card p-6 sm:p-8 mb-8">
+        <h3 className="text-xl sm:text-2xl font-light zen-text mb-6">File Storage</h3>
+
+        <div className="space-y-6">
+          <div>
+            <label htmlFor="settings-storage-root" className="block text-sm font-medium zen-text mb-2 opacity-90">
+              Storage Folder
+            </label>
+            <input
+              type="text"
+              id="settings-storage-root"
+              value={settings.storage.root}
+              onChange={(e) => updateField('storage', { ...settings.storage, root: e.target.value })}
+              className="modern-input zen-text font-mono"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {(Object.keys(FOLDER_LABELS) as StorageFolder[]).map(folder => (
+              <div key={folder}>
+                <label htmlFor={`settings-folder-${folder}`} className="block text-sm font-medium zen-text mb-2 opacity-90">
+                  {FOLDER_LABELS[folder]}
+                </label>
+                <input
+                  type="text"
+                  id={`settings-folder-${folder}`}
+                  value={settings.storage.folders[folder]}
+                  onChange={(e) => updateFolder(folder, e.target.value)}
+                  className="modern-input zen-text font-mono"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full glass-button py-3 px-6 zen-text font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+      >
+        {isSaving ? 'Saving...' : 'Save Settings'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Recording, MeetingSpeaker } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { toast } from 'react-hot-toast';
+
+interface SpeakerMapEditorProps {
+  recording: Recording;
+  onSaved: (recording: Recording) => void;
+}
+
+export default function SpeakerMapEditor({ recording, onSaved }: SpeakerMapEditorProps) {
+  const [speakers, setSpeakers] = useState<MeetingSpeaker[]>(recording.speakers || []);
+  const [knownNames, setKnownNames] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Learned names are kept per governing body, or per meeting type without one
+  const bodyKey = recording.bodyId || recording.type;
+
+  useEffect(() => {
+    // Suggestions come from the body's registered members plus names learned for it
+    MeetingsClient.getInstance().getSpeakerNames(bodyKey)
+      .then(setKnownNames)
+      .catch(error => console.error('Error loading speaker names:', error));
+  }, [bodyKey]);
+
+  const handleNameChange = (label: string, name: string) => {
+    setSpeakers(prev => prev.map(speaker =>
+      speaker.label === label ? { ...speaker, name: name || undefined } : speaker
+    ));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const client = MeetingsClient.getInstance();
+      const updated = await client.updateMeeting(recording.id, { speakers });
+
+      // Remember how these people were heard so the next meeting maps them automatically
+      const aliases = Object.fromEntries(
+        speakers
+          .filter(speaker => speaker.heardAs && speaker.name)
+          .map(speaker => [speaker.heardAs as string, speaker.name as string])
+      );
+      if (Object.keys(aliases).length > 0) {
+        await client.saveSpeakerAliases(bodyKey, aliases);
+      }
+
+      onSaved(updated);
+      toast.success('Speaker names saved');
+    } catch (error) {
+      console.error('Error saving speakers:', error);
+      toast.error('Failed to save speaker names');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  const datalistId = `speaker-names-${recording.id}`;
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-medium modern-text mb-2">Speakers</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {speakers.map(speaker => (
+          <label key={speaker.label} className="flex items-center gap-2 text-sm modern-text">
+            <span className="w-24 shrink-0">
+              {speaker.label}
+              {speaker.heardAs && (
+                <span className="block text-xs modern-text-muted truncate">&ldquo;{speaker.heardAs}&rdquo;</span>
+              )}
+            </span>
+            <input
+              type="text"
+              list={datalistId}
+              value={speaker.name || ''}
+              onChange={(e) => handleNameChange(speaker.label, e.target.value)}
+              className="modern-input px-3 py-1.5 w-full"
+              placeholder="Unknown speaker"
+            />
+          </label>
+        ))}
+      </div>
+      <datalist id={datalistId}>
+        {knownNames.map(name => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="mt-3 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-all duration-200"
+      >
+        {isSaving ? 'Saving...' : 'Save Speakers'}
+      </button>
+    </div>
+  );
+}
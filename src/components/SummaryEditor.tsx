@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Recording, SummaryRevision } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { renderMarkdown } from '@/lib/markdown';
+import { diffLines } from '@/lib/text-diff';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface SummaryEditorProps {
+  recording: Recording;
+  onRecordingUpdate: (recording: Recording) => void;
+}
+
+const SOURCE_LABELS: Record<SummaryRevision['source'], string> = {
+  generated: 'Generated',
+  edit: 'Edited',
+  revert: 'Reverted'
+};
+
+export default function SummaryEditor({ recording, onRecordingUpdate }: SummaryEditorProps) {
+  const [text, setText] = useState(recording.summaryUrl || '');
+  const [author, setAuthor] = useState('');
+  const [note, setNote] = useState('');
+  const [revisions, setRevisions] = useState<SummaryRevision[]>([]);
+  const [compare, setCompare] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const client = MeetingsClient.getInstance();
+  const isLocked = recording.minutes?.status === 'approved' || recording.minutes?.status === 'published';
+  const isDirty = text !== (recording.summaryUrl || '');
+
+  useEffect(() => {
+    MeetingsClient.getInstance().listRevisions(recording.id)
+      .then(setRevisions)
+      .catch(error => console.error('Error loading revisions:', error));
+  }, [recording.id]);
+
+  const preview = useMemo(() => renderMarkdown(text), [text]);
+
+  // Two selected revisions, older first
+  const diff = useMemo(() => {
+    if (compare.length !== 2) {
+      return null;
+    }
+    const [before, after] = [...compare].sort((a, b) => a - b).map(number => revisions.find(r => r.number === number));
+    return before && after ? { before, after, lines: diffLines(before.summary, after.summary) } : null;
+  }, [compare, revisions]);
+
+  const applySaved = (saved: { recording: Recording; revision: SummaryRevision }) => {
+    setRevisions(prev => [...prev, saved.revision]);
+    setText(saved.recording.summaryUrl || '');
+    setNote('');
+    onRecordingUpdate(saved.recording);
+  };
+
+  const handleSave = async () => {
+    if (!author.trim()) {
+      toast.error('Enter your name so the change is attributed');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      applySaved(await client.saveRevision(recording.id, { author, summary: text, note: note || undefined }));
+      toast.success('Summary saved');
+    } catch (error) {
+      console.error('Error saving summary:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save summary');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevert = async (number: number) => {
+    if (!author.trim()) {
+      toast.error('Enter your name so the change is attributed');
+      return;
+    }
+    if (isDirty && !confirm('Discard your unsaved changes and revert?')) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      applySaved(await client.saveRevision(recording.id, { author, revertTo: number, note: note || undefined }));
+      toast.success(`Reverted to revision ${number}`);
+    } catch (error) {
+      console.error('Error reverting summary:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revert summary');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleCompare = (number: number) => {
+    setCompare(prev => prev.includes(number)
+      ? prev.filter(n => n !== number)
+      : [...prev.slice(-1), number]);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-4">
+      {isLocked ? (
+        <p className="text-sm modern-text-muted">These minutes are approved and can no longer be edited. Reopen them for review to make changes.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="text"
+            aria-label="Your name"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            className="modern-input px-3 py-1.5"
+            placeholder="Your name"
+          />
+          <input
+            type="text"
+            aria-label="Change note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="modern-input px-3 py-1.5"
+            placeholder="What changed, e.g. corrected vote count on motion 2"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {!isLocked && (
+          <textarea
+            aria-label="Summary markdown"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="modern-input px-3 py-2 font-mono text-xs h-96"
+            spellCheck
+          />
+        )}
+        <div
+          className={`markdown-preview modern-card p-4 h-96 overflow-y-auto ${isLocked ? 'lg:col-span-2' : ''}`}
+          dangerouslySetInnerHTML={{ __html: preview }}
+        />
+      </div>
+
+      {!isLocked && (
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-all duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save Revision'}
+          </button>
+          {isDirty && (
+            <button
+              onClick={() => setText(recording.summaryUrl || '')}
+              className="px-4 py-1.5 text-sm modern-text-muted hover:text-white"
+            >
+              Discard Changes
+            </button>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium modern-text mb-2">Revisions</h4>
+        <p className="text-xs modern-text-muted mb-2">Select two revisions to compare them.</p>
+        <ul className="space-y-1">
+          {[...revisions].reverse().map(revision => (
+            <li key={revision.number} className="flex flex-wrap items-center gap-2 text-sm modern-text">
+              <input
+                type="checkbox"
+                aria-label={`Compare revision ${revision.number}`}
+                checked={compare.includes(revision.number)}
+                onChange={() => toggleCompare(revision.number)}
+                className="h-4 w-4"
+              />
+              <span className="font-medium">#{revision.number}</span>
+              <span>{SOURCE_LABELS[revision.source]} by {revision.author}</span>
+              <span className="modern-text-muted">{format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}</span>
+              {revision.note && <span className="modern-text-muted italic">- {revision.note}</span>}
+              {!isLocked && revision.summary !== recording.summaryUrl && (
+                <button
+                  onClick={() => handleRevert(revision.number)}
+                  disabled={isSaving}
+                  className="text-xs text-blue-300 hover:text-blue-200 ml-auto"
+                >
+                  Revert to this
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {diff && (
+        <div>
+          <h4 className="text-sm font-medium modern-text mb-2">
+            Changes from #{diff.before.number} to #{diff.after.number}
+          </h4>
+          <pre className="modern-card p-3 text-xs overflow-x-auto max-h-96 overflow-y-auto whitespace-pre-wrap">
+            {diff.lines.map((line, index) => (
+              <div
+                key={index}
+                className={line.type === 'added' ? 'bg-green-500/20 text-green-200' : line.type === 'removed' ? 'bg-red-500/20 text-red-200 line-through' : 'modern-text-muted'}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeftIcon, ChevronUpIcon, ChevronDownIcon, PencilSquareIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import HighlightedText from './HighlightedText';
+import { MeetingAnalysis, Recording, TranscriptSegment, TranscriptVersion } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { OpenAIClient, PROCESSING_STAGE_MESSAGES } from '@/lib/openai-client';
+import { renderMarkdown } from '@/lib/markdown';
+import { formatTimestamp } from '@/lib/transcript';
+import { getSpeakerName } from '@/lib/speaker-names';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+
+interface TranscriptViewerProps {
+  meetingId: string;
+  initialQuery?: string; // Search to start with, e.g. when opened from a search result
+  initialTime?: number; // Seconds to start at, e.g. when opened from a cited passage
+  onBack: () => void;
+}
+
+/**
+ * Full-page transcript for checking quotes against the recording: search with
+ * highlighting, click a line to play from there, and the transcript follows playback.
+ * Corrections are saved as new transcript versions and can be re-analyzed; every
+ * analysis stays listed with the version it used.
+ */
+export default function TranscriptViewer({ meetingId, initialQuery = '', initialTime, onBack }: TranscriptViewerProps) {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [matchCursor, setMatchCursor] = useState(0);
+  const [followPlayback, setFollowPlayback] = useState(true);
+  const [versions, setVersions] = useState<TranscriptVersion[]>([]);
+  const [analyses, setAnalyses] = useState<MeetingAnalysis[]>([]);
+  const [expandedAnalysis, setExpandedAnalysis] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftSegments, setDraftSegments] = useState<string[]>([]);
+  const [draftText, setDraftText] = useState('');
+  const [author, setAuthor] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lineRefs = useRef<(HTMLElement | null)[]>([]);
+
+  const loadHistory = (id: string) => {
+    const client = MeetingsClient.getInstance();
+    Promise.all([client.listTranscriptVersions(id), client.listAnalyses(id)])
+      .then(([loadedVersions, loadedAnalyses]) => {
+        setVersions(loadedVersions);
+        setAnalyses(loadedAnalyses);
+      })
+      .catch(error => console.error('Error loading transcript history:', error));
+  };
+
+  useEffect(() => {
+    MeetingsClient.getInstance().getMeeting(meetingId)
+      .then(setRecording)
+      .catch(error => {
+        console.error('Error loading transcript:', error);
+        toast.error('Failed to load transcript');
+      });
+    loadHistory(meetingId);
+  }, [meetingId]);
+
+  // Transcripts without timing (e.g. uploaded text) are shown line by line
+  const segments: TranscriptSegment[] = useMemo(() => {
+    if (!recording) {
+      return [];
+    }
+    if (recording.transcriptSegments && recording.transcriptSegments.length > 0) {
+      return recording.transcriptSegments;
+    }
+    return (recording.transcriptUrl || '')
+      .split('\n')
+      .map(text => text.trim())
+      .filter(Boolean)
+      .map(text => ({ start: -1, end: -1, text }));
+  }, [recording]);
+
+  const isTimed = segments.length > 0 && segments[0].start >= 0;
+  const canSeek = isTimed && Boolean(recording?.audioUrl);
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle
+      ? segments.map((segment, index) => (segment.text.toLowerCase().includes(needle) ? index : -1)).filter(index => index !== -1)
+      : [];
+  }, [segments, query]);
+
+  useEffect(() => {
+    setMatchCursor(0);
+    if (matches.length > 0) {
+      lineRefs.current[matches[0]]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [matches]);
+
+  // Start at the requested moment once the transcript has loaded
+  const hasStartedAt = useRef(false);
+  useEffect(() => {
+    if (hasStartedAt.current || initialTime === undefined || segments.length === 0 || segments[0].start < 0) {
+      return;
+    }
+    hasStartedAt.current = true;
+    const index = segments.findIndex(segment => initialTime < segment.end);
+    const target = index === -1 ? segments.length - 1 : index;
+    setActiveIndex(target);
+    lineRefs.current[target]?.scrollIntoView({ block: 'center' });
+    if (audioRef.current) {
+      audioRef.current.currentTime = segments[target].start;
+    }
+  }, [segments, initialTime]);
+
+  useEffect(() => {
+    if (followPlayback && activeIndex >= 0) {
+      lineRefs.current[activeIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeIndex, followPlayback]);
+
+  const handleTimeUpdate = () => {
+    const time = audioRef.current?.currentTime ?? 0;
+    const index = segments.findIndex(segment => time >= segment.start && time < segment.end);
+    if (index !== -1 && index !== activeIndex) {
+      setActiveIndex(index);
+    }
+  };
+
+  const handleSeek = (index: number) => {
+    if (!audioRef.current || !canSeek) {
+      return;
+    }
+    setActiveIndex(index);
+    audioRef.current.currentTime = segments[index].start;
+    audioRef.current.play().catch(error => console.error('Playback error:', error));
+  };
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) {
+      return;
+    }
+    const next = (matchCursor + step + matches.length) % matches.length;
+    setMatchCursor(next);
+    lineRefs.current[matches[next]]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
+
+  // Timed transcripts are corrected line by line so timing and speakers are kept
+  const hasStoredSegments = Boolean(recording?.transcriptSegments && recording.transcriptSegments.length > 0);
+
+  const startEditing = () => {
+    setDraftSegments(segments.map(segment => segment.text));
+    setDraftText(recording?.transcriptUrl || '');
+    setIsEditing(true);
+  };
+
+  const handleSaveCorrection = async () => {
+    if (!recording) {
+      return;
+    }
+    if (!author.trim()) {
+      toast.error('Enter your name so the correction is attributed');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await MeetingsClient.getInstance().saveTranscriptCorrection(recording.id, {
+        author,
+        note: note || undefined,
+        ...(hasStoredSegments ? { segments: draftSegments } : { transcript: draftText })
+      });
+      setRecording(saved.recording);
+      setVersions(prev => [...prev.filter(version => version.number !== saved.version.number), saved.version]);
+      setIsEditing(false);
+      setNote('');
+      toast.success(`Saved as transcript version ${saved.version.number}`);
+    } catch (error) {
+      console.error('Error saving transcript correction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save correction');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReanalyze = async () => {
+    if (!recording) {
+      return;
+    }
+
+    setIsAnalyzing(true);
+    const analysisToast = toast.loading('Queued for processing...');
+    try {
+      const openAIClient = OpenAIClient.getInstance();
+      const jobId = await openAIClient.startProcessing(recording.id);
+      const job = await openAIClient.waitForJob(jobId, state => {
+        toast.loading(PROCESSING_STAGE_MESSAGES[state], { id: analysisToast });
+      });
+
+      setRecording(await MeetingsClient.getInstance().getMeeting(recording.id));
+      loadHistory(recording.id);
+      if (job.state === 'failed') {
+        toast.error(`Re-analysis failed: ${job.error}`, { id: analysisToast });
+      } else {
+        toast.success(`Transcript version ${recording.transcriptVersion || 1} re-analyzed`, { id: analysisToast });
+      }
+    } catch (error) {
+      console.error('Error re-analyzing transcript:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to re-analyze transcript', { id: analysisToast });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  if (!recording) {
+    return <div className="text-center modern-text opacity-80 py-12">Loading transcript...</div>;
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="nav-button-circle w-10 h-10 flex items-center justify-center" title="Back to Meetings">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        <div className="flex-1">
+          <h2 className="text-2xl font-light modern-text">{recording.title}</h2>
+          <p className="text-sm modern-text-muted">
+            {format(new Date(recording.date), 'MMM d, yyyy • h:mm a')}
+            {recording.transcriptUrl && ` • Transcript version ${recording.transcriptVersion || 1}`}
+          </p>
+        </div>
+        {recording.transcriptUrl && !isEditing && (
+          <div className="flex gap-2">
+            <button
+              onClick={startEditing}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm modern-text rounded-lg hover:bg-accent hover:text-accent-foreground transition-all duration-200"
+            >
+              <PencilSquareIcon className="h-4 w-4" />
+              Correct Transcript
+            </button>
+            <button
+              onClick={handleReanalyze}
+              disabled={isAnalyzing || recording.status === 'processing'}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-all duration-200"
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${isAnalyzing ? 'animate-spin' : ''}`} />
+              {isAnalyzing ? 'Analyzing...' : 'Re-analyze'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="modern-card p-4 sm:p-6 sticky top-0 z-10 mb-4 space-y-3">
+        {recording.audioUrl && (
+          <audio
+            ref={audioRef}
+            src={recording.audioUrl}
+            controls
+            preload="metadata"
+            onTimeUpdate={handleTimeUpdate}
+            className="w-full"
+          />
+        )}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="search"
+            aria-label="Search transcript"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && stepMatch(e.shiftKey ? -1 : 1)}
+            className="modern-input px-3 py-2 flex-1"
+            placeholder="Search transcript"
+          />
+          {query.trim() && (
+            <div className="flex items-center gap-2 text-sm modern-text-muted">
+              <span>{matches.length === 0 ? 'No matches' : `${matchCursor + 1} of ${matches.length}`}</span>
+              <button onClick={() => stepMatch(-1)} disabled={matches.length === 0} title="Previous match">
+                <ChevronUpIcon className="h-5 w-5" />
+              </button>
+              <button onClick={() => stepMatch(1)} disabled={matches.length === 0} title="Next match">
+                <ChevronDownIcon className="h-5 w-5" />
+              </button>
+            </div>
+          )}
+          {canSeek && (
+            <label className="flex items-center gap-2 text-sm modern-text">
+              <input
+                type="checkbox"
+                checked={followPlayback}
+                onChange={(e) => setFollowPlayback(e.target.checked)}
+                className="h-4 w-4"
+              />
+              Follow playback
+            </label>
+          )}
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="modern-card p-4 sm:p-6 mb-4 space-y-3">
+          <p className="text-sm modern-text-muted">
+            Corrections are saved as a new version; earlier versions and their analyses are kept. Re-analyze afterwards to update the summary.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              aria-label="Your name"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              className="modern-input px-3 py-1.5"
+              placeholder="Your name"
+            />
+            <input
+              type="text"
+              aria-label="Correction note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="modern-input px-3 py-1.5"
+              placeholder="What changed, e.g. fixed misheard member names"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveCorrection}
+              disabled={isSaving}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-all duration-200"
+            >
+              {isSaving ? 'Saving...' : 'Save as New Version'}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-1.5 text-sm modern-text-muted hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="modern-card p-2 sm:p-4 space-y-2">
+          {hasStoredSegments ? segments.map((segment, index) => {
+            const speakerName = getSpeakerName(segment.speaker, recording.speakers);
+            return (
+              <div key={index} className="flex items-start gap-3 px-3 text-sm">
+                <span className="font-mono text-xs modern-text-muted pt-2 shrink-0">
+                  {formatTimestamp(segment.start)}
+                </span>
+                <div className="flex-1">
+                  {speakerName && <span className="text-xs font-medium modern-text">{speakerName}</span>}
+                  <textarea
+                    aria-label={`Segment at ${formatTimestamp(segment.start)}`}
+                    value={draftSegments[index] ?? ''}
+                    onChange={(e) => setDraftSegments(prev => prev.map((text, i) => (i === index ? e.target.value : text)))}
+                    rows={2}
+                    className="modern-input w-full px-2 py-1"
+                    spellCheck
+                  />
+                </div>
+              </div>
+            );
+          }) : (
+            <textarea
+              aria-label="Transcript text"
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              className="modern-input w-full px-3 py-2 text-sm h-[32rem]"
+              spellCheck
+            />
+          )}
+        </div>
+      ) : (
+        <div className="modern-card p-2 sm:p-4 space-y-1">
+          {segments.length === 0 && (
+            <p className="text-center modern-text-muted py-8">No transcript available for this meeting.</p>
+          )}
+          {segments.map((segment, index) => {
+            const speakerName = getSpeakerName(segment.speaker, recording.speakers);
+            const isActive = index === activeIndex;
+            const isCurrentMatch = matches[matchCursor] === index && query.trim();
+            return (
+              <button
+                key={index}
+                ref={element => { lineRefs.current[index] = element; }}
+                onClick={() => handleSeek(index)}
+                disabled={!canSeek}
+                className={`flex w-full items-start gap-3 px-3 py-2 text-left text-sm rounded-lg modern-text transition-all duration-200 disabled:cursor-text ${
+                  isActive ? 'bg-blue-500/30' : isCurrentMatch ? 'bg-yellow-500/20' : 'hover:bg-accent hover:text-accent-foreground'
+                }`}
+              >
+                {isTimed && (
+                  <span className="font-mono text-xs modern-text-muted pt-0.5 shrink-0">
+                    {formatTimestamp(segment.start)}
+                  </span>
+                )}
+                <span>
+                  {speakerName && <span className="font-medium">{speakerName}: </span>}
+                  <HighlightedText text={segment.text} terms={[query]} />
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="modern-card p-4 sm:p-6 mt-4">
+          <h3 className="text-lg font-medium modern-text mb-3">Transcript Versions</h3>
+          <ul className="space-y-1">
+            {[...versions].reverse().map(version => (
+              <li key={version.number} className="flex flex-wrap items-center gap-2 text-sm modern-text">
+                <span className="font-medium">#{version.number}</span>
+                <span>{version.source === 'transcribed' ? 'Transcribed' : 'Corrected'} by {version.author}</span>
+                <span className="modern-text-muted">{format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                {version.note && <span className="modern-text-muted italic">- {version.note}</span>}
+                {version.number === (recording.transcriptVersion || 1) && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-200">Current</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {analyses.length > 0 && (
+        <div className="modern-card p-4 sm:p-6 mt-4">
+          <h3 className="text-lg font-medium modern-text mb-3">Analyses</h3>
+          <ul className="space-y-2">
+            {[...analyses].reverse().map(analysis => (
+              <li key={analysis.id} className="text-sm modern-text">
+                <button
+                  onClick={() => setExpandedAnalysis(expandedAnalysis === analysis.id ? null : analysis.id)}
+                  className="flex flex-wrap items-center gap-2 text-left hover:text-white"
+                >
+                  <span className="font-medium">Transcript version {analysis.transcriptVersion}</span>
+                  <span className="modern-text-muted">{format(new Date(analysis.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                  {analysis.analysisMode === 'heuristic' && <span className="modern-text-muted">(offline analysis)</span>}
+                  <span className="modern-text-muted">
+                    {analysis.keyDecisions.length} decisions • {analysis.actionItems.length} action items
+                  </span>
+                </button>
+                {expandedAnalysis === analysis.id && (
+                  <div
+                    className="markdown-preview modern-card p-4 mt-2 max-h-96 overflow-y-auto"
+                    dangerouslySetInnerHTML={{ __html: renderMarkdown(analysis.summary) }}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
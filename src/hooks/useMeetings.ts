@@ -0,0 +1,43 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { Recording } from '@/types';
+import { MeetingsClient } from '@/lib/meetings-client';
+import { toast } from 'react-hot-toast';
+
+// How often to refresh while a meeting is still being processed in the background
+const PROCESSING_POLL_INTERVAL = 5000;
+
+export const useMeetings = () => {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setRecordings(await MeetingsClient.getInstance().listMeetings());
+    } catch (error) {
+      console.error('Error loading recordings:', error);
+      toast.error('Failed to load recordings');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const hasProcessing = recordings.some(r => r.status === 'processing');
+
+  useEffect(() => {
+    if (!hasProcessing) {
+      return;
+    }
+
+    const interval = setInterval(reload, PROCESSING_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasProcessing, reload]);
+
+  return {
+    recordings,
+    setRecordings,
+    reload
+  };
+};
@@ -0,0 +1,251 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ActionItem, ActionItemInput, ActionItemStatus, Recording } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { SpeakerMapStore } from './speaker-map-store';
+import { isOpenActionItem, isOverdue, parseActionItem } from './action-items';
+
+export interface ActionItemFilter {
+  status?: ActionItemStatus | 'active'; // 'active' is open or in progress
+  assignee?: string;
+  meetingId?: string;
+  bodyId?: string;
+  overdue?: boolean;
+}
+
+// Which earlier meetings' items come back on a meeting's agenda: the same body,
+// or the same meeting type for meetings not tied to a body
+export interface AgendaScope {
+  bodyId?: string;
+  type: Recording['type'];
+  date: Date;
+  excludeMeetingId?: string;
+}
+
+/**
+ * JSON-on-disk tracker of action items: who is doing what by when, and where in
+ * which meeting it was assigned. Items are extracted from each analysis and can
+ * be edited, completed or added by hand; open ones carry over to the body's next
+ * meeting. Server-side only - used by the /api/action-items routes and JobQueue.
+ */
+export class ActionItemStore {
+  static readonly STATUSES: ActionItemStatus[] = ['open', 'in_progress', 'done', 'cancelled'];
+
+  private static readonly ITEMS_FILE = path.join(DATA_DIR, 'action-items.json');
+
+  /**
+   * Matching items, earliest due first; items without a due date come last
+   */
+  static list(filter: ActionItemFilter = {}): ActionItem[] {
+    const assignee = filter.assignee?.trim().toLowerCase();
+    const today = new Date();
+
+    return this.readAll()
+      .filter(item =>
+        (!filter.status || (filter.status === 'active' ? isOpenActionItem(item) : item.status === filter.status)) &&
+        (!assignee || (item.assignee || '').toLowerCase().includes(assignee)) &&
+        (!filter.meetingId || item.meetingId === filter.meetingId) &&
+        (!filter.bodyId || item.bodyId === filter.bodyId) &&
+        (!filter.overdue || isOverdue(item, today))
+      )
+      .sort((a, b) =>
+        (a.dueDate || '9999').localeCompare(b.dueDate || '9999') ||
+        b.meetingDate.localeCompare(a.meetingDate) ||
+        a.createdAt.localeCompare(b.createdAt)
+      );
+  }
+
+  static get(id: string): ActionItem | null {
+    return this.readAll().find(item => item.id === id) || null;
+  }
+
+  /**
+   * Add an item by hand to the meeting it was assigned at
+   */
+  static create(recording: Recording, input: Pick<ActionItemInput, 'description'> & Partial<ActionItemInput> & { timestamp?: number }): ActionItem {
+    const items = this.readAll();
+    const now = new Date().toISOString();
+    const item: ActionItem = {
+      ...this.fromMeeting(recording),
+      id: randomUUID(),
+      description: input.description.trim(),
+      assignee: input.assignee?.trim() || undefined,
+      dueDate: input.dueDate || undefined,
+      status: input.status || 'open',
+      timestamp: input.timestamp,
+      source: 'manual',
+      carriedOverTo: [],
+      createdAt: now,
+      updatedAt: now,
+      completedAt: input.status === 'done' ? now : undefined
+    };
+
+    items.push(item);
+    this.writeAll(items);
+    return item;
+  }
+
+  static update(id: string, patch: Partial<ActionItemInput>): ActionItem | null {
+    const items = this.readAll();
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const current = items[index];
+    const now = new Date().toISOString();
+    const status = patch.status || current.status;
+    const updated: ActionItem = {
+      ...current,
+      description: patch.description !== undefined ? patch.description.trim() : current.description,
+      assignee: patch.assignee !== undefined ? patch.assignee.trim() || undefined : current.assignee,
+      dueDate: patch.dueDate !== undefined ? patch.dueDate || undefined : current.dueDate,
+      status,
+      updatedAt: now,
+      // Reopening an item clears when it was completed
+      completedAt: status === 'done' ? current.completedAt || now : undefined
+    };
+
+    items[index] = updated;
+    this.writeAll(items);
+    return updated;
+  }
+
+  static remove(id: string): boolean {
+    const items = this.readAll();
+    const remaining = items.filter(item => item.id !== id);
+    if (remaining.length === items.length) {
+      return false;
+    }
+    this.writeAll(remaining);
+    return true;
+  }
+
+  /**
+   * Keep items' meeting title, date and body in step with the meeting
+   */
+  static updateMeetingDetails(recording: Recording): void {
+    const items = this.readAll();
+    if (items.some(item => item.meetingId === recording.id)) {
+      this.writeAll(items.map(item => item.meetingId === recording.id ? { ...item, ...this.fromMeeting(recording) } : item));
+    }
+  }
+
+  /**
+   * Drop a deleted meeting's items, and forget that it listed others as carried over
+   */
+  static removeForMeeting(meetingId: string): void {
+    const items = this.readAll();
+    const remaining = items
+      .filter(item => item.meetingId !== meetingId)
+      .map(item => ({ ...item, carriedOverTo: item.carriedOverTo.filter(id => id !== meetingId) }));
+    this.writeAll(remaining);
+  }
+
+  /**
+   * Replace a meeting's extracted items with those from its latest analysis.
+   * Items added by hand, and extracted ones someone has since edited, are kept.
+   */
+  static syncFromMeeting(recording: Recording, actionItems: string[]): ActionItem[] {
+    const items = this.readAll();
+    const kept = items.filter(item =>
+      item.meetingId !== recording.id || item.source === 'manual' || item.updatedAt !== item.createdAt
+    );
+    const known = new Set(kept.filter(item => item.meetingId === recording.id).map(item => item.description.toLowerCase()));
+
+    const aliases = SpeakerMapStore.getAliases(recording.bodyId || recording.type);
+    const now = new Date().toISOString();
+    const extracted: ActionItem[] = actionItems
+      .map(text => parseActionItem(text, recording.date, recording.transcriptSegments, aliases))
+      .filter(parsed => parsed.description && !known.has(parsed.description.toLowerCase()))
+      .map(parsed => ({
+        ...this.fromMeeting(recording),
+        ...parsed,
+        id: randomUUID(),
+        status: 'open',
+        source: 'extracted',
+        carriedOverTo: [],
+        createdAt: now,
+        updatedAt: now
+      }));
+
+    this.writeAll([...kept, ...extracted]);
+    return [...kept.filter(item => item.meetingId === recording.id), ...extracted];
+  }
+
+  /**
+   * Open items from the scope's earlier meetings - what the next meeting's
+   * agenda should bring back
+   */
+  static openBefore(scope: AgendaScope): ActionItem[] {
+    const before = scope.date.toISOString();
+    return this.list({ status: 'active' }).filter(item =>
+      item.meetingId !== scope.excludeMeetingId &&
+      item.meetingDate < before &&
+      (scope.bodyId ? item.bodyId === scope.bodyId : !item.bodyId && item.meetingType === scope.type)
+    );
+  }
+
+  /**
+   * Record that a meeting's agenda carried the open items from its body's earlier
+   * meetings, and return them for its minutes
+   */
+  static carryOver(recording: Recording): ActionItem[] {
+    const carried = this.openBefore({
+      bodyId: recording.bodyId,
+      type: recording.type,
+      date: recording.date,
+      excludeMeetingId: recording.id
+    });
+    if (carried.length === 0) {
+      return [];
+    }
+
+    const ids = new Set(carried.map(item => item.id));
+    this.writeAll(this.readAll().map(item =>
+      ids.has(item.id) && !item.carriedOverTo.includes(recording.id)
+        ? { ...item, carriedOverTo: [...item.carriedOverTo, recording.id] }
+        : item
+    ));
+    return carried;
+  }
+
+  static validate(input: Partial<ActionItemInput>): string[] {
+    const errors: string[] = [];
+
+    if (input.description !== undefined && (typeof input.description !== 'string' || !input.description.trim())) {
+      errors.push('Description is required');
+    }
+    if (input.assignee !== undefined && typeof input.assignee !== 'string') {
+      errors.push('Assignee must be text');
+    }
+    if (input.dueDate !== undefined && input.dueDate !== '' &&
+        (typeof input.dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.dueDate) || isNaN(new Date(input.dueDate).getTime()))) {
+      errors.push('Due date must be a date (YYYY-MM-DD)');
+    }
+    if (input.status !== undefined && !this.STATUSES.includes(input.status)) {
+      errors.push(`Status must be one of ${this.STATUSES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  private static fromMeeting(recording: Recording): Pick<ActionItem, 'meetingId' | 'meetingTitle' | 'meetingDate' | 'bodyId' | 'meetingType'> {
+    return {
+      meetingId: recording.id,
+      meetingTitle: recording.title,
+      meetingDate: recording.date.toISOString(),
+      bodyId: recording.bodyId,
+      meetingType: recording.type
+    };
+  }
+
+  private static readAll(): ActionItem[] {
+    return readJsonFile<ActionItem[]>(this.ITEMS_FILE, []);
+  }
+
+  private static writeAll(items: ActionItem[]): void {
+    writeJsonFile(this.ITEMS_FILE, items);
+  }
+}
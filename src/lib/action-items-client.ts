@@ -0,0 +1,87 @@
+import { ActionItem, ActionItemInput, Recording } from '@/types';
+
+export interface ActionItemQuery {
+  status?: ActionItem['status'] | 'active';
+  assignee?: string;
+  meetingId?: string;
+  bodyId?: string;
+  overdue?: boolean;
+}
+
+export interface ActionItemAgenda {
+  items: ActionItem[];
+  markdown: string;
+}
+
+export class ActionItemsClient {
+  private static instance: ActionItemsClient;
+  private baseUrl: string;
+
+  private constructor() {
+    this.baseUrl = '/api/action-items';
+  }
+
+  public static getInstance(): ActionItemsClient {
+    if (!ActionItemsClient.instance) {
+      ActionItemsClient.instance = new ActionItemsClient();
+    }
+    return ActionItemsClient.instance;
+  }
+
+  public async listActionItems(query: ActionItemQuery = {}): Promise<ActionItem[]> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, String(value));
+      }
+    });
+    const response = await fetch(`${this.baseUrl}?${params}`, { cache: 'no-store' });
+    return this.parseResponse<ActionItem[]>(response);
+  }
+
+  public async createActionItem(meetingId: string, input: Pick<ActionItemInput, 'description'> & Partial<ActionItemInput>): Promise<ActionItem> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...input, meetingId })
+    });
+    return this.parseResponse<ActionItem>(response);
+  }
+
+  public async updateActionItem(id: string, patch: Partial<ActionItemInput>): Promise<ActionItem> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+    return this.parseResponse<ActionItem>(response);
+  }
+
+  public async deleteActionItem(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await this.parseResponse<{ success: boolean }>(response);
+  }
+
+  /**
+   * Open items from earlier meetings, as an agenda section for the next meeting
+   */
+  public async getAgenda(scope: { bodyId?: string; type?: Recording['type'] }): Promise<ActionItemAgenda> {
+    const params = new URLSearchParams();
+    if (scope.bodyId) {
+      params.set('bodyId', scope.bodyId);
+    }
+    if (scope.type) {
+      params.set('type', scope.type);
+    }
+    const response = await fetch(`${this.baseUrl}/agenda?${params}`, { cache: 'no-store' });
+    return this.parseResponse<ActionItemAgenda>(response);
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
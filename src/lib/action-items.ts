@@ -0,0 +1,204 @@
+import { ActionItem, TranscriptSegment } from '@/types';
+import { resolveSpeakerName, SpeakerAliases } from './speaker-names';
+import { formatTimestamp } from './transcript';
+
+// What can be read out of one action item line from an analysis
+export interface ParsedActionItem {
+  description: string;
+  assignee?: string;
+  dueDate?: string; // YYYY-MM-DD
+  timestamp?: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const DATE = `(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}(?:/\\d{2,4})?|${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?)`;
+
+// "(at 00:42:10)" as the pipeline cites times, or a "[00:42:10]" transcript marker
+const TIMESTAMP_PATTERN = /\s*[([]\s*(?:at\s+)?(\d{1,2}):(\d{2}):(\d{2})\s*[)\]]/i;
+const DUE_PATTERN = new RegExp(`[,;]?\\s*\\(?\\b(?:due(?:\\s+(?:by|on))?|by|before|no later than|deadline)\\s*:?\\s*${DATE}\\)?`, 'i');
+const WITHIN_PATTERN = /[,;]?\s*\b(?:within|in)\s+(\d{1,3})\s+(days?|weeks?)\b/i;
+
+const NAME = "[A-Z][\\w.'-]*(?:\\s+[A-Z][\\w.'-]*){0,3}";
+// "Responsible: Name - task", or "Name: task" as the pipeline is asked to write them
+const LABEL = '(?:[Rr]esponsible(?:\\s+[Pp]arty)?|[Aa]ssigned [Tt]o|[Aa]ssignee|[Oo]wner)';
+const LABELLED_PATTERN = new RegExp(`^(?:${LABEL}\\s*:?\\s*)?(${NAME})\\s*(?::|\\s[-–—]\\s)\\s*(.+)$`);
+const INLINE_PATTERN = new RegExp(`[,;]?\\s*\\(?\\b${LABEL}\\s*:?\\s*(${NAME})\\)?`);
+// "Staff to prepare...", "Director Pangelinan will report back..."
+const SUBJECT_PATTERN = new RegExp(`^(${NAME})\\s+(?:will|shall|to|is to|agreed to|(?:is|was) (?:directed|asked) to)\\s`);
+const DIRECTED_PATTERN = new RegExp(`\\b(?:directed|asked|instructed)\\s+(?:the\\s+)?(${NAME})\\s+to\\s`);
+
+// Capitalized words that start an item but aren't anyone's name
+const NOT_NAMES = new Set([
+  'action', 'action item', 'item', 'task', 'follow up', 'follow-up', 'note', 'next steps', 'motion',
+  'we', 'i', 'they', 'he', 'she', 'it', 'this', 'that', 'the', 'all', 'everyone', 'someone', 'there'
+]);
+
+/**
+ * Read the assignee, due date and transcript time out of an action item line,
+ * e.g. "Director Pangelinan: circulate the revised travel policy, due 2025-03-05 (at 00:42:10)".
+ * Names resolve to the body's members where they can; dates without a year
+ * are taken as the first such date on or after the meeting. Without a cited
+ * time, the transcript segment that says the same thing supplies one.
+ */
+export function parseActionItem(
+  text: string,
+  meetingDate: Date,
+  segments: TranscriptSegment[] = [],
+  aliases: SpeakerAliases = {}
+): ParsedActionItem {
+  let description = text
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+    .replace(/^(?:action items?|task|follow[- ]up)\s*:\s*/i, '')
+    .trim();
+
+  let timestamp: number | undefined;
+  const time = description.match(TIMESTAMP_PATTERN);
+  if (time) {
+    timestamp = Number(time[1]) * 3600 + Number(time[2]) * 60 + Number(time[3]);
+    description = description.replace(time[0], '');
+  }
+
+  let dueDate: string | undefined;
+  const due = description.match(DUE_PATTERN);
+  const within = description.match(WITHIN_PATTERN);
+  if (due) {
+    dueDate = parseDueDate(due[1], meetingDate);
+    if (dueDate) {
+      description = description.replace(due[0], '');
+    }
+  } else if (within) {
+    const days = Number(within[1]) * (within[2].toLowerCase().startsWith('week') ? 7 : 1);
+    dueDate = toDay(new Date(meetingDate.getFullYear(), meetingDate.getMonth(), meetingDate.getDate() + days));
+  }
+
+  let assignee: string | undefined;
+  const labelled = description.match(LABELLED_PATTERN);
+  const inline = description.match(INLINE_PATTERN);
+  if (labelled && isName(labelled[1])) {
+    assignee = labelled[1];
+    description = labelled[2];
+  } else if (inline && isName(inline[1])) {
+    assignee = inline[1];
+    description = description.replace(inline[0], '');
+  } else {
+    // The name stays in the sentence, it reads naturally there
+    const subject = description.match(SUBJECT_PATTERN) || description.match(DIRECTED_PATTERN);
+    if (subject && isName(subject[1])) {
+      assignee = subject[1];
+    }
+  }
+  if (assignee) {
+    assignee = resolveSpeakerName(assignee, aliases) || assignee.trim();
+  }
+
+  description = description.replace(/\s+/g, ' ').replace(/^[\s,;:-]+|[\s,;:-]+$/g, '');
+  description = description.charAt(0).toUpperCase() + description.slice(1);
+
+  return {
+    description,
+    assignee,
+    dueDate,
+    timestamp: timestamp ?? findSegmentStart(description, segments)
+  };
+}
+
+export function isOpenActionItem(item: ActionItem): boolean {
+  return item.status === 'open' || item.status === 'in_progress';
+}
+
+/**
+ * Still open after its due date. Due dates are calendar days, so an item due
+ * today isn't overdue until tomorrow.
+ */
+export function isOverdue(item: ActionItem, today = new Date()): boolean {
+  return isOpenActionItem(item) && !!item.dueDate && item.dueDate < toDay(today);
+}
+
+/**
+ * Agenda section listing open items from earlier meetings, oldest meeting first
+ */
+export function formatCarriedOverItems(items: ActionItem[], today = new Date()): string {
+  const lines = [...items]
+    .sort((a, b) => a.meetingDate.localeCompare(b.meetingDate) || (a.dueDate || '9999').localeCompare(b.dueDate || '9999'))
+    .map(item => {
+      const details = [
+        item.dueDate && `due ${item.dueDate}${isOverdue(item, today) ? ' - **overdue**' : ''}`,
+        item.status === 'in_progress' && 'in progress',
+        `from ${item.meetingTitle}, ${item.meetingDate.split('T')[0]}${item.timestamp !== undefined ? ` at ${formatTimestamp(item.timestamp)}` : ''}`
+      ].filter(Boolean);
+      return `- ${item.assignee ? `**${item.assignee}**: ` : ''}${item.description} (${details.join('; ')})`;
+    });
+
+  return [
+    '## Carried-Over Action Items',
+    '',
+    lines.length > 0 ? 'These action items from earlier meetings are still open:' : 'No action items from earlier meetings are open.',
+    '',
+    ...lines
+  ].join('\n').trim();
+}
+
+function isName(candidate: string): boolean {
+  const name = candidate.trim().toLowerCase();
+  return name.length > 1 && !NOT_NAMES.has(name) && !NOT_NAMES.has(name.split(/\s+/)[0]);
+}
+
+function parseDueDate(text: string, meetingDate: Date): string | undefined {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return validDay(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+  if (numeric) {
+    const year = numeric[3] ? Number(numeric[3]) + (numeric[3].length === 2 ? 2000 : 0) : undefined;
+    return withYear(Number(numeric[1]), Number(numeric[2]), year, meetingDate);
+  }
+
+  const named = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase()) + 1;
+    return withYear(month, Number(named[2]), named[3] ? Number(named[3]) : undefined, meetingDate);
+  }
+
+  return undefined;
+}
+
+// A date stated without a year is the next one after the meeting
+function withYear(month: number, day: number, year: number | undefined, meetingDate: Date): string | undefined {
+  if (year !== undefined) {
+    return validDay(year, month, day);
+  }
+  const sameYear = validDay(meetingDate.getFullYear(), month, day);
+  return sameYear && sameYear < toDay(meetingDate) ? validDay(meetingDate.getFullYear() + 1, month, day) : sameYear;
+}
+
+function validDay(year: number, month: number, day: number): string | undefined {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? toDay(date) : undefined;
+}
+
+// Local calendar day as YYYY-MM-DD
+function toDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// The segment sharing most of the item's words, when enough of them match
+function findSegmentStart(description: string, segments: TranscriptSegment[]): number | undefined {
+  const words = Array.from(new Set(description.toLowerCase().match(/[a-z]{4,}/g) || []));
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  let best: { start: number; shared: number } | undefined;
+  segments.forEach(segment => {
+    const text = segment.text.toLowerCase();
+    const shared = words.filter(word => text.includes(word)).length;
+    if (!best || shared > best.shared) {
+      best = { start: segment.start, shared };
+    }
+  });
+
+  return best && best.shared >= Math.max(2, Math.ceil(words.length / 2)) ? best.start : undefined;
+}
@@ -0,0 +1,896 @@
+import type { TranscriptionSegment as WhisperSegment } from 'openai/resources/audio/transcriptions';
+import path from 'path';
+import { createHash } from 'crypto';
+import { AIProcessingResult, LegalCaseResult, BoardMeetingResult, TranscriptSegment, TranscriptionResult, MeetingSpeaker, LLMProviderId, GoverningBody, BodyMember } from '@/types';
+import { AudioChunker } from './audio-chunker';
+import { buildTimestampedTranscript } from './transcript';
+import { SpeakerLabeler } from './speaker-labeler';
+import { SpeakerMapStore } from './speaker-map-store';
+import { applySpeakerNames, getMemberAliases } from './speaker-names';
+import { SettingsStore } from './settings-store';
+import { getProvider, ChatMessage, LLMProvider } from './llm-provider';
+import { OfflineAnalyzer } from './offline-analyzer';
+import { assessQuorum, flagQuorum, reconcileAttendance, votingAttendance } from './quorum';
+import { BodyStore, MeetingRules } from './body-store';
+import { verifyVotes } from './vote-verifier';
+import { applyRollCall, formatRollCallTables } from './roll-call';
+import { validateResult, countInvalid, formatIssues, ValidationIssue, ValidationOutcome } from './result-schema';
+
+// Cache for storing AI responses (simple in-memory cache)
+const responseCache = new Map<string, { result: any; timestamp: number }>();
+
+// Whisper rejects files over 25MB - larger audio is split into chunks
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+// Audio to transcribe, read from disk
+export interface AudioSource {
+  name: string;
+  size: number;
+  filePath: string;
+}
+
+export interface PipelineInput {
+  meetingTitle: string;
+  meetingType: string;
+  transcript?: string;
+  segments?: TranscriptSegment[]; // Timing for `transcript`, e.g. a corrected earlier transcription
+  speakers?: MeetingSpeaker[]; // Speakers already identified in `segments`; skips labelling
+  audio?: AudioSource;
+  provider?: LLMProviderId; // Defaults to the provider chosen in settings
+  bodyId?: string; // Governing body whose roster and rules apply, see BodyStore
+  meetingDate?: Date; // Picks the members whose terms cover the meeting
+}
+
+export type PipelineStage = 'transcribing' | 'analyzing';
+
+export type PipelineResult = AIProcessingResult | LegalCaseResult | BoardMeetingResult;
+
+/**
+ * Transcribe (when given audio) and analyze a meeting. Server-side only - shared by
+ * the /api/ai-process job runner. Reports each stage through onStage.
+ */
+export async function runPipeline(
+  input: PipelineInput,
+  onStage: (stage: PipelineStage) => void = () => {}
+): Promise<PipelineResult> {
+  const { meetingTitle, meetingType } = input;
+  // Read per run so changes on the Settings page apply to the next meeting
+  const settings = SettingsStore.get();
+  const cacheTtl = settings.cacheTtlHours * 60 * 60 * 1000;
+  let transcript = input.transcript || '';
+  let segments: TranscriptSegment[] = input.segments || [];
+
+  const provider = getProvider(input.provider, settings);
+
+  // The body's roster drives name correction and quorum; settings cover meetings without one
+  const body = input.bodyId ? BodyStore.get(input.bodyId) : null;
+  if (input.bodyId && !body) {
+    console.warn(`⚠️ Governing body ${input.bodyId} not found - processing without a roster`);
+  }
+  const rules = BodyStore.rulesFor(body, input.meetingDate || new Date(), settings.quorum);
+
+  if (input.audio) {
+    // Analysis can fall back to offline rules, but transcription needs a provider
+    if (!provider.isConfigured()) {
+      throw new Error(`The ${provider.id} provider is not configured: set its ${provider.missingSetting()}`);
+    }
+
+    onStage('transcribing');
+    console.log(`🎵 Transcribing audio file: ${input.audio.name} (${(input.audio.size / 1024 / 1024).toFixed(2)}MB)`);
+
+    // Transcribe audio using Whisper
+    const transcription = await transcribeWithWhisper(provider, input.audio);
+    transcript = transcription.text;
+    segments = transcription.segments;
+    console.log(`✅ Transcription completed: ${transcript.length} characters, ${segments.length} segments`);
+  }
+
+  if (!transcript) {
+    throw new Error('No transcript to analyze');
+  }
+
+  onStage('analyzing');
+
+  if (!provider.isConfigured()) {
+    console.log(`📐 ${provider.id} provider has no ${provider.missingSetting()} - using offline analysis`);
+    return OfflineAnalyzer.analyze(transcript, meetingTitle, segments, rules);
+  }
+
+  // Check cache first
+  // Hash the whole transcript so a corrected one is never answered from the cache
+  const cacheKey = `${provider.id}_${provider.model}_${meetingType}_${body?.id || ''}_${createHash('sha256').update(transcript).digest('hex')}`;
+  const cached = responseCache.get(cacheKey);
+  
+  if (settings.enableAiCache && cached && (Date.now() - cached.timestamp) < cacheTtl) {
+    console.log('🚀 Returning cached AI response');
+    return cached.result;
+  }
+
+  const hasTimestamps = segments.length > 0;
+
+  // Label speakers so minutes can attribute motions and votes. Names are
+  // resolved with this body's aliases, learned from earlier meetings.
+  let speakers: MeetingSpeaker[] = input.speakers || [];
+  if (hasTimestamps && speakers.length === 0) {
+    try {
+      const labeled = await SpeakerLabeler.labelSegments(provider, segments, SpeakerMapStore.getAliases(body?.id || meetingType));
+      segments = labeled.segments;
+      speakers = labeled.speakers;
+    } catch (error) {
+      console.warn('⚠️ Speaker labelling failed, continuing without speakers:', error);
+    }
+  }
+
+  // Preprocess transcript to optimize tokens. Timed transcripts keep their
+  // [HH:MM:SS] markers so the summary can cite when things were said.
+  const analysisTranscript = hasTimestamps ? buildTimestampedTranscript(applySpeakerNames(segments, speakers)) : transcript;
+  const optimizedTranscript = optimizeTranscript(analysisTranscript, hasTimestamps);
+  
+  console.log(`🤖 Processing ${meetingType} meeting with ${provider.id}/${provider.model}...`);
+  console.log(`📊 Original: ${transcript.length} chars, Optimized: ${optimizedTranscript.length} chars`);
+
+  // Generate system prompt based on meeting type
+  const systemPrompt = getSystemPrompt(meetingType)
+    + (body && rules.roster ? getRosterInstructions(body, rules.roster) : '')
+    + ACTION_ITEM_INSTRUCTIONS
+    + (hasTimestamps ? TIMESTAMP_INSTRUCTIONS : '');
+  const userPrompt = getUserPrompt(meetingTitle, optimizedTranscript, meetingType);
+
+  // Call the configured model. If it fails, fall back to offline analysis
+  // rather than losing the meeting.
+  let validation: ValidationOutcome<PipelineResult | null>;
+  try {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+    const aiResponse = await provider.chat({
+      messages,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      json: true
+    });
+    validation = checkResponse(aiResponse, transcript, meetingType, segments, speakers);
+
+    // One repair round: show the model what was wrong and ask for the whole object again
+    const invalidCount = countInvalid(validation.issues);
+    if (invalidCount > 0) {
+      console.warn(`⚠️ AI response failed validation (${invalidCount} problems), asking for a repair`);
+      try {
+        const repairedResponse = await provider.chat({
+          messages: [
+            ...messages,
+            { role: 'assistant', content: aiResponse },
+            { role: 'user', content: getRepairPrompt(validation.issues) }
+          ],
+          maxTokens: settings.maxTokens,
+          temperature: 0,
+          json: true
+        });
+        const repaired = checkResponse(repairedResponse, transcript, meetingType, segments, speakers);
+        if (countInvalid(repaired.issues) < invalidCount) {
+          validation = repaired;
+        }
+      } catch (error) {
+        console.warn('⚠️ Repair round failed, keeping the original response:', error);
+      }
+    }
+
+    if (!validation.value) {
+      throw new Error('Invalid JSON response from AI');
+    }
+  } catch (error) {
+    console.warn('⚠️ AI analysis failed, using offline analysis:', error);
+    return OfflineAnalyzer.analyze(transcript, meetingTitle, segments, rules);
+  }
+
+  const validated = meetingType === 'board'
+    ? verifyBoardMinutes(validation.value as BoardMeetingResult, rules)
+    : validation.value;
+  const result: PipelineResult = {
+    ...validated,
+    validationWarnings: formatIssues(validation.issues)
+  };
+  if (validation.issues.length > 0) {
+    console.warn(`⚠️ AI response needed ${validation.issues.length} corrections:`, result.validationWarnings);
+  }
+
+  // Cache the result
+  if (settings.enableAiCache) {
+    responseCache.set(cacheKey, { result, timestamp: Date.now() });
+  }
+
+  console.log('✅ AI processing completed successfully');
+
+  return result;
+}
+
+function optimizeTranscript(transcript: string, keepTimestamps: boolean = false): string {
+  const cleaned = transcript
+    // Remove excessive whitespace
+    .replace(/\s+/g, ' ')
+    // Remove filler words (but keep some for natural flow)
+    .replace(/\b(um|uh|ah|er)\b/gi, '')
+    // Remove very short interjections
+    .replace(/\b(yeah|yes|ok|okay|right|sure|well)\b(?=\s)/gi, '');
+
+  // Remove timestamp markers unless the summary needs to cite them
+  const untimed = keepTimestamps ? cleaned : cleaned.replace(/\[\d{2}:\d{2}:\d{2}\]/g, '');
+
+  return untimed
+    // Clean up extra punctuation
+    .replace(/[.]{2,}/g, '.')
+    .replace(/[,]{2,}/g, ',')
+    // Trim
+    .trim();
+}
+
+// Keeps "actionItems" entries parseable into tracked items, see parseActionItem
+const ACTION_ITEM_INSTRUCTIONS = `
+
+ACTION ITEMS: Write each "actionItems" entry as "Responsible person: task, due YYYY-MM-DD". Leave out the person or the due date when the meeting didn't state them; never invent either.`;
+
+const TIMESTAMP_INSTRUCTIONS = `
+
+TIMESTAMPS: The transcript contains [HH:MM:SS] markers showing when each passage was said. When documenting motions, votes, rulings, decisions and action items in the "summary", cite the time they occurred in the form "(at 00:42:10)". Cite the time at the end of each "actionItems" entry the same way. Only cite timestamps that appear in the transcript.`;
+
+// Roster for the meeting so names come out spelled correctly and roles are accurate
+function getRosterInstructions(body: GoverningBody, roster: BodyMember[]): string {
+  const members = roster.map(member =>
+    `- ${member.name}, ${member.title}${member.voting ? '' : ' (non-voting)'}${member.aliases.length ? ` - may be heard as ${member.aliases.join(', ')}` : ''}`
+  );
+
+  return `
+
+ROSTER: This is a meeting of the ${body.name}. Its members are:
+${members.join('\n')}
+Use these exact spellings and titles in the summary, attendance and motions. Anyone not on this list is a guest or staff member; record them by the name given in the transcript.`;
+}
+
+function getSystemPrompt(meetingType: string): string {
+  const basePrompt = `You are an AI assistant specialized in analyzing meeting transcripts and generating structured summaries. Always respond with valid JSON format.`;
+
+  switch (meetingType) {
+    case 'board':
+      return `${basePrompt}
+
+You are an expert Executive Assistant specializing in board meetings and parliamentary procedure following Robert's Rules of Order. Create comprehensive, professional board meeting minutes suitable for corporate boards, nonprofit organizations, and governmental bodies.
+
+CRITICAL: The "summary" field must contain detailed professional board meeting minutes in clean markdown format. Analyze EVERY aspect of the meeting following proper parliamentary procedure.
+
+IMPORTANT: ONLY include sections that were actually part of this meeting. If a topic wasn't discussed (like committee reports, old business, officer reports, etc.), DO NOT include that section at all. Focus solely on what actually occurred in this specific meeting.
+
+COMPREHENSIVE ROBERTS RULES ANALYSIS REQUIREMENTS:
+- Follow proper parliamentary procedure and meeting progression
+- Document all motions with complete parliamentary details (maker, seconder, discussion, vote counts)
+- When members vote by roll call ("Commissioner Torres - aye"), record each member's vote in "memberVotes"; leave it out for voice votes
+- Track attendance with precision including arrival/departure times if mentioned
+- Record quorum only as stated on the record (chair's declaration or roll call) - never assume it
+- Record all reports given by officers, committees, or other parties
+- Document approval process for previous meeting minutes
+- Capture complete discussion details for each agenda item
+- Use proper Robert's Rules terminology and format throughout
+
+ADAPTIVE ROBERTS RULES TEMPLATE (use only relevant sections):
+
+# BOARD MEETING MINUTES
+
+**Organization:** [Board/Organization Name]  
+**Date:** [Meeting Date] | **Time:** [Start Time - End Time] | **Location:** [Meeting Location]  
+**Meeting Type:** [Regular/Special/Annual/Emergency] | **Presiding Officer:** [Name, Title]
+
+## CALL TO ORDER
+The [meeting type] meeting of [organization name] was called to order at [exact time] by [presiding officer name], [title].
+
+## ROLL CALL (if roll call was conducted)
+**Present:** [List all present members with their titles/roles]  
+**Absent:** [List absent members, noting if excused or unexcused]  
+**Also Present:** [Guests, staff, legal counsel, etc.]  
+**Quorum Status:** [Present/Not present, only if declared by the chair or shown by the roll call - otherwise omit this line] ([X] of [Y] required members present)
+
+## APPROVAL OF MINUTES (if previous minutes were reviewed)
+**Minutes from:** [Date of previous meeting]  
+**Action:** [Approved as presented/Approved with corrections/Tabled]  
+**Corrections:** [List any amendments made to previous minutes]  
+**Motion:** Moved by [name], seconded by [name]. Motion [passed/failed].
+
+## OFFICER REPORTS (only include reports actually given)
+### [Officer Title] Report
+**Presented by:** [Name]  
+**Key Points:** [Summary of report content]  
+**Questions/Discussion:** [Any discussion that followed]  
+**Action Required:** [Any follow-up actions requested]
+
+[Repeat for each officer who gave a report]
+
+## COMMITTEE REPORTS (only include reports actually given)
+### [Committee Name] Report
+**Chair:** [Name]  
+**Report Summary:** [Key findings and recommendations]  
+**Discussion:** [Board discussion of report]  
+**Recommendations:** [Committee recommendations to board]  
+**Board Action:** [Any motions or actions taken based on report]
+
+[Repeat for each committee that reported]
+
+## OLD BUSINESS (only include if old business was addressed)
+### Item: [Description of unfinished business]
+**Background:** [Context from previous meeting]  
+**Current Status:** [Updates since last meeting]  
+**Discussion:** [Board discussion and debate]  
+**Resolution:** [How the matter was resolved]
+
+[Repeat for each old business item]
+
+## NEW BUSINESS (only include if new business was introduced)
+### Motion [Number] - [Brief Description]
+**Motion Text:** "[Complete verbatim text of the motion]"  
+**Moved by:** [Name] | **Seconded by:** [Name]  
+**Discussion:** [Detailed summary of all discussion, questions, amendments proposed]  
+**Vote:** Yes: [#], No: [#], Abstain: [#] - **MOTION [PASSED/FAILED]**  
+**Implementation:** [Who will carry out the motion and when]
+
+### Other New Business Items
+[Include non-motion items like informational presentations, announcements, etc.]
+
+[Repeat for each new business item]
+
+## EXECUTIVE SESSION (if held)
+**Time Entered:** [Time]  
+**Reason:** [Legal consultation/Personnel matter/Real estate, etc.]  
+**Present:** [Who remained for executive session]  
+**Time Returned to Open Session:** [Time]  
+**Action Taken:** [Any motions made in open session following executive session]
+
+## ACTION ITEMS ASSIGNED
+- **Action:** [Description] | **Responsible:** [Name/Committee] | **Deadline:** [Date]  
+- **Action:** [Description] | **Responsible:** [Name/Committee] | **Deadline:** [Date]
+
+## ANNOUNCEMENTS (if any were made)
+- [List any announcements made during the meeting]
+
+## NEXT MEETING
+**Date:** [Date] | **Time:** [Time] | **Location:** [Location]  
+**Special Items:** [Any special agenda items already known for next meeting]
+
+## ADJOURNMENT
+**Motion to Adjourn:** Moved by [name], seconded by [name]  
+**Time:** Meeting adjourned at [exact time]  
+**Next Meeting:** [Date and time of next scheduled meeting]
+
+---
+**Minutes prepared by:** [Secretary name]  
+**Minutes approval status:** [To be approved at next meeting/Approved on [date]]
+
+CRITICAL INSTRUCTION: Before including any section, ask yourself: "Did this actually happen in this meeting?" If the answer is NO, completely omit that section. The goal is professional, comprehensive minutes of what actually transpired, following proper Robert's Rules format and parliamentary procedure.
+
+This should read like professional board meeting minutes suitable for corporate governance, legal compliance, and organizational records.`;
+
+    case 'case':
+      return `${basePrompt}
+
+You are an expert legal analyst specializing in court proceedings. Create comprehensive, professional legal case summaries suitable for attorneys and legal professionals.
+
+CRITICAL: The "summary" field must contain a detailed 3-4 page legal document in clean markdown format. Analyze EVERY aspect of the proceedings thoroughly.
+
+IMPORTANT: ONLY include sections that were actually discussed or present in the transcript. If a topic was not mentioned (like jury instructions, sentencing, plea negotiations, expert witnesses, etc.), DO NOT include that section at all. Focus solely on what actually occurred in this specific proceeding.
+
+COMPREHENSIVE LEGAL ANALYSIS REQUIREMENTS:
+- Extract complete legal arguments from both sides with detailed reasoning
+- Analyze ALL witness testimony including direct, cross, and redirect examination  
+- Provide constitutional and procedural law analysis (cite amendments, legal doctrines)
+- Reconstruct complete timeline of events leading to the hearing
+- Include detailed evidence evaluation and admissibility analysis
+- Capture exact legal reasoning and precedents referenced
+- Use professional legal terminology throughout
+- OMIT any sections not relevant to this specific hearing
+
+ADAPTIVE COMPREHENSIVE TEMPLATE (use only relevant sections):
+
+# CASE SUMMARY
+**Case Number:** [number] | **Department:** [dept] | **Judge:** [full name with title]  
+**Court:** [complete court name and jurisdiction]  
+**Date:** [hearing date] | **Time:** [start-end time] | **Type:** [specific hearing type]
+
+## CASE OVERVIEW
+**Case Title:** [complete case name]  
+**Matter:** [detailed description of what this hearing addresses]  
+**Current Status:** [case phase, custody status, procedural posture]
+
+## PARTIES AND REPRESENTATION (if parties were present/mentioned)
+**Prosecution/Plaintiff:** [name and attorney info]
+**Defense/Defendant:** [name, custody status, and attorney info]  
+**Court Personnel:** [judge, court reporter, clerk if mentioned]
+
+## LEGAL ISSUES DISCUSSED (only include issues actually raised)
+[List only the specific legal issues, motions, or matters that were actually discussed in this hearing]
+
+## WITNESS TESTIMONY (only if witnesses testified)
+### [Witness Name] - [Title/Role]
+**Direct Examination:** [key testimony points]
+**Cross-Examination:** [challenges and admissions]  
+**Redirect:** [if occurred]
+[Repeat only for witnesses who actually testified]
+
+## LEGAL ARGUMENTS (only include arguments actually made)
+### [Party] Position:
+[Include only the legal arguments that were actually presented]
+### [Opposing Party] Position:  
+[Include only counter-arguments that were actually made]
+
+## EVIDENCE DETAILS (only if evidence was discussed)
+[Include only evidence that was actually mentioned, introduced, or disputed]
+
+## COURT RULINGS (only include actual rulings made)
+[Document only the rulings that were actually issued in this hearing]
+
+## PROCEDURAL MATTERS (only if procedural issues arose)
+[Include only procedural matters that were actually addressed]
+
+---
+
+CRITICAL INSTRUCTION: Before including any section, ask yourself: "Was this topic actually discussed or mentioned in the transcript?" If the answer is NO, completely omit that section. The goal is a comprehensive analysis of what actually occurred, not a generic template filled with placeholder text.
+
+This should read like a professional legal memorandum focused specifically on the proceedings that took place, omitting any irrelevant sections.`;
+
+    case 'general':
+    case 'other':
+    default:
+      return `${basePrompt}
+
+You are a friendly and helpful General Meeting Assistant specializing in creating useful, readable notes for all types of meetings and educational content. You excel at capturing the important stuff without being overly formal or bureaucratic.
+
+CRITICAL: The "summary" field must contain clear, useful meeting notes in clean markdown format. Focus on what people actually need to remember and act on.
+
+IMPORTANT: ONLY include sections that actually happened or were discussed. If it was a lecture with no action items, don't include action items. If it was a brainstorming session with no formal decisions, don't force a decisions section. Adapt to what actually occurred.
+
+FLEXIBLE MEETING TYPES YOU HANDLE:
+- Lectures and educational sessions
+- Workshops and training
+- Team meetings and stand-ups
+- Brainstorming sessions
+- Project discussions
+- Client meetings
+- Casual check-ins
+- Study groups
+- Conferences and presentations
+
+ADAPTIVE NOTE-TAKING APPROACH:
+- Use a conversational, helpful tone (not corporate speak)
+- Capture key information without rigid formality
+- Focus on usefulness and readability
+- Make it easy to review and reference later
+- Include practical takeaways and insights
+- Don't force structure where it doesn't fit
+
+FLEXIBLE MEETING NOTES TEMPLATE (use only relevant sections):
+
+# Meeting Notes: [Title/Topic]
+
+**When:** [Date & Time] | **Duration:** [How long] | **Where:** [Location/Platform]  
+**Type:** [Lecture/Workshop/Meeting/Training/Brainstorming/etc.]  
+**Led by:** [Facilitator/Presenter/Teacher] | **Attendees:** [Number or key people]
+
+## What We Covered
+[Main topics and subjects - organized naturally, not forced into rigid structure]
+
+### [Topic/Section 1]
+[Key points, insights, and discussion in conversational tone]
+
+### [Topic/Section 2] 
+[Important information and takeaways]
+
+[Continue for each major topic covered]
+
+## Key Takeaways & Insights (if there were important insights)
+- [Important insight or learning]
+- [Useful information to remember]
+- [Interesting points raised]
+
+## Important Discussions (if there were notable conversations)
+[Summary of significant discussions, different viewpoints, or debates]
+
+## Decisions Made (if any decisions were actually made)
+- [Decision 1] - [Context if needed]
+- [Decision 2] - [Who made it if relevant]
+
+## Action Items & Next Steps (if any were assigned)
+- [Task or action] - [Who's responsible] - [When it's due]
+- [Follow-up item] - [Owner] - [Timeline]
+
+## Resources & References (if any were mentioned)
+- [Links, books, tools, or materials mentioned]
+- [Useful resources for follow-up]
+
+## Additional Notes (for any other useful info)
+[Observations, side notes, things to remember, or bonus information]
+
+---
+
+CRITICAL INSTRUCTION: Before including any section, ask yourself: "Did this actually happen or get discussed?" If not, skip that section entirely. The goal is useful, readable notes that capture what actually occurred - not a template filled with empty sections.
+
+Keep the tone friendly and conversational. Write as if you're helping someone who couldn't attend understand what happened and what they might need to know or do next.`;
+  }
+}
+
+function getUserPrompt(title: string, transcript: string, meetingType: string): string {
+  if (meetingType === 'case') {
+    return `Please analyze this legal case hearing transcript and provide a structured summary in JSON format:
+
+**Case Title:** ${title}
+
+**Transcript:**
+${transcript}
+
+**Required JSON Structure:**
+{
+  "meetingInfo": {
+    "title": "${title}",
+    "type": "case",
+    "date": "extracted hearing date",
+    "participants": ["list of all parties and court personnel"],
+    "duration": "estimated duration"
+  },
+  "summary": "MUST be formatted using the exact legal document structure provided in the system prompt with proper headings and sections",
+  "actionItems": ["any court orders or required actions"],
+  "keyDecisions": ["judicial rulings and decisions made"],
+  "discussions": [
+    {
+      "topic": "legal issue or motion discussed",
+      "keyPoints": ["main legal arguments and evidence"],
+      "outcome": "ruling or decision on this matter"
+    }
+  ],
+  "nextSteps": [{"description": "future hearing, appeal or filing", "deadline": "YYYY-MM-DD if stated", "responsibleParty": "who must act"}],
+  "caseInformation": {"caseNumber": "case number as stated, e.g. CSC-24-012", "caseTitle": "e.g. Appellant v. Agency", "jurisdiction": "", "caseType": "e.g. adverse action appeal"},
+  "parties": {
+    "plaintiffs": ["appellants, complainants or petitioners"],
+    "defendants": ["respondents or agencies"],
+    "attorneys": [{"name": "", "representing": "party name", "role": "e.g. counsel for appellant"}]
+  },
+  "courtPersonnel": {"judge": "", "hearingOfficer": "", "courtReporter": "", "bailiff": ""},
+  "hearingDetails": {"hearingType": "e.g. status conference, evidentiary hearing", "date": "YYYY-MM-DD", "time": "", "location": ""},
+  "legalIssues": ["questions the case turns on"],
+  "proceduralMatters": [{"type": "motion|objection|ruling|order", "description": "", "outcome": ""}],
+  "evidence": [{"type": "document|testimony|exhibit", "description": "", "submittedBy": ""}],
+  "rulings": [{"issue": "", "ruling": "", "reasoning": ""}],
+  "importantDates": [{"date": "YYYY-MM-DD", "description": "", "type": "hearing|filing|deadline|other"}],
+  "additionalNotes": "other relevant legal information"
+}
+
+Leave out any of these fields the hearing didn't cover, and only give dates that were stated.
+
+CRITICAL: The "summary" field must contain a comprehensive legal analysis in clean markdown format. This should be a professional legal document analyzing the specific aspects of the proceedings that actually occurred. Only include sections that were discussed in this hearing. Write as a detailed legal memorandum suitable for attorneys and case preparation, but focused exclusively on what transpired in this specific proceeding.`;
+  }
+
+  if (meetingType === 'board') {
+    return `Please analyze this board meeting transcript and provide a structured summary in JSON format following Robert's Rules of Order:
+
+**Meeting Title:** ${title}
+
+**Transcript:**
+${transcript}
+
+**Required JSON Structure:**
+{
+  "meetingInfo": {
+    "title": "${title}",
+    "type": "board",
+    "date": "extracted meeting date",
+    "participants": ["list of all board members and attendees with their roles"],
+    "duration": "estimated duration"
+  },
+  "summary": "MUST be formatted using the exact Robert's Rules meeting minutes structure provided in the system prompt with proper parliamentary procedure",
+  "actionItems": ["specific action items with responsible parties and deadlines"],
+  "keyDecisions": ["board decisions and resolutions made"],
+  "motions": [
+    {
+      "number": "motion number if given",
+      "text": "complete motion text verbatim",
+      "maker": "person who made the motion",
+      "seconder": "person who seconded the motion", 
+      "discussion": "summary of discussion",
+      "vote": "vote results (Yes: #, No: #, Abstain: #)",
+      "memberVotes": [{"member": "member name", "vote": "aye, nay, abstain, absent or recused"}],
+      "result": "PASSED or FAILED"
+    }
+  ],
+  "attendance": [
+    {
+      "name": "member name",
+      "role": "board position/title",
+      "present": true/false,
+      "arrivalTime": "if mentioned"
+    }
+  ],
+  "quorumStatus": {
+    "met": "true/false as declared by the chair or shown by the roll call, null if not established on the record",
+    "presentCount": "number present",
+    "requiredCount": "number required for quorum"
+  },
+  "nextSteps": ["upcoming board actions, next meeting date"],
+  "additionalNotes": "other relevant parliamentary or organizational information"
+}
+
+CRITICAL: The "summary" field must contain comprehensive professional board meeting minutes in clean markdown format following proper Robert's Rules of Order structure. This should be detailed, formal minutes suitable for corporate governance, legal compliance, and organizational records. Only include sections that actually occurred in this specific meeting - omit any sections not relevant to what transpired.`;
+  }
+
+  if (meetingType === 'general' || meetingType === 'other') {
+    return `Please analyze this meeting/session transcript and create helpful, readable notes in JSON format:
+
+**Title:** ${title}
+
+**Transcript:**
+${transcript}
+
+**Required JSON Structure:**
+{
+  "meetingInfo": {
+    "title": "${title}",
+    "type": "${meetingType}",
+    "date": "extracted date or current date",
+    "participants": ["list of attendees/participants"],
+    "duration": "estimated duration",
+    "facilitator": "presenter/leader if mentioned"
+  },
+  "summary": "MUST be formatted using the friendly meeting notes structure from the system prompt - conversational and useful",
+  "keyTopics": ["main subjects covered"],
+  "keyTakeaways": ["important insights and learnings"],
+  "actionItems": ["tasks or next steps if any were mentioned"],
+  "decisions": ["any decisions made - omit if none"],
+  "resources": ["links, references, materials mentioned"],
+  "discussions": [
+    {
+      "topic": "discussion topic",
+      "keyPoints": ["main points and insights"],
+      "outcome": "result or conclusion if any"
+    }
+  ],
+  "additionalNotes": "other useful observations or information"
+}
+
+CRITICAL: The "summary" field should contain friendly, conversational meeting notes in clean markdown format. Write as if you're helping someone who missed the session understand what happened and what they need to know. Focus on being useful and readable, not formal or corporate. Only include sections that actually occurred - don't force structure where it doesn't fit.`;
+  }
+  
+  return `Please analyze this ${meetingType} meeting transcript and provide a structured summary in JSON format:
+
+**Meeting Title:** ${title}
+
+**Transcript:**
+${transcript}
+
+**Required JSON Structure:**
+{
+  "meetingInfo": {
+    "title": "${title}",
+    "type": "${meetingType}",
+    "date": "extracted or current date",
+    "participants": ["list of participants"],
+    "duration": "estimated duration"
+  },
+  "summary": "detailed markdown-formatted summary",
+  "actionItems": ["list of action items with assignments"],
+  "keyDecisions": ["list of important decisions made"],
+  "discussions": [
+    {
+      "topic": "discussion topic",
+      "keyPoints": ["main points discussed"],
+      "outcome": "result or decision"
+    }
+  ],
+  "nextSteps": ["upcoming actions or follow-ups"],
+  "additionalNotes": "any other important information"
+}
+
+Ensure all JSON is valid and properly formatted. The summary should be detailed and professional.`;
+}
+
+/**
+ * Parse a model response and check it against the result schema. Unparseable
+ * JSON comes back as a single invalid issue so it gets a repair round too.
+ */
+function checkResponse(
+  content: string,
+  transcript: string,
+  meetingType: string,
+  segments: TranscriptSegment[],
+  speakers: MeetingSpeaker[]
+): ValidationOutcome<PipelineResult | null> {
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    console.error('Failed to parse AI response as JSON:', parseError);
+    return { value: null, issues: [{ path: 'response', message: 'not valid JSON', severity: 'invalid' }] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { value: null, issues: [{ path: 'response', message: 'expected a JSON object', severity: 'invalid' }] };
+  }
+
+  return validateResult(transformAIResponse(parsed, transcript, meetingType, segments, speakers));
+}
+
+function getRepairPrompt(issues: ValidationIssue[]): string {
+  return `Your JSON response did not match the required structure. Problems found:
+
+${formatIssues(issues).map(problem => `- ${problem}`).join('\n')}
+
+Return the complete corrected JSON object using the same structure as before. Use JSON numbers for counts, true/false for yes/no fields, and lists where a list is required. Do not add commentary.`;
+}
+
+/**
+ * Check the model's minutes against the body's rules before they're saved.
+ * Quorum is recomputed from attendance (the model's claim is only kept as
+ * `reported`), then each motion's tally is verified against who was present.
+ * With a roster, attendance and roll-call names are corrected first and only voting
+ * members count. Roll-call votes are appended to the minutes as vote tables.
+ */
+function verifyBoardMinutes(result: BoardMeetingResult, rules: MeetingRules): BoardMeetingResult {
+  const { roster } = rules;
+  const attendance = roster ? reconcileAttendance(result.attendance, roster) : result.attendance;
+  const motions = result.motions.map(motion => applyRollCall(motion, roster ? getMemberAliases(roster) : {}));
+  const quorumStatus = assessQuorum(roster ? votingAttendance(attendance, roster) : attendance, rules.quorum, result.quorumStatus.reported);
+  if (quorumStatus.note) {
+    console.warn(`⚠️ ${quorumStatus.note}`);
+  }
+
+  const rollCallTables = formatRollCallTables(motions);
+  const summary = flagQuorum(result.summary, quorumStatus);
+
+  return verifyVotes(
+    { ...result, attendance, motions, quorumStatus, summary: rollCallTables ? `${summary.trimEnd()}\n\n${rollCallTables}` : summary },
+    { threshold: rules.votingThreshold, bodySize: rules.quorum.bodySize, presentCount: quorumStatus.presentCount }
+  );
+}
+
+function transformAIResponse(aiResponse: any, originalTranscript: string, meetingType: string, segments: TranscriptSegment[], speakers: MeetingSpeaker[]): AIProcessingResult | LegalCaseResult | BoardMeetingResult {
+  const baseResult: AIProcessingResult = {
+    transcript: originalTranscript,
+    segments,
+    speakers,
+    summary: aiResponse.summary || 'Summary not available',
+    actionItems: aiResponse.actionItems || [],
+    participants: aiResponse.meetingInfo?.participants || [],
+    meetingType: meetingType as any,
+    keyDecisions: aiResponse.keyDecisions || [],
+    analysisMode: 'ai'
+  };
+
+  // Add type-specific fields based on meeting type
+  if (meetingType === 'case') {
+    return {
+      ...baseResult,
+      meetingType: 'case',
+      caseInformation: aiResponse.caseInformation || {},
+      parties: aiResponse.parties || { plaintiffs: [], defendants: [], attorneys: [] },
+      courtPersonnel: aiResponse.courtPersonnel || {},
+      hearingDetails: aiResponse.hearingDetails || { date: new Date().toISOString().split('T')[0] },
+      legalIssues: aiResponse.legalIssues || [],
+      proceduralMatters: aiResponse.proceduralMatters || [],
+      evidence: aiResponse.evidence || [],
+      rulings: aiResponse.rulings || [],
+      nextSteps: aiResponse.nextSteps || [],
+      importantDates: aiResponse.importantDates || []
+    } as LegalCaseResult;
+  }
+
+  if (meetingType === 'board') {
+    return {
+      ...baseResult,
+      meetingType: 'board',
+      attendance: aiResponse.attendance || [],
+      // The prompt asks for the tally as "vote" and only numbers motions if the chair did
+      motions: Array.isArray(aiResponse.motions)
+        ? aiResponse.motions.map((motion: Record<string, unknown> | null, index: number) => (motion && typeof motion === 'object'
+            ? { ...motion, number: motion.number || index + 1, voteCount: motion.voteCount ?? motion.vote }
+            : motion))
+        : aiResponse.motions || [],
+      // Quorum is worked out from attendance in verifyQuorum; only the model's claim is kept
+      quorumStatus: { state: 'unknown', presentCount: null, requiredCount: null, reported: aiResponse.quorumStatus?.met },
+      agendaItems: aiResponse.agendaItems || []
+    } as BoardMeetingResult;
+  }
+
+  return baseResult;
+}
+
+// Whisper transcription function
+async function transcribeWithWhisper(provider: LLMProvider, audio: AudioSource): Promise<TranscriptionResult> {
+  try {
+    console.log('🎵 Starting Whisper transcription...');
+    
+    // Files over Whisper's 25MB limit are split and transcribed piece by piece
+    if (audio.size > WHISPER_MAX_BYTES) {
+      return await transcribeInChunks(provider, audio);
+    }
+
+    // Supported formats
+    const supportedFormats = ['.mp3', '.mp4', '.mpeg', '.mpga', '.m4a', '.wav', '.webm'];
+    const fileExtension = audio.name.toLowerCase().substring(audio.name.lastIndexOf('.'));
+    
+    if (!supportedFormats.includes(fileExtension)) {
+      console.warn(`⚠️ Audio format ${fileExtension} may not be supported. Proceeding anyway...`);
+    }
+
+    const startTime = Date.now();
+    
+    // Whisper detects the format from the file name, so keep the original name.
+    // Verbose output keeps per-segment timing.
+    const transcription = await provider.transcribe(audio.filePath, audio.name);
+
+    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(`✅ Whisper completed in ${processingTime}s`);
+    
+    const whisperSegments = transcription.segments;
+
+    return {
+      text: transcription.text,
+      confidence: averageConfidence(whisperSegments),
+      segments: whisperSegments.map(toTranscriptSegment)
+    };
+
+  } catch (error: any) {
+    console.error('❌ Whisper transcription failed:', error);
+    
+    if (error.message?.includes('API key')) {
+      throw new Error('OpenAI API key is invalid');
+    } else if (error.message?.includes('quota')) {
+      throw new Error('OpenAI API quota exceeded. Please check your billing.');
+    } else if (error.message?.includes('rate limit')) {
+      throw new Error('OpenAI API rate limit hit. Please wait and try again.');
+    } else {
+      throw new Error(`Audio transcription failed: ${error.message}`);
+    }
+  }
+}
+
+// Transcribe long audio as overlapping time-based chunks and stitch the text back together
+async function transcribeInChunks(provider: LLMProvider, audio: AudioSource): Promise<TranscriptionResult> {
+  console.log(`📦 Audio is ${(audio.size / 1024 / 1024).toFixed(2)}MB - transcribing in chunks`);
+
+  const { chunks, cleanup } = await AudioChunker.split(audio.filePath);
+
+  try {
+    const results = [];
+    const allSegments: WhisperSegment[] = [];
+
+    // Sequential on purpose - parallel requests quickly hit Whisper rate limits
+    for (const chunk of chunks) {
+      console.log(`🎵 Transcribing chunk ${chunk.index + 1}/${chunks.length}...`);
+
+      const transcription = await provider.transcribe(chunk.filePath, path.basename(chunk.filePath));
+
+      const chunkSegments = transcription.segments;
+      allSegments.push(...chunkSegments);
+      results.push({ chunk, segments: chunkSegments.map(toTranscriptSegment) });
+    }
+
+    const stitched = AudioChunker.stitch(results);
+
+    return {
+      text: stitched.text,
+      confidence: averageConfidence(allSegments),
+      segments: stitched.segments
+    };
+
+  } finally {
+    cleanup();
+  }
+}
+
+function toTranscriptSegment(segment: WhisperSegment): TranscriptSegment {
+  return {
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim()
+  };
+}
+
+// Whisper reports a log-probability per segment; convert to an average 0-1 confidence
+function averageConfidence(segments: WhisperSegment[]): number {
+  if (segments.length === 0) {
+    return 0;
+  }
+  const total = segments.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob), 0);
+  return total / segments.length;
+}
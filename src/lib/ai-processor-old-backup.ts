@@ -1,5 +1,6 @@
 import { TranscriptionResult, AIProcessingResult } from '@/types';
-import { COMMON_NAMES, MEETING_TEMPLATES } from './templates';
+import { MEETING_TEMPLATES } from './templates';
+import { COMMON_NAMES } from './body-store';
 import { DetailedAnalysisMethods } from './detailed-analysis-methods';
 
 export class AIProcessor {
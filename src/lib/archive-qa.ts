@@ -0,0 +1,129 @@
+import { ArchiveAnswer, ArchiveCitation, LLMProviderId } from '@/types';
+import { SettingsStore } from './settings-store';
+import { getProvider } from './llm-provider';
+import { MeetingSearch, SearchIndex } from './search-index';
+import { formatTimestamp } from './transcript';
+
+// Passages handed to the model per question - enough to compare meetings, small enough to stay focused
+const MAX_SOURCES = 12;
+// Passages quoted when no model is available
+const OFFLINE_QUOTES = 3;
+
+export type ArchiveQuestionFilter = Pick<MeetingSearch, 'from' | 'to' | 'type' | 'bodyId'> & { provider?: LLMProviderId };
+
+interface ModelAnswer {
+  answer?: unknown;
+  sources?: unknown;
+}
+
+/**
+ * Answers questions about the whole meeting archive, e.g. "when did the
+ * commission last approve the travel policy?". Relevant passages are retrieved
+ * from the search index and the configured model answers from those alone,
+ * citing them by number. Without a model, the best passages are quoted instead.
+ * Server-side only - used by /api/ask.
+ */
+export class ArchiveQA {
+  static async ask(question: string, filter: ArchiveQuestionFilter = {}): Promise<ArchiveAnswer> {
+    const { provider: providerId, ...scope } = filter;
+    const retrieved = SearchIndex.retrieve(question, scope, MAX_SOURCES);
+    // Numbered oldest first, so "last" and "first" questions read naturally from the list
+    const byDate = [...retrieved].sort((a, b) => a.date.localeCompare(b.date));
+    // Best match first
+    const ranked: ArchiveCitation[] = retrieved.map(passage => ({
+      number: byDate.indexOf(passage) + 1,
+      meetingId: passage.meetingId,
+      meetingTitle: passage.title,
+      date: passage.date,
+      field: passage.field,
+      text: passage.text,
+      start: passage.start
+    }));
+    const sources = [...ranked].sort((a, b) => a.number - b.number);
+
+    if (sources.length === 0) {
+      return {
+        question,
+        answer: 'No stored meetings mention this. Try different words, or widen the date range or body.',
+        mode: 'heuristic',
+        citations: []
+      };
+    }
+
+    const settings = SettingsStore.get();
+    const provider = getProvider(providerId, settings);
+    if (!provider.isConfigured()) {
+      return this.quotePassages(question, ranked, [`The ${provider.id} provider isn't configured, so passages are quoted instead of answered`]);
+    }
+
+    try {
+      const content = await provider.chat({
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: `Question: ${question}\n\nSources:\n\n${sources.map(formatSource).join('\n\n')}` }
+        ],
+        maxTokens: Math.min(settings.maxTokens, 1500),
+        temperature: 0,
+        json: true
+      });
+
+      const parsed: ModelAnswer = JSON.parse(content);
+      const answer = typeof parsed.answer === 'string' ? parsed.answer.trim() : '';
+      if (!answer) {
+        throw new Error('Response has no answer');
+      }
+
+      // Cite what the text references, plus any sources the model listed separately
+      const cited = new Set<number>();
+      (answer.match(/\[(\d+(?:\s*,\s*\d+)*)\]/g) || [])
+        .forEach(group => group.match(/\d+/g)?.forEach(number => cited.add(Number(number))));
+      if (Array.isArray(parsed.sources)) {
+        parsed.sources.filter((number): number is number => typeof number === 'number').forEach(number => cited.add(number));
+      }
+
+      const citations = sources.filter(source => cited.has(source.number));
+      const warnings: string[] = [];
+      const unknown = Array.from(cited).filter(number => !sources.some(source => source.number === number));
+      if (unknown.length > 0) {
+        warnings.push(`The answer cited sources that don't exist (${unknown.map(number => `[${number}]`).join(', ')})`);
+      }
+      if (citations.length === 0) {
+        // An uncited answer can't be checked against the record, so don't present it as one
+        return this.quotePassages(question, ranked, [...warnings, 'The model\'s answer cited no meetings, so passages are quoted instead']);
+      }
+
+      return { question, answer, mode: 'ai', citations, warnings: warnings.length > 0 ? warnings : undefined };
+    } catch (error) {
+      console.warn('⚠️ Archive question failed, quoting passages instead:', error);
+      return this.quotePassages(question, ranked, ['The AI provider could not answer, so passages are quoted instead']);
+    }
+  }
+
+  // Quote the best-ranked passages, in source order
+  private static quotePassages(question: string, ranked: ArchiveCitation[], warnings: string[]): ArchiveAnswer {
+    const quoted = ranked.slice(0, OFFLINE_QUOTES).sort((a, b) => a.number - b.number);
+
+    const answer = [
+      'These passages from the archive look most relevant:',
+      ...quoted.map(source => `- ${describeSource(source)}: "${source.text.replace(/\s+/g, ' ')}" [${source.number}]`)
+    ].join('\n');
+
+    return { question, answer, mode: 'heuristic', citations: quoted, warnings };
+  }
+}
+
+const SYSTEM_PROMPT = `You answer questions about a government body's meeting archive. Always respond with valid JSON format.
+
+Use only the numbered sources provided. Each source says which meeting it comes from, the meeting date and, for transcript passages, when it was said. Cite every statement with the source numbers in square brackets, e.g. "The commission approved the revised travel policy on March 3, 2025 [2]." Give dates and meeting titles in the answer. When sources disagree, prefer the most recent meeting and say so. If the sources don't answer the question, say that plainly instead of guessing.
+
+Respond as: {"answer": "text with [n] citations", "sources": [numbers of the sources used]}`;
+
+function describeSource(source: ArchiveCitation): string {
+  const date = source.date.split('T')[0];
+  const at = source.start !== undefined ? ` at ${formatTimestamp(source.start)}` : '';
+  return `${source.meetingTitle} (${date}), ${source.field === 'actionItem' ? 'action item' : source.field}${at}`;
+}
+
+function formatSource(source: ArchiveCitation): string {
+  return `[${source.number}] ${describeSource(source)}\n${source.text}`;
+}
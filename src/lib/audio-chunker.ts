@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { TranscriptSegment } from '@/types';
+
+const execFileAsync = promisify(execFile);
+
+export interface AudioChunk {
+  index: number;
+  filePath: string;
+  // Where this chunk's audio starts in the original recording (seconds)
+  offset: number;
+  // The slice of the recording this chunk is responsible for, excluding overlap
+  ownedStart: number;
+  ownedEnd: number;
+}
+
+/**
+ * Splits long recordings into overlapping, time-based chunks small enough for Whisper
+ * and stitches the per-chunk transcripts back together. Server-side only - requires
+ * ffmpeg/ffprobe on the PATH (or FFMPEG_PATH / FFPROBE_PATH).
+ */
+export class AudioChunker {
+  // 10 minute mono 64kbps chunks come out around 5MB, well under Whisper's 25MB limit
+  private static readonly CHUNK_SECONDS = parseInt(process.env.AUDIO_CHUNK_SECONDS || '600');
+  private static readonly OVERLAP_SECONDS = parseInt(process.env.AUDIO_CHUNK_OVERLAP_SECONDS || '5');
+  private static readonly FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+  private static readonly FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+
+  /**
+   * Read the duration of an audio file in seconds
+   */
+  static async getDuration(filePath: string): Promise<number> {
+    const { stdout } = await this.run(this.FFPROBE, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      filePath
+    ]);
+
+    const duration = parseFloat(stdout.trim());
+    if (isNaN(duration)) {
+      throw new Error('Could not determine audio duration');
+    }
+    return duration;
+  }
+
+  /**
+   * Split an audio file into overlapping chunks. Call cleanup() once transcription is done.
+   */
+  static async split(filePath: string): Promise<{ chunks: AudioChunk[]; cleanup: () => void }> {
+    const duration = await this.getDuration(filePath);
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'busybee-chunks-'));
+    const cleanup = () => fs.rmSync(workDir, { recursive: true, force: true });
+
+    try {
+      const chunks: AudioChunk[] = [];
+      const chunkCount = Math.ceil(duration / this.CHUNK_SECONDS);
+
+      for (let index = 0; index < chunkCount; index++) {
+        const ownedStart = index * this.CHUNK_SECONDS;
+        const ownedEnd = Math.min(duration, ownedStart + this.CHUNK_SECONDS);
+        const offset = Math.max(0, ownedStart - this.OVERLAP_SECONDS);
+        const end = Math.min(duration, ownedEnd + this.OVERLAP_SECONDS);
+        const chunkPath = path.join(workDir, `chunk_${index.toString().padStart(3, '0')}.mp3`);
+
+        // Re-encode to mono 16kHz mp3 - plenty for speech and keeps chunks small
+        await this.run(this.FFMPEG, [
+          '-hide_banner', '-loglevel', 'error',
+          '-ss', offset.toFixed(3),
+          '-t', (end - offset).toFixed(3),
+          '-i', filePath,
+          '-ac', '1',
+          '-ar', '16000',
+          '-b:a', '64k',
+          '-y', chunkPath
+        ]);
+
+        chunks.push({ index, filePath: chunkPath, offset, ownedStart, ownedEnd });
+      }
+
+      console.log(`✂️ Split ${(duration / 60).toFixed(1)} min of audio into ${chunks.length} chunks`);
+      return { chunks, cleanup };
+
+    } catch (error) {
+      cleanup();
+      throw error;
+    }
+  }
+
+  private static async run(command: string, args: string[]): Promise<{ stdout: string }> {
+    try {
+      return await execFileAsync(command, args);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`${command} not found. Install ffmpeg to process recordings over 25MB.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Merge per-chunk segments into one timeline. Segment times are shifted by the chunk
+   * offset, and segments in the overlap are kept only by the chunk that owns their midpoint.
+   */
+  static stitch(results: Array<{ chunk: AudioChunk; segments: TranscriptSegment[] }>): { text: string; segments: TranscriptSegment[] } {
+    const segments: TranscriptSegment[] = [];
+
+    results
+      .sort((a, b) => a.chunk.index - b.chunk.index)
+      .forEach(({ chunk, segments: chunkSegments }) => {
+        const isLast = chunk.index === results.length - 1;
+
+        chunkSegments.forEach(segment => {
+          const start = segment.start + chunk.offset;
+          const end = segment.end + chunk.offset;
+          const midpoint = (start + end) / 2;
+
+          const owned = midpoint >= chunk.ownedStart && (midpoint < chunk.ownedEnd || isLast);
+          if (owned && segment.text.trim()) {
+            segments.push({ start, end, text: segment.text.trim() });
+          }
+        });
+      });
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      segments
+    };
+  }
+}
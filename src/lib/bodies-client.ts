@@ -0,0 +1,53 @@
+import { GoverningBody, GoverningBodyInput } from '@/types';
+
+export class BodiesClient {
+  private static instance: BodiesClient;
+  private baseUrl: string;
+
+  private constructor() {
+    this.baseUrl = '/api/bodies';
+  }
+
+  public static getInstance(): BodiesClient {
+    if (!BodiesClient.instance) {
+      BodiesClient.instance = new BodiesClient();
+    }
+    return BodiesClient.instance;
+  }
+
+  public async listBodies(): Promise<GoverningBody[]> {
+    const response = await fetch(this.baseUrl, { cache: 'no-store' });
+    return this.parseResponse<GoverningBody[]>(response);
+  }
+
+  public async createBody(input: Partial<GoverningBodyInput> & { name: string }): Promise<GoverningBody> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    return this.parseResponse<GoverningBody>(response);
+  }
+
+  public async updateBody(id: string, patch: Partial<GoverningBodyInput>): Promise<GoverningBody> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+    return this.parseResponse<GoverningBody>(response);
+  }
+
+  public async deleteBody(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await this.parseResponse<{ success: boolean }>(response);
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
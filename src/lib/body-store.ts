@@ -0,0 +1,209 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { BodyMember, GoverningBody, GoverningBodyInput, QuorumRule, VotingThreshold } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { validateQuorumRule } from './quorum';
+
+// Roster and rules one meeting's minutes are checked against
+export interface MeetingRules {
+  quorum: QuorumRule;
+  votingThreshold: VotingThreshold;
+  roster?: BodyMember[]; // Members serving on the meeting date; absent for meetings without a body
+}
+
+// Registry contents before anything has been saved: the Civil Service Commission
+const DEFAULT_BODIES: GoverningBody[] = [
+  {
+    id: 'csc',
+    name: 'Civil Service Commission',
+    members: [
+      { name: 'Raymond Muna', title: 'Chairperson', voting: true, aliases: ['Muña', 'Raymond', 'Muna', 'Chairman Muna', 'Chair Muna'] },
+      { name: 'Patrick Fitial', title: 'Vice Chair', voting: true, aliases: ['Vittil', 'Patrick', 'Fitial'] },
+      { name: 'Victoria Bellas', title: 'Secretary', voting: true, aliases: ['Bellas', 'Victoria'] },
+      { name: 'Richard Farrell', title: 'Budget Officer', voting: true, aliases: ['Farrell', 'Richard'] },
+      { name: 'Elvira Mesgnon', title: 'Commissioner', voting: true, aliases: ['Olivia', 'Elvira', 'Mesgnon'] },
+      { name: 'Michele Joab', title: 'Commissioner', voting: true, aliases: ['Michele', 'Joab'] },
+      { name: 'Frances Torres', title: 'Commissioner', voting: true, aliases: ['Frances', 'Torres'] },
+      { name: 'Joseph Pangelinan', title: 'Director', voting: false, aliases: ['Joseph', 'Pangelinan'] },
+      { name: 'Teresa Borja', title: 'Executive Assistant', voting: false, aliases: ['Teresa', 'Borja'] },
+      { name: 'Mark Scoggins', title: 'Hearing Officer', voting: false, aliases: ['Mark', 'Scoggins'] },
+      { name: 'Kadianne Mangarero', title: 'Executive Secretary', voting: false, aliases: ['Kadianne', 'Mangarero'] }
+    ],
+    quorum: { bodySize: 7, type: 'majority' },
+    votingThreshold: 'majority',
+    defaultTemplate: 'commission',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  }
+];
+
+// Default roster as name -> variants heard in transcripts, e.g. "Chair Muna"
+export const COMMON_NAMES: Record<string, string[]> = Object.fromEntries(
+  DEFAULT_BODIES[0].members.map(member => [member.name, [...member.aliases, `${member.title} ${member.name.split(' ').pop()}`]])
+);
+
+/**
+ * JSON-on-disk registry of boards and commissions: who sits on them, under what
+ * titles and terms, and the quorum and voting rules their minutes are checked
+ * against. Server-side only - used by the /api/bodies routes and the pipeline.
+ */
+export class BodyStore {
+  private static readonly BODIES_FILE = path.join(DATA_DIR, 'bodies.json');
+
+  static list(): GoverningBody[] {
+    return this.readAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static get(id: string): GoverningBody | null {
+    return this.readAll().find(body => body.id === id) || null;
+  }
+
+  /**
+   * Add a body. Anything but the name can be filled in later.
+   */
+  static create(input: Pick<GoverningBodyInput, 'name'> & Partial<GoverningBodyInput>): GoverningBody {
+    const now = new Date().toISOString();
+    const body: GoverningBody = {
+      ...this.sanitize({
+        members: [],
+        quorum: { bodySize: null, type: 'majority' },
+        votingThreshold: 'majority',
+        defaultTemplate: 'commission',
+        ...input
+      }),
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.writeAll([...this.readAll(), body]);
+    return body;
+  }
+
+  /**
+   * Apply a partial update to a body. Returns null if the body doesn't exist.
+   */
+  static update(id: string, patch: Partial<GoverningBodyInput>): GoverningBody | null {
+    const bodies = this.readAll();
+    const index = bodies.findIndex(body => body.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    bodies[index] = {
+      ...bodies[index],
+      ...this.sanitize({ ...bodies[index], ...patch }),
+      updatedAt: new Date().toISOString()
+    };
+    this.writeAll(bodies);
+
+    return bodies[index];
+  }
+
+  static remove(id: string): boolean {
+    const bodies = this.readAll();
+    const remaining = bodies.filter(body => body.id !== id);
+    if (remaining.length === bodies.length) {
+      return false;
+    }
+
+    this.writeAll(remaining);
+    return true;
+  }
+
+  /**
+   * Members serving on the given meeting date (no term dates means always serving)
+   */
+  static rosterOn(body: GoverningBody, date: Date): BodyMember[] {
+    const day = date.toISOString().split('T')[0];
+    return body.members.filter(member =>
+      (!member.termStart || member.termStart <= day) && (!member.termEnd || member.termEnd >= day)
+    );
+  }
+
+  /**
+   * Rules for a meeting of this body. Meetings without a body use the default
+   * quorum rule from settings and a simple majority.
+   */
+  static rulesFor(body: GoverningBody | null, date: Date, defaultQuorum: QuorumRule): MeetingRules {
+    if (!body) {
+      return { quorum: defaultQuorum, votingThreshold: 'majority' };
+    }
+    return { quorum: body.quorum, votingThreshold: body.votingThreshold, roster: this.rosterOn(body, date) };
+  }
+
+  /**
+   * Check a body before saving. Returns a list of problems (empty if valid).
+   */
+  static validate(input: Partial<GoverningBodyInput>): string[] {
+    const errors: string[] = [];
+
+    if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+      errors.push('Name is required');
+    }
+    if (input.members !== undefined) {
+      if (!Array.isArray(input.members)) {
+        errors.push('Members must be a list');
+      } else {
+        input.members.forEach((member, index) => {
+          if (typeof member?.name !== 'string' || !member.name.trim()) {
+            errors.push(`Member ${index + 1} needs a name`);
+          }
+          const label = (typeof member?.name === 'string' && member.name.trim()) || `member ${index + 1}`;
+          if (member?.title !== undefined && typeof member.title !== 'string') {
+            errors.push(`Title for ${label} must be text`);
+          }
+          if (member?.aliases !== undefined && (!Array.isArray(member.aliases) || member.aliases.some(alias => typeof alias !== 'string'))) {
+            errors.push(`Aliases for ${label} must be a list of names`);
+          }
+          if ([member?.termStart, member?.termEnd].some(date => date && isNaN(Date.parse(date)))) {
+            errors.push(`Term dates for ${label} must be valid dates`);
+          } else if (member?.termStart && member?.termEnd && member.termStart > member.termEnd) {
+            errors.push(`Term for ${label} ends before it starts`);
+          }
+        });
+      }
+    }
+    if (input.quorum !== undefined) {
+      if (typeof input.quorum !== 'object' || input.quorum === null) {
+        errors.push('Quorum rule must be an object');
+      } else {
+        errors.push(...validateQuorumRule(input.quorum));
+      }
+    }
+    if (input.votingThreshold !== undefined && !['majority', 'two_thirds', 'majority_of_membership'].includes(input.votingThreshold)) {
+      errors.push('Voting threshold must be majority, two_thirds or majority_of_membership');
+    }
+    if (input.defaultTemplate !== undefined && input.defaultTemplate !== 'commission' && input.defaultTemplate !== 'case') {
+      errors.push('Default template must be "commission" or "case"');
+    }
+
+    return errors;
+  }
+
+  private static sanitize(input: GoverningBodyInput): GoverningBodyInput {
+    return {
+      name: input.name.trim(),
+      members: input.members.map(member => ({
+        name: member.name.trim(),
+        title: member.title?.trim() || 'Member',
+        voting: member.voting !== false,
+        termStart: member.termStart || undefined,
+        termEnd: member.termEnd || undefined,
+        aliases: (member.aliases || []).map(alias => alias.trim()).filter(Boolean)
+      })),
+      quorum: input.quorum,
+      votingThreshold: input.votingThreshold,
+      defaultTemplate: input.defaultTemplate
+    };
+  }
+
+  private static readAll(): GoverningBody[] {
+    return readJsonFile(this.BODIES_FILE, DEFAULT_BODIES.map(body => ({ ...body, members: [...body.members] })));
+  }
+
+  private static writeAll(bodies: GoverningBody[]): void {
+    writeJsonFile(this.BODIES_FILE, bodies);
+  }
+}
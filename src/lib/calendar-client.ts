@@ -0,0 +1,59 @@
+import { CalendarEvent, CalendarEventInput, CalendarEventStatus } from '@/types';
+
+export class CalendarClient {
+  private static instance: CalendarClient;
+  private baseUrl: string;
+
+  private constructor() {
+    this.baseUrl = '/api/calendar/events';
+  }
+
+  public static getInstance(): CalendarClient {
+    if (!CalendarClient.instance) {
+      CalendarClient.instance = new CalendarClient();
+    }
+    return CalendarClient.instance;
+  }
+
+  public async listEvents(filter: { from?: string; to?: string; status?: CalendarEventStatus } = {}): Promise<CalendarEvent[]> {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      }
+    });
+    const response = await fetch(`${this.baseUrl}?${params}`, { cache: 'no-store' });
+    return this.parseResponse<CalendarEvent[]>(response);
+  }
+
+  public async createEvent(input: Pick<CalendarEventInput, 'title' | 'start'> & Partial<CalendarEventInput>): Promise<CalendarEvent> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    return this.parseResponse<CalendarEvent>(response);
+  }
+
+  public async updateEvent(id: string, patch: Partial<CalendarEventInput>): Promise<CalendarEvent> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+    return this.parseResponse<CalendarEvent>(response);
+  }
+
+  public async deleteEvent(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await this.parseResponse<{ success: boolean }>(response);
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,211 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { CalendarEvent, CalendarEventInput, CalendarEventStatus, CalendarEventType, CaseHearing, Recording } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { dateKey } from './case-docket';
+
+export interface CalendarEventFilter {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  status?: CalendarEventStatus;
+}
+
+/**
+ * JSON-on-disk calendar. Events are added by hand or proposed from the dates
+ * and deadlines a case hearing's analysis found, which appear on the calendar
+ * as proposed until someone confirms or dismisses them. Server-side only -
+ * used by the /api/calendar/events routes and JobQueue.
+ */
+export class CalendarStore {
+  static readonly TYPES: CalendarEventType[] = ['meeting', 'call', 'event', 'reminder', 'hearing', 'filing', 'deadline'];
+  static readonly STATUSES: CalendarEventStatus[] = ['proposed', 'confirmed', 'dismissed'];
+
+  private static readonly EVENTS_FILE = path.join(DATA_DIR, 'calendar-events.json');
+
+  static list(filter: CalendarEventFilter = {}): CalendarEvent[] {
+    return this.readAll()
+      .filter(event => {
+        const day = event.start.slice(0, 10);
+        return (!filter.from || day >= filter.from) &&
+          (!filter.to || day <= filter.to) &&
+          (!filter.status || event.status === filter.status);
+      })
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  static get(id: string): CalendarEvent | null {
+    return this.readAll().find(event => event.id === id) || null;
+  }
+
+  /**
+   * Add an event by hand. It's confirmed unless the input says otherwise.
+   */
+  static create(input: Pick<CalendarEventInput, 'title' | 'start'> & Partial<CalendarEventInput>): CalendarEvent {
+    const events = this.readAll();
+    const now = new Date().toISOString();
+    const event: CalendarEvent = {
+      ...this.sanitize(input),
+      id: randomUUID(),
+      title: input.title.trim(),
+      start: input.start,
+      end: input.end || input.start,
+      allDay: input.allDay ?? /^\d{4}-\d{2}-\d{2}$/.test(input.start),
+      type: input.type || 'event',
+      status: input.status || 'confirmed',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    events.push(event);
+    this.writeAll(events);
+    return event;
+  }
+
+  static update(id: string, patch: Partial<CalendarEventInput>): CalendarEvent | null {
+    const events = this.readAll();
+    const index = events.findIndex(event => event.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    events[index] = {
+      ...events[index],
+      ...this.sanitize(patch),
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    this.writeAll(events);
+    return events[index];
+  }
+
+  static remove(id: string): boolean {
+    const events = this.readAll();
+    const remaining = events.filter(event => event.id !== id);
+    if (remaining.length === events.length) {
+      return false;
+    }
+    this.writeAll(remaining);
+    return true;
+  }
+
+  /**
+   * Propose the hearing's important dates and next-step deadlines as all-day
+   * events. Proposals from an earlier analysis of the same hearing are replaced.
+   * Dates already on the calendar - confirmed, dismissed or restated from an
+   * earlier hearing - and dates before the hearing aren't proposed again.
+   */
+  static proposeFromHearing(recording: Recording, hearing: CaseHearing): CalendarEvent[] {
+    const events = this.readAll().filter(event => !(event.status === 'proposed' && event.source?.meetingId === recording.id));
+    const hearingDay = recording.date.toISOString().split('T')[0];
+    const prefix = hearing.caseNumber ? `${hearing.caseNumber}: ` : '';
+    const now = new Date().toISOString();
+
+    const candidates = [
+      ...hearing.importantDates.map(entry => ({
+        day: dateKey(entry.date),
+        title: `${prefix}${entry.description}`,
+        type: (entry.type === 'other' ? 'event' : entry.type) as CalendarEventType,
+        description: undefined as string | undefined,
+        kind: 'importantDate' as const
+      })),
+      ...hearing.nextSteps.filter(step => step.deadline).map(step => ({
+        day: dateKey(step.deadline!),
+        title: `${prefix}${step.description}`,
+        type: 'deadline' as CalendarEventType,
+        description: step.responsibleParty ? `Responsible: ${step.responsibleParty}` : undefined,
+        kind: 'nextStep' as const
+      }))
+    ];
+
+    const known = new Set(events.map(event => this.key(event.start, event.title)));
+    const proposed: CalendarEvent[] = [];
+    candidates.forEach(candidate => {
+      if (!candidate.day || candidate.day < hearingDay || known.has(this.key(candidate.day, candidate.title))) {
+        return;
+      }
+      known.add(this.key(candidate.day, candidate.title));
+      proposed.push({
+        id: randomUUID(),
+        title: candidate.title,
+        start: candidate.day,
+        end: candidate.day,
+        allDay: true,
+        description: [candidate.description, `From ${recording.title}`].filter(Boolean).join('\n'),
+        type: candidate.type,
+        status: 'proposed',
+        source: { meetingId: recording.id, caseNumber: hearing.caseNumber, kind: candidate.kind },
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+
+    this.writeAll([...events, ...proposed]);
+    return proposed;
+  }
+
+  /**
+   * Withdraw a deleted meeting's unconfirmed proposals. Confirmed events stay.
+   */
+  static removeProposalsForMeeting(meetingId: string): void {
+    const events = this.readAll();
+    const remaining = events.filter(event => !(event.status !== 'confirmed' && event.source?.meetingId === meetingId));
+    if (remaining.length !== events.length) {
+      this.writeAll(remaining);
+    }
+  }
+
+  static validate(input: Partial<CalendarEventInput>): string[] {
+    const errors: string[] = [];
+
+    if (input.title !== undefined && (typeof input.title !== 'string' || !input.title.trim())) {
+      errors.push('Title is required');
+    }
+    const invalid = [input.start, input.end].filter(date => date !== undefined && (typeof date !== 'string' || isNaN(Date.parse(date))));
+    if (invalid.length > 0) {
+      errors.push('Start and end must be dates (YYYY-MM-DD) or ISO date-times');
+    } else if (input.start && input.end && Date.parse(input.end) < Date.parse(input.start)) {
+      errors.push('End must not be before start');
+    }
+    if (input.type !== undefined && !this.TYPES.includes(input.type)) {
+      errors.push(`Type must be one of ${this.TYPES.join(', ')}`);
+    }
+    if (input.status !== undefined && !this.STATUSES.includes(input.status)) {
+      errors.push(`Status must be one of ${this.STATUSES.join(', ')}`);
+    }
+    if (input.attendees !== undefined && (!Array.isArray(input.attendees) || input.attendees.some(attendee => typeof attendee !== 'string'))) {
+      errors.push('Attendees must be a list of names or emails');
+    }
+
+    return errors;
+  }
+
+  // Same day and title, ignoring case - a date restated at a later hearing
+  private static key(start: string, title: string): string {
+    return `${start.slice(0, 10)}|${title.trim().toLowerCase()}`;
+  }
+
+  // Keep only the editable fields, so a request can't overwrite ids or sources
+  private static sanitize(input: Partial<CalendarEventInput>): Partial<CalendarEventInput> {
+    const fields: Partial<CalendarEventInput> = {
+      title: input.title?.trim(),
+      start: input.start,
+      end: input.end,
+      allDay: input.allDay,
+      description: input.description,
+      attendees: input.attendees?.map(attendee => attendee.trim()).filter(Boolean),
+      location: input.location,
+      type: input.type,
+      status: input.status
+    };
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  }
+
+  private static readAll(): CalendarEvent[] {
+    return readJsonFile<CalendarEvent[]>(this.EVENTS_FILE, []);
+  }
+
+  private static writeAll(events: CalendarEvent[]): void {
+    writeJsonFile(this.EVENTS_FILE, events);
+  }
+}
@@ -0,0 +1,234 @@
+import path from 'path';
+import { CaseDocketListing, CaseHearing, CaseHearingRef, CaseRecord, CaseSummary, LegalCaseResult, Recording } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { MeetingStore } from './meeting-store';
+import { FileOrganizer } from './file-organizer';
+import { PipelineResult } from './ai-pipeline';
+
+/**
+ * JSON-on-disk docket linking hearings of the same case. Each processed case
+ * hearing is filed under its case number (e.g. CSC-24-012) with the parties,
+ * rulings, procedural matters, evidence and dates its analysis found; a case
+ * record accumulates these across every hearing. Meeting titles and dates are
+ * read from MeetingStore so they stay current. Server-side only - used by the
+ * /api/cases routes and JobQueue.
+ */
+export class CaseDocket {
+  private static readonly DOCKET_FILE = path.join(DATA_DIR, 'case-docket.json');
+
+  static list(): CaseDocketListing {
+    const meetings = this.meetingsById();
+    const hearings = this.readAll().filter(hearing => meetings.has(hearing.meetingId));
+    const today = new Date().toISOString().split('T')[0];
+
+    const byCase = new Map<string, CaseHearing[]>();
+    hearings.filter(hearing => hearing.caseNumber).forEach(hearing => {
+      byCase.set(hearing.caseNumber!, [...(byCase.get(hearing.caseNumber!) || []), hearing]);
+    });
+
+    const cases: CaseSummary[] = Array.from(byCase.entries()).map(([caseNumber, caseHearings]) => {
+      const refs = caseHearings.map(hearing => this.toRef(hearing, meetings)).sort((a, b) => a.date.localeCompare(b.date));
+      const upcoming = caseHearings
+        .flatMap(hearing => hearing.importantDates)
+        .filter(entry => (dateKey(entry.date) || '') >= today)
+        .sort((a, b) => (dateKey(a.date) || '').localeCompare(dateKey(b.date) || ''));
+
+      return {
+        caseNumber,
+        caseTitle: latest(caseHearings, meetings, hearing => hearing.caseInformation.caseTitle),
+        hearingCount: refs.length,
+        firstHearing: refs[0].date,
+        lastHearing: refs[refs.length - 1].date,
+        nextDate: upcoming[0]
+      };
+    });
+
+    return {
+      cases: cases.sort((a, b) => b.lastHearing.localeCompare(a.lastHearing)),
+      unassigned: hearings
+        .filter(hearing => !hearing.caseNumber)
+        .map(hearing => this.toRef(hearing, meetings))
+        .sort((a, b) => b.date.localeCompare(a.date))
+    };
+  }
+
+  /**
+   * One case across all its hearings, or null when no hearing is filed under the number
+   */
+  static get(caseNumber: string): CaseRecord | null {
+    const normalized = normalizeCaseNumber(caseNumber);
+    const meetings = this.meetingsById();
+    const hearings = this.readAll()
+      .filter(hearing => hearing.caseNumber === normalized && meetings.has(hearing.meetingId))
+      .sort((a, b) => meetings.get(a.meetingId)!.date.getTime() - meetings.get(b.meetingId)!.date.getTime());
+    if (hearings.length === 0) {
+      return null;
+    }
+
+    const withRefs = hearings.map(hearing => ({ hearing, ref: this.toRef(hearing, meetings) }));
+    const importantDates = withRefs.flatMap(({ hearing, ref }) => hearing.importantDates.map(entry => ({ ...entry, hearing: ref })));
+
+    return {
+      caseNumber: normalized,
+      caseTitle: latest(hearings, meetings, hearing => hearing.caseInformation.caseTitle),
+      jurisdiction: latest(hearings, meetings, hearing => hearing.caseInformation.jurisdiction),
+      caseType: latest(hearings, meetings, hearing => hearing.caseInformation.caseType),
+      parties: {
+        plaintiffs: unique(hearings.flatMap(hearing => hearing.parties.plaintiffs)),
+        defendants: unique(hearings.flatMap(hearing => hearing.parties.defendants)),
+        // The latest hearing's description of an attorney's role wins
+        attorneys: Array.from(new Map(hearings
+          .flatMap(hearing => hearing.parties.attorneys)
+          .map(attorney => [attorney.name.trim().toLowerCase(), attorney] as const)).values())
+      },
+      courtPersonnel: Object.assign({}, ...hearings.map(hearing => withoutBlanks(hearing.courtPersonnel))),
+      hearings: withRefs.map(({ ref }) => ref),
+      legalIssues: unique(hearings.flatMap(hearing => hearing.legalIssues)),
+      rulings: withRefs.flatMap(({ hearing, ref }) => hearing.rulings.map(entry => ({ ...entry, hearing: ref }))),
+      proceduralMatters: withRefs.flatMap(({ hearing, ref }) => hearing.proceduralMatters.map(entry => ({ ...entry, hearing: ref }))),
+      evidence: withRefs.flatMap(({ hearing, ref }) => hearing.evidence.map(entry => ({ ...entry, hearing: ref }))),
+      // The same date is often restated at later hearings; keep its first mention.
+      // Dates that can't be read sort last.
+      importantDates: importantDates
+        .filter((entry, index) => importantDates.findIndex(other =>
+          other.date === entry.date && other.description.toLowerCase() === entry.description.toLowerCase()) === index)
+        .sort((a, b) => (dateKey(a.date) || '9999').localeCompare(dateKey(b.date) || '9999')),
+      nextSteps: hearings[hearings.length - 1].nextSteps
+    };
+  }
+
+  static getHearing(meetingId: string): CaseHearing | null {
+    return this.readAll().find(hearing => hearing.meetingId === meetingId) || null;
+  }
+
+  /**
+   * File a processed hearing under its case number, replacing what an earlier
+   * analysis of the same meeting filed. The number comes from the analysis,
+   * the meeting title or the transcript; one a clerk assigned is kept.
+   */
+  static recordHearing(recording: Recording, result: PipelineResult): CaseHearing {
+    const caseResult: Partial<LegalCaseResult> = result.meetingType === 'case' ? result as LegalCaseResult : {};
+    const existing = this.getHearing(recording.id);
+    const stated = caseResult.caseInformation?.caseNumber || '';
+
+    const detected = FileOrganizer.extractCaseNumber(stated)
+      || FileOrganizer.extractCaseNumber(recording.title)
+      || FileOrganizer.extractCaseNumber(result.transcript || recording.transcriptUrl || '')
+      || (stated.trim() ? normalizeCaseNumber(stated) : undefined);
+
+    const hearing: CaseHearing = {
+      meetingId: recording.id,
+      caseNumber: existing?.caseNumberAssigned ? existing.caseNumber : detected,
+      caseNumberAssigned: existing?.caseNumberAssigned,
+      caseInformation: caseResult.caseInformation || {},
+      parties: {
+        plaintiffs: caseResult.parties?.plaintiffs || [],
+        defendants: caseResult.parties?.defendants || [],
+        attorneys: caseResult.parties?.attorneys || []
+      },
+      courtPersonnel: caseResult.courtPersonnel || {},
+      hearingDetails: caseResult.hearingDetails || {},
+      legalIssues: caseResult.legalIssues || [],
+      proceduralMatters: caseResult.proceduralMatters || [],
+      evidence: caseResult.evidence || [],
+      rulings: caseResult.rulings || [],
+      nextSteps: caseResult.nextSteps || [],
+      importantDates: caseResult.importantDates || [],
+      recordedAt: new Date().toISOString()
+    };
+
+    this.writeAll([...this.readAll().filter(other => other.meetingId !== recording.id), hearing]);
+    if (hearing.caseNumber) {
+      console.log(`⚖️ Hearing "${recording.title}" filed under ${hearing.caseNumber}`);
+    }
+    return hearing;
+  }
+
+  /**
+   * File a hearing under a case number by hand, e.g. when none was detected
+   */
+  static assign(meetingId: string, caseNumber: string): CaseHearing | null {
+    const hearings = this.readAll();
+    const index = hearings.findIndex(hearing => hearing.meetingId === meetingId);
+    if (index === -1) {
+      return null;
+    }
+
+    hearings[index] = { ...hearings[index], caseNumber: normalizeCaseNumber(caseNumber), caseNumberAssigned: true };
+    this.writeAll(hearings);
+    return hearings[index];
+  }
+
+  static removeMeeting(meetingId: string): void {
+    const hearings = this.readAll();
+    if (hearings.some(hearing => hearing.meetingId === meetingId)) {
+      this.writeAll(hearings.filter(hearing => hearing.meetingId !== meetingId));
+    }
+  }
+
+  private static toRef(hearing: CaseHearing, meetings: Map<string, Recording>): CaseHearingRef {
+    const meeting = meetings.get(hearing.meetingId)!;
+    return {
+      meetingId: meeting.id,
+      meetingTitle: meeting.title,
+      date: meeting.date.toISOString(),
+      hearingType: hearing.hearingDetails.hearingType
+    };
+  }
+
+  private static meetingsById(): Map<string, Recording> {
+    return new Map(MeetingStore.list().map(meeting => [meeting.id, meeting]));
+  }
+
+  private static readAll(): CaseHearing[] {
+    return readJsonFile<CaseHearing[]>(this.DOCKET_FILE, []);
+  }
+
+  private static writeAll(hearings: CaseHearing[]): void {
+    writeJsonFile(this.DOCKET_FILE, hearings);
+  }
+}
+
+// "csc-24-012 " and "CSC-24-012" are the same case
+export function normalizeCaseNumber(caseNumber: string): string {
+  return caseNumber.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+// YYYY-MM-DD for a date as the model wrote it ("2025-03-05", "March 5, 2025"), or null
+export function dateKey(date: string): string | null {
+  const iso = date.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) {
+    return iso[0];
+  }
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime())
+    ? null
+    : `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+}
+
+// The value from the most recent hearing that has one
+function latest(hearings: CaseHearing[], meetings: Map<string, Recording>, pick: (hearing: CaseHearing) => string | undefined): string | undefined {
+  return [...hearings]
+    .sort((a, b) => meetings.get(b.meetingId)!.date.getTime() - meetings.get(a.meetingId)!.date.getTime())
+    .map(pick)
+    .find(value => value?.trim());
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map(value => value.trim())
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+function withoutBlanks<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => typeof entry === 'string' && entry.trim())) as Partial<T>;
+}
@@ -0,0 +1,47 @@
+import { CaseDocketListing, CaseHearing, CaseRecord } from '@/types';
+
+export class CasesClient {
+  private static instance: CasesClient;
+  private baseUrl: string;
+
+  private constructor() {
+    this.baseUrl = '/api/cases';
+  }
+
+  public static getInstance(): CasesClient {
+    if (!CasesClient.instance) {
+      CasesClient.instance = new CasesClient();
+    }
+    return CasesClient.instance;
+  }
+
+  public async listCases(): Promise<CaseDocketListing> {
+    const response = await fetch(this.baseUrl, { cache: 'no-store' });
+    return this.parseResponse<CaseDocketListing>(response);
+  }
+
+  public async getCase(caseNumber: string): Promise<CaseRecord> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(caseNumber)}`, { cache: 'no-store' });
+    return this.parseResponse<CaseRecord>(response);
+  }
+
+  /**
+   * File a hearing under a case number, e.g. when none was detected
+   */
+  public async assignCaseNumber(meetingId: string, caseNumber: string): Promise<CaseHearing> {
+    const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/case`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ caseNumber })
+    });
+    return this.parseResponse<CaseHearing>(response);
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,4 @@
+import path from 'path';
+
+// Root for server-side app data (meetings, audio, speaker maps). Server-side only.
+export const DATA_DIR = process.env.BUSYBEE_DATA_DIR || path.join(process.cwd(), 'data');
@@ -1,11 +1,23 @@
 // COMPREHENSIVE DETAILED ANALYSIS IMPLEMENTATION METHODS
 // These methods provide exhaustive analysis for the Roberts Rules Agent
 
+export interface DetailedMotion {
+  id: number;
+  type: string;
+  maker: string;
+  seconder: string;
+  fullText: string;
+  discussion: string;
+  voteType: string;
+  result: string;
+  timestamp: string;
+}
+
 export class DetailedAnalysisMethods {
   
   // Identify all meeting segments with detailed context
   static identifyMeetingSegments(transcript: string): Array<{type: string, startIndex: number, content: string, duration: string}> {
-    const segments = [];
+    const segments: Array<{type: string, startIndex: number, content: string, duration: string}> = [];
     const segmentPatterns = [
       { type: 'call_to_order', pattern: /(call|calling|bring|bringing)\s+(to\s+)?order/i },
       { type: 'roll_call', pattern: /roll\s+call|attendance|present|absent/i },
@@ -43,12 +55,13 @@ export class DetailedAnalysisMethods {
     const callPatterns = [
       /(meeting|session)\s+(called|brought)\s+to\s+order/i,
       /(call|calling)\s+(the\s+)?(meeting|session)\s+to\s+order/i,
+      /(call|calling)\s+this\s+[^.!?]{0,120}?\s+to\s+order/i,
       /order.*meeting.*to.*order/i
     ];
 
     for (const pattern of callPatterns) {
       const match = transcript.match(pattern);
-      if (match) {
+      if (match && match.index !== undefined) {
         const contextStart = Math.max(0, match.index - 100);
         const contextEnd = Math.min(transcript.length, match.index + 200);
         const context = transcript.substring(contextStart, contextEnd);
@@ -71,8 +84,11 @@ export class DetailedAnalysisMethods {
   }
 
   // Comprehensive attendance analysis
-  static analyzeComprehensiveAttendance(transcript: string, detectedSpeakers: any[]): Array<{name: string, title: string, present: boolean, firstSpeechTime?: string}> {
-    const commissionMembers = [
+  static analyzeComprehensiveAttendance(
+    transcript: string,
+    detectedSpeakers: any[],
+    // Defaults to the Civil Service Commission; pass a body's roster for other bodies
+    members: Array<{ name: string; title: string }> = [
       { name: 'Raymond Muna', title: 'Chairperson' },
       { name: 'Patrick Fitial', title: 'Vice Chair' },
       { name: 'Victoria Bellas', title: 'Secretary' },
@@ -80,9 +96,9 @@ export class DetailedAnalysisMethods {
       { name: 'Elvira Mesgnon', title: 'Commissioner' },
       { name: 'Michele Joab', title: 'Commissioner' },
       { name: 'Frances Torres', title: 'Commissioner' }
-    ];
-
-    return commissionMembers.map(member => {
+    ]
+  ): Array<{name: string, title: string, present: boolean, firstSpeechTime?: string}> {
+    return members.map(member => {
       const nameVariations = [
         member.name,
         member.name.split(' ')[0], // First name
@@ -126,7 +142,7 @@ export class DetailedAnalysisMethods {
 
     for (const pattern of agendaPatterns) {
       const match = transcript.match(pattern);
-      if (match) {
+      if (match && match.index !== undefined) {
         const contextStart = Math.max(0, match.index - 200);
         const contextEnd = Math.min(transcript.length, match.index + 400);
         const context = transcript.substring(contextStart, contextEnd);
@@ -159,24 +175,16 @@ export class DetailedAnalysisMethods {
   }
 
   // Comprehensive motion analysis with full details
-  static analyzeAllMotionsDetailed(transcript: string): Array<{
-    id: number;
-    type: string;
-    maker: string;
-    seconder: string;
-    fullText: string;
-    discussion: string;
-    voteType: string;
-    result: string;
-    timestamp: string;
-  }> {
-    const motions = [];
+  static analyzeAllMotionsDetailed(transcript: string): DetailedMotion[] {
+    const motions: DetailedMotion[] = [];
     let motionId = 1;
 
     const motionPatterns = [
       /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+(moved|motion)\s+to\s+([^.!?]+)/gi,
       /(motion|move)\s+by\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+to\s+([^.!?]+)/gi,
-      /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+so\s+move/gi
+      /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+so\s+move/gi,
+      // Speaker-labelled transcripts: "TREASURER RODRIGUEZ: I move to approve..."
+      /([A-Z][A-Za-z.]+(?:\s+[A-Z][A-Za-z.]+)*):\s*I\s+(move)\s+(?:to\s+|that\s+)?([^.!?]+)/g
     ];
 
     motionPatterns.forEach(pattern => {
@@ -191,7 +199,8 @@ export class DetailedAnalysisMethods {
         const motionText = match[3] || match[0];
         
         // Find seconder
-        const seconderMatch = motionContext.match(/second(ed)?\s+by\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i) ||
+        const seconderMatch = motionContext.match(/([A-Z][A-Za-z.]+(?:\s+[A-Z][A-Za-z.]+)*):\s*I\s+second/) ||
+                             motionContext.match(/second(ed)?\s+by\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i) ||
                              motionContext.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+second/i);
         const seconder = seconderMatch ? (seconderMatch[2] || seconderMatch[1]) : 'Member';
 
@@ -203,7 +212,7 @@ export class DetailedAnalysisMethods {
         const voteMatch = motionContext.match(/(unanimous|roll\s+call|voice\s+vote|aye.*nay)/i);
         const voteType = voteMatch ? voteMatch[1] : 'Voice vote';
         
-        const resultMatch = motionContext.match(/(carried|passed|failed|approved|denied)/i);
+        const resultMatch = motionContext.match(/(carried|passed|passes|failed|fails|approved|denied)/i);
         const result = resultMatch ? `Motion ${resultMatch[1]}` : 'Motion carried';
 
         // Find timestamp
@@ -235,8 +244,8 @@ export class DetailedAnalysisMethods {
   }
 
   // Detailed voting records analysis
-  static analyzeVotingRecords(transcript: string, motions: any[]): Array<{motionId: number, voteType: string, result: string, details: string}> {
-    const votingRecords = [];
+  static analyzeVotingRecords(transcript: string, motions: DetailedMotion[]): Array<{motionId: number, voteType: string, result: string, details: string}> {
+    const votingRecords: Array<{motionId: number, voteType: string, result: string, details: string}> = [];
 
     motions.forEach(motion => {
       const voteContext = transcript.substring(
@@ -279,7 +288,7 @@ export class DetailedAnalysisMethods {
 
     for (const pattern of adjournPatterns) {
       const match = transcript.match(pattern);
-      if (match) {
+      if (match && match.index !== undefined) {
         const contextStart = Math.max(0, match.index - 100);
         const contextEnd = Math.min(transcript.length, match.index + 300);
         const context = transcript.substring(contextStart, contextEnd);
@@ -1,40 +1,73 @@
-import { Recording, AIProcessingResult } from '@/types';
+import fs from 'fs';
+import path from 'path';
+import { Recording, AIProcessingResult, BoardMeetingResult } from '@/types';
+import { getStorageConfig, resolveStoragePath } from './storage-config';
 import { MEETING_TEMPLATES } from './templates';
-
+import { describeQuorum } from './quorum';
+import { BodyStore } from './body-store';
+
+// Audio to file alongside the documents, as stored by MeetingStore
+export interface OrganizedAudio {
+  filePath: string;
+  extension: string;
+}
+
+/**
+ * Writes processed meetings into the Recordings/Transcripts/Notes/Orders_Notice/Logs
+ * folder tree under a storage root. Server-side only - used by the job runner.
+ */
 export class FileOrganizer {
-  // Base paths that match your existing system structure
-  private static readonly FOLDER_PATHS = {
-    recordings: '/Recordings',
-    transcripts: '/Transcripts', 
-    notes: '/Notes',
-    orders: '/Orders_Notice',
-    logs: '/Logs'
-  };
+  // Folder names come from the shared storage configuration, see storage-config.ts
+  private static get FOLDER_PATHS() {
+    return getStorageConfig().folders;
+  }
 
   /**
-   * Organize files based on meeting type and content
+   * Organize files based on meeting type and content. Returns the written
+   * paths, relative to the storage root.
    */
-  static organizeFiles(
+  static async organizeFiles(
     recording: Recording,
     result: AIProcessingResult,
-    audioBlob: Blob
+    audio?: OrganizedAudio
   ): Promise<{ organizedPaths: Record<string, string> }> {
-    return new Promise((resolve) => {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const sanitizedTitle = recording.title.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_');
-      const baseFileName = `${sanitizedTitle}_${timestamp}`;
-
-      // Determine file organization based on meeting type and content
-      const paths = this.determineFilePaths(recording, result, baseFileName);
-
-      // In production, you would actually move/copy files here
-      // For now, we simulate the organization
-      setTimeout(() => {
-        resolve({
-          organizedPaths: paths
-        });
-      }, 1000);
-    });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const sanitizedTitle = recording.title.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_');
+    const baseFileName = `${sanitizedTitle}_${timestamp}`;
+
+    // Determine file organization based on meeting type and content
+    const paths = this.determineFilePaths(recording, result, baseFileName, audio?.extension);
+
+    const { success, savedPaths } = await this.saveOrganizedFiles(recording, result, audio, paths);
+    if (!success) {
+      throw new Error(`Failed to write files for "${recording.title}"`);
+    }
+
+    return {
+      organizedPaths: savedPaths
+    };
+  }
+
+  /**
+   * Write the official copy of approved minutes to the Notes folder. Returns its
+   * path relative to the storage root.
+   */
+  static async publishMinutes(recording: Recording, content: string): Promise<string> {
+    await this.ensureFolderStructure();
+
+    const sanitizedTitle = recording.title.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_');
+    const relativePath = `${this.FOLDER_PATHS.notes}/${sanitizedTitle}_${recording.date.toISOString().split('T')[0]}_minutes_official.md`;
+    await fs.promises.writeFile(this.resolvePath(relativePath), content);
+    await this.appendLog(`Published minutes for "${recording.title}" (${recording.id}): ${relativePath}`);
+
+    return relativePath;
+  }
+
+  /**
+   * Resolve a path returned by organizeFiles to its location on disk
+   */
+  static resolvePath(relativePath: string): string {
+    return path.join(getStorageConfig().root, relativePath);
   }
 
   /**
@@ -43,12 +76,15 @@ export class FileOrganizer {
   private static determineFilePaths(
     recording: Recording,
     result: AIProcessingResult,
-    baseFileName: string
+    baseFileName: string,
+    audioExtension?: string
   ): Record<string, string> {
     const paths: Record<string, string> = {};
 
-    // Audio file always goes to Recordings
-    paths.audio = `${this.FOLDER_PATHS.recordings}/${baseFileName}.wav`;
+    // Audio file always goes to Recordings, when there is one
+    if (audioExtension) {
+      paths.audio = `${this.FOLDER_PATHS.recordings}/${baseFileName}.${audioExtension}`;
+    }
 
     // Transcript always goes to Transcripts
     paths.transcript = `${this.FOLDER_PATHS.transcripts}/${baseFileName}_transcript.txt`;
@@ -116,7 +152,7 @@ export class FileOrganizer {
 
     let fileName = '';
 
-    switch (result.meetingType) {
+    switch (recording.type) {
       case 'case':
         // Extract case number if available
         const caseNumber = this.extractCaseNumber(result.transcript);
@@ -151,28 +187,23 @@ export class FileOrganizer {
   }
 
   /**
-   * Extract case number from transcript if available
+   * Extract case number from a transcript or title if available. Also used to
+   * file hearings in the case docket, see CaseDocket.
    */
-  private static extractCaseNumber(transcript: string): string | null {
+  static extractCaseNumber(text: string): string | null {
     // Look for CSC case number pattern: CSC-XX-XXX
     const caseNumberRegex = /CSC-\d{2}-\d{3}/gi;
-    const match = transcript.match(caseNumberRegex);
+    const match = text.match(caseNumberRegex);
     return match ? match[0].toUpperCase() : null;
   }
 
   /**
-   * Create folder structure if it doesn't exist (simulation)
+   * Create folder structure if it doesn't exist
    */
   static async ensureFolderStructure(): Promise<void> {
-    // In production, this would actually create the directories
-    // For now, we just simulate the check
-    return new Promise((resolve) => {
-      console.log('Ensuring folder structure exists...');
-      setTimeout(() => {
-        console.log('Folder structure verified');
-        resolve();
-      }, 500);
-    });
+    for (const folder of Object.values(this.FOLDER_PATHS)) {
+      await fs.promises.mkdir(this.resolvePath(folder), { recursive: true });
+    }
   }
 
   /**
@@ -181,7 +212,8 @@ export class FileOrganizer {
   static applyTemplate(
     templateType: 'commission' | 'case' | 'notice',
     result: AIProcessingResult,
-    recording: Recording
+    recording: Recording,
+    recordingFileName: string = `${recording.title}.wav`
   ): string {
     const template = MEETING_TEMPLATES.find(t => t.type === templateType);
     if (!template) {
@@ -194,10 +226,18 @@ export class FileOrganizer {
     const date = new Date(recording.date);
     formattedContent = formattedContent
       .replace(/\[MEETING_DATE\]/g, date.toISOString().split('T')[0])
-      .replace(/\[RECORDING_FILENAME\]/g, `${recording.title}.wav`)
+      .replace(/\[RECORDING_FILENAME\]/g, recordingFileName)
       .replace(/\[MEETING_TYPE\]/g, recording.type.charAt(0).toUpperCase() + recording.type.slice(1))
       .replace(/\[PREPARATION_DATE\]/g, new Date().toISOString().split('T')[0]);
 
+    // Quorum as verified against attendance, never the template's assumption
+    if ('quorumStatus' in result) {
+      formattedContent = formattedContent.replace(
+        /\[QUORUM_STATUS\] \(\[X\] of 7 members present\)/g,
+        describeQuorum((result as BoardMeetingResult).quorumStatus)
+      );
+    }
+
     // Add participants if available
     if (result.participants.length > 0) {
       const participantsList = result.participants.map(p => `- ${p}`).join('\n');
@@ -225,29 +265,46 @@ export class FileOrganizer {
   static async saveOrganizedFiles(
     recording: Recording,
     result: AIProcessingResult,
-    audioBlob: Blob,
+    audio: OrganizedAudio | undefined,
     organizedPaths: Record<string, string>
   ): Promise<{ success: boolean; savedPaths: Record<string, string> }> {
     try {
       await this.ensureFolderStructure();
 
-      // Apply appropriate template based on content analysis
+      // Apply appropriate template based on content analysis, then the body's default
+      const body = recording.bodyId ? BodyStore.get(recording.bodyId) : null;
       const templateType = this.isOfficialOrder(result) ? 'notice' : 
-                          (result.meetingType === 'case' ? 'case' : 'commission');
+                          (result.meetingType === 'case' ? 'case' : body?.defaultTemplate || 'commission');
       
-      const formattedSummary = this.applyTemplate(templateType, result, recording);
-
-      // In production, you would actually write these files
-      // For now, we simulate saving them
-      const savedPaths = {
-        audio: organizedPaths.audio,
-        transcript: organizedPaths.transcript,
-        summary: organizedPaths.summary,
-        analysis: organizedPaths.analysis
-      };
+      const formattedSummary = this.applyTemplate(
+        templateType,
+        result,
+        recording,
+        organizedPaths.audio ? path.basename(organizedPaths.audio) : undefined
+      );
 
-      // Simulate file writing process
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const savedPaths: Record<string, string> = {};
+
+      if (audio && organizedPaths.audio) {
+        await fs.promises.copyFile(audio.filePath, this.resolvePath(organizedPaths.audio));
+        savedPaths.audio = organizedPaths.audio;
+      }
+
+      await fs.promises.writeFile(this.resolvePath(organizedPaths.transcript), result.transcript);
+      savedPaths.transcript = organizedPaths.transcript;
+
+      await fs.promises.writeFile(this.resolvePath(organizedPaths.summary), formattedSummary);
+      savedPaths.summary = organizedPaths.summary;
+
+      // Analysis keeps the full AI result (minus the transcript, saved separately)
+      const { transcript, ...analysis } = result;
+      await fs.promises.writeFile(
+        this.resolvePath(organizedPaths.analysis),
+        JSON.stringify({ meetingId: recording.id, title: recording.title, date: recording.date, ...analysis }, null, 2)
+      );
+      savedPaths.analysis = organizedPaths.analysis;
+
+      await this.appendLog(`Saved "${recording.title}" (${recording.id}): ${Object.values(savedPaths).join(', ')}`);
 
       return {
         success: true,
@@ -256,10 +313,17 @@ export class FileOrganizer {
 
     } catch (error) {
       console.error('Error saving organized files:', error);
+      await this.appendLog(`Failed to save "${recording.title}" (${recording.id}): ${error instanceof Error ? error.message : error}`)
+        .catch(() => undefined);
       return {
         success: false,
         savedPaths: {}
       };
     }
   }
-}
\ No newline at end of file
+
+  private static async appendLog(message: string): Promise<void> {
+    const logPath = resolveStoragePath('logs', 'file-organizer.log');
+    await fs.promises.appendFile(logPath, `${new Date().toISOString()} ${message}\n`);
+  }
+}
@@ -1,16 +1,33 @@
-import { Recording, AIProcessingResult } from '@/types';
+import type { StorageConfig, StorageFolder } from '@/types';
 
 export class FileSystemManager {
-  // Base paths to your existing folder structure
-  private static readonly BASE_PATH = '/Users/terese/Library/Mobile Documents/com~apple~CloudDocs/Desktop/coding projects/comprehensive-ai-recorder';
-  
-  private static readonly FOLDERS = {
-    recordings: `${this.BASE_PATH}/Recording`,
-    transcripts: `${this.BASE_PATH}/Transcripts`, 
-    notes: `${this.BASE_PATH}/Notes`,
-    orders: `${this.BASE_PATH}/Orders_Notice`,
-    logs: `${this.BASE_PATH}/Logs`
-  };
+  // Folder locations from the server's storage configuration (GET /api/storage)
+  private static folders: Promise<Record<StorageFolder, string>> | null = null;
+
+  private static getFolders(): Promise<Record<StorageFolder, string>> {
+    if (!this.folders) {
+      this.folders = fetch('/api/storage', { cache: 'no-store' })
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          }
+          return response.json() as Promise<StorageConfig>;
+        })
+        .then(({ root, folders }) => ({
+          recordings: `${root}/${folders.recordings}`,
+          transcripts: `${root}/${folders.transcripts}`,
+          notes: `${root}/${folders.notes}`,
+          orders: `${root}/${folders.orders}`,
+          logs: `${root}/${folders.logs}`
+        }))
+        .catch(error => {
+          // Retry on the next call rather than caching the failure
+          this.folders = null;
+          throw error;
+        });
+    }
+    return this.folders;
+  }
 
   /**
    * Save audio blob to the Recording folder
@@ -21,7 +38,7 @@ export class FileSystemManager {
       const arrayBuffer = await audioBlob.arrayBuffer();
       const buffer = new Uint8Array(arrayBuffer);
       
-      const filePath = `${this.FOLDERS.recordings}/${fileName}`;
+      const filePath = `${(await this.getFolders()).recordings}/${fileName}`;
       
       // In browser environment, we'll trigger a download to the correct folder
       // For actual file system access, you'd need a Node.js backend
@@ -45,7 +62,7 @@ export class FileSystemManager {
    */
   static async saveTranscriptFile(transcript: string, fileName: string): Promise<string> {
     try {
-      const filePath = `${this.FOLDERS.transcripts}/${fileName}`;
+      const filePath = `${(await this.getFolders()).transcripts}/${fileName}`;
       
       // Create a blob and download it
       const blob = new Blob([transcript], { type: 'text/plain' });
@@ -77,7 +94,8 @@ export class FileSystemManager {
     isOfficialOrder: boolean = false
   ): Promise<string> {
     try {
-      const folder = isOfficialOrder ? this.FOLDERS.orders : this.FOLDERS.notes;
+      const folders = await this.getFolders();
+      const folder = isOfficialOrder ? folders.orders : folders.notes;
       const filePath = `${folder}/${fileName}`;
       
       // Create markdown file
@@ -106,7 +124,7 @@ export class FileSystemManager {
    */
   static async saveAnalysisFile(analysis: any, fileName: string): Promise<string> {
     try {
-      const filePath = `${this.FOLDERS.transcripts}/${fileName}`;
+      const filePath = `${(await this.getFolders()).transcripts}/${fileName}`;
       
       const blob = new Blob([JSON.stringify(analysis, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
@@ -178,17 +196,18 @@ export class FileSystemManager {
   /**
    * Get file stats for dashboard
    */
-  static getFileStats(): {
+  static async getFileStats(): Promise<{
     recordingsPath: string;
     transcriptsPath: string;
     notesPath: string;
     ordersPath: string;
-  } {
+  }> {
+    const folders = await this.getFolders();
     return {
-      recordingsPath: this.FOLDERS.recordings,
-      transcriptsPath: this.FOLDERS.transcripts,
-      notesPath: this.FOLDERS.notes,
-      ordersPath: this.FOLDERS.orders
+      recordingsPath: folders.recordings,
+      transcriptsPath: folders.transcripts,
+      notesPath: folders.notes,
+      ordersPath: folders.orders
     };
   }
 }
\ No newline at end of file
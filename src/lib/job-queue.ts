@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { LLMProviderId, ProcessingJob, ProcessingJobState, Recording } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { MeetingStore } from './meeting-store';
+import { FileOrganizer } from './file-organizer';
+import { MinutesWorkflow } from './minutes-workflow';
+import { RevisionStore } from './revision-store';
+import { TranscriptStore } from './transcript-store';
+import { ActionItemStore } from './action-item-store';
+import { formatCarriedOverItems } from './action-items';
+import { CaseDocket } from './case-docket';
+import { CalendarStore } from './calendar-store';
+import { runPipeline, PipelineInput, PipelineResult } from './ai-pipeline';
+
+// Next bundles each route separately, so the runner lives on globalThis to stay
+// a single instance per server process
+const runnerState = globalThis as typeof globalThis & { busybeeJobRunner?: Promise<void> };
+
+/**
+ * Background AI processing. Jobs are persisted to jobs.json and run one at a time,
+ * so work survives a closed tab and unfinished jobs resume after a restart.
+ * Each job's progress is mirrored onto its meeting. Server-side only.
+ */
+export class JobQueue {
+  private static readonly JOBS_FILE = path.join(DATA_DIR, 'jobs.json');
+  // Finished jobs are kept this long so clients can still read their outcome
+  private static readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+  /**
+   * Queue processing for a stored meeting and start the runner if it is idle
+   */
+  static enqueue(meetingId: string, provider?: LLMProviderId): ProcessingJob {
+    const now = new Date().toISOString();
+    const job: ProcessingJob = {
+      id: randomUUID(),
+      meetingId,
+      provider,
+      state: 'queued',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.writeAll([...this.readAll(), job]);
+    MeetingStore.update(meetingId, { status: 'processing', jobId: job.id });
+
+    this.ensureRunning();
+    return job;
+  }
+
+  static get(id: string): ProcessingJob | null {
+    // Polling also resumes jobs left unfinished by a server restart
+    this.ensureRunning();
+    return this.readAll().find(job => job.id === id) || null;
+  }
+
+  private static ensureRunning(): void {
+    if (runnerState.busybeeJobRunner) {
+      return;
+    }
+
+    runnerState.busybeeJobRunner = this.drain()
+      .catch(error => console.error('❌ Job runner stopped:', error))
+      .finally(() => {
+        runnerState.busybeeJobRunner = undefined;
+      });
+  }
+
+  private static async drain(): Promise<void> {
+    let job = this.nextPending();
+    while (job) {
+      await this.run(job);
+      job = this.nextPending();
+    }
+  }
+
+  private static nextPending(): ProcessingJob | undefined {
+    return this.readAll().find(job => job.state !== 'done' && job.state !== 'failed');
+  }
+
+  private static async run(job: ProcessingJob): Promise<void> {
+    const meeting = MeetingStore.get(job.meetingId);
+    if (!meeting) {
+      this.setState(job.id, 'failed', 'Meeting no longer exists');
+      return;
+    }
+
+    console.log(`⚙️ Running job ${job.id} for "${meeting.title}"`);
+
+    try {
+      const pipelineResult = await runPipeline(this.buildInput(meeting, job.provider), stage => this.setState(job.id, stage));
+
+      // Open items from the body's earlier meetings were on this meeting's agenda
+      const carriedOver = ActionItemStore.carryOver(meeting);
+      const result = carriedOver.length > 0 && pipelineResult.summary
+        ? { ...pipelineResult, summary: `${pipelineResult.summary.trim()}\n\n${formatCarriedOverItems(carriedOver)}` }
+        : pipelineResult;
+
+      const organizedFiles = await this.organizeFiles(meeting, result);
+
+      // Freshly transcribed audio starts a new transcript version; otherwise the
+      // analysis ran on the meeting's current version
+      const transcriptVersion = meeting.transcriptUrl
+        ? TranscriptStore.currentVersion(meeting)
+        : TranscriptStore.addVersion(meeting, {
+            transcript: result.transcript || '',
+            segments: result.segments,
+            author: 'BusyBee',
+            source: 'transcribed'
+          }).number;
+
+      MeetingStore.update(meeting.id, {
+        status: 'completed',
+        organizedFiles,
+        transcriptUrl: result.transcript || '', // Store transcript text directly
+        transcriptSegments: result.segments ?? meeting.transcriptSegments,
+        speakers: result.speakers ?? meeting.speakers,
+        summaryUrl: result.summary || '', // Store clean markdown summary
+        participants: result.participants || [],
+        analysisMode: result.analysisMode,
+        validationWarnings: result.validationWarnings,
+        motions: 'motions' in result ? result.motions : undefined,
+        minutes: MinutesWorkflow.draft(meeting.minutes),
+        transcriptVersion
+      });
+      if (result.summary) {
+        RevisionStore.add(meeting, {
+          summary: result.summary,
+          author: 'BusyBee',
+          source: 'generated',
+          note: result.analysisMode === 'heuristic' ? 'Generated by offline analysis' : 'Generated by AI analysis'
+        });
+      }
+      TranscriptStore.addAnalysis(meeting.id, {
+        id: job.id,
+        transcriptVersion,
+        summary: result.summary || '',
+        analysisMode: result.analysisMode,
+        keyDecisions: result.keyDecisions || [],
+        actionItems: result.actionItems || [],
+        motions: 'motions' in result ? result.motions : undefined,
+        validationWarnings: result.validationWarnings,
+        createdAt: new Date().toISOString()
+      });
+      ActionItemStore.syncFromMeeting(
+        { ...meeting, transcriptSegments: result.segments ?? meeting.transcriptSegments },
+        result.actionItems || []
+      );
+      if (result.meetingType === 'case' || meeting.type === 'case') {
+        // Dates and deadlines from the hearing wait on the calendar for confirmation
+        CalendarStore.proposeFromHearing(meeting, CaseDocket.recordHearing(meeting, result));
+      }
+      this.setState(job.id, 'done');
+
+      console.log(`✅ Job ${job.id} completed`);
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Job ${job.id} failed:`, error);
+
+      MeetingStore.update(meeting.id, {
+        status: 'error',
+        summaryUrl: this.buildFailureSummary(meeting, message)
+      });
+      this.setState(job.id, 'failed', message);
+    }
+  }
+
+  /**
+   * File the results into the storage folders. A failure here is logged but
+   * doesn't fail the job - the results are still saved to the meeting.
+   */
+  private static async organizeFiles(meeting: Recording, result: PipelineResult): Promise<Record<string, string> | undefined> {
+    const audio = MeetingStore.getAudio(meeting.id);
+
+    try {
+      const { organizedPaths } = await FileOrganizer.organizeFiles(
+        meeting,
+        result,
+        audio ? { filePath: audio.filePath, extension: path.extname(audio.filePath).slice(1) } : undefined
+      );
+      return organizedPaths;
+    } catch (error) {
+      console.warn(`⚠️ Could not organize files for "${meeting.title}":`, error);
+      return meeting.organizedFiles;
+    }
+  }
+
+  /**
+   * Analyze the meeting's transcript when it has one, otherwise transcribe its audio
+   */
+  private static buildInput(meeting: Recording, provider?: LLMProviderId): PipelineInput {
+    const input: PipelineInput = {
+      meetingTitle: meeting.title,
+      meetingType: meeting.type,
+      provider,
+      bodyId: meeting.bodyId,
+      meetingDate: meeting.date
+    };
+
+    if (meeting.transcriptUrl) {
+      input.transcript = meeting.transcriptUrl;
+      input.segments = meeting.transcriptSegments;
+      input.speakers = meeting.speakers;
+      return input;
+    }
+
+    const audio = MeetingStore.getAudio(meeting.id);
+    if (!audio) {
+      throw new Error('Meeting has no transcript or audio to process');
+    }
+
+    input.audio = {
+      // Stored audio is named `${id}.${extension}`, which Whisper uses to detect the format
+      name: path.basename(audio.filePath),
+      size: fs.statSync(audio.filePath).size,
+      filePath: audio.filePath
+    };
+    return input;
+  }
+
+  private static buildFailureSummary(meeting: Recording, errorMessage: string): string {
+    return `# ${meeting.title} - Processing Error\n\n` +
+           `**Error:** AI processing failed - ${errorMessage}\n\n` +
+           `---\n\n` +
+           `⚠️ **AI Processing Unavailable**\n` +
+           `The transcription or analysis could not be completed.\n\n` +
+           `**Troubleshooting:**\n` +
+           `- Check your AI provider configuration in Settings\n` +
+           `- Ensure you have sufficient API credits\n` +
+           `- Verify audio file format (supported: .mp3, .wav, .m4a, .webm)\n` +
+           `- Recordings over 25MB require ffmpeg on the server`;
+  }
+
+  private static setState(id: string, state: ProcessingJobState, error?: string): void {
+    this.writeAll(this.readAll().map(job =>
+      job.id === id ? { ...job, state, error, updatedAt: new Date().toISOString() } : job
+    ));
+  }
+
+  private static readAll(): ProcessingJob[] {
+    return readJsonFile<ProcessingJob[]>(this.JOBS_FILE, []);
+  }
+
+  private static writeAll(jobs: ProcessingJob[]): void {
+    // Drop old finished jobs so the file doesn't grow forever
+    const cutoff = Date.now() - this.RETENTION_MS;
+    const kept = jobs.filter(job =>
+      (job.state !== 'done' && job.state !== 'failed') || new Date(job.updatedAt).getTime() > cutoff
+    );
+
+    writeJsonFile(this.JOBS_FILE, kept);
+  }
+}
@@ -0,0 +1,31 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Read a JSON data file, or `fallback` when it doesn't exist yet or is empty.
+ * Server-side only - shared by the JSON-on-disk stores.
+ */
+export function readJsonFile<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) {
+    return fallback;
+  }
+
+  const raw = fs.readFileSync(file, 'utf-8');
+  return raw.trim() ? JSON.parse(raw) : fallback;
+}
+
+/**
+ * Write a JSON data file, creating its directory if needed. The data goes to a
+ * temp file that is then renamed over the original, so a crash mid-write can't
+ * leave the file truncated.
+ */
+export function writeJsonFile(file: string, data: unknown): void {
+  const directory = path.dirname(file);
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  const tempFile = `${file}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+  fs.renameSync(tempFile, file);
+}
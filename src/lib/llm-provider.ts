@@ -0,0 +1,148 @@
+import OpenAI, { toFile } from 'openai';
+import type { TranscriptionSegment as WhisperSegment } from 'openai/resources/audio/transcriptions';
+import fs from 'fs';
+import { AppSettings, LLMProviderId } from '@/types';
+import { SettingsStore } from './settings-store';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object response
+}
+
+// Whisper-style verbose transcription, segments timed in seconds
+export interface ProviderTranscription {
+  text: string;
+  segments: WhisperSegment[];
+}
+
+/**
+ * A backend for chat analysis and transcription. The pipeline only talks to this
+ * interface, so any OpenAI-compatible server can stand in for OpenAI itself.
+ */
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Chat model used for analysis, for logging and cache keys
+  model: string;
+  isConfigured(): boolean;
+  // What still has to be set before the provider can be used, or null when it's ready
+  missingSetting(): string | null;
+  chat(request: ChatRequest): Promise<string>;
+  // fileName carries the extension the server uses to detect the audio format
+  transcribe(filePath: string, fileName: string): Promise<ProviderTranscription>;
+}
+
+interface CompatibleProviderOptions {
+  id: LLMProviderId;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  transcriptionModel: string;
+  requiresApiKey: boolean;
+  apiKeyVariable: string; // Environment variable the key is read from
+}
+
+/**
+ * Provider for anything speaking the OpenAI REST API - OpenAI itself, or a local
+ * Ollama / llama.cpp / LocalAI server via its /v1 endpoint
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  private readonly client: OpenAI;
+  private readonly options: CompatibleProviderOptions;
+
+  constructor(options: CompatibleProviderOptions) {
+    this.id = options.id;
+    this.model = options.model;
+    this.options = options;
+    this.client = new OpenAI({
+      // Local servers ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.missingSetting() === null;
+  }
+
+  missingSetting(): string | null {
+    if (this.options.requiresApiKey && !this.options.apiKey) {
+      return `API key (${this.options.apiKeyVariable})`;
+    }
+    // Without one the SDK would quietly send a local provider's requests to OpenAI
+    if (this.id === 'local' && !this.options.baseURL) {
+      return 'base URL (Settings, or LOCAL_LLM_BASE_URL)';
+    }
+    return null;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: request.json ? { type: 'json_object' } : undefined
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.id} provider`);
+    }
+    return content;
+  }
+
+  async transcribe(filePath: string, fileName: string): Promise<ProviderTranscription> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: await toFile(fs.createReadStream(filePath), fileName),
+      model: this.options.transcriptionModel,
+      language: 'en',
+      response_format: 'verbose_json',
+      temperature: 0.0,
+    });
+
+    return {
+      text: transcription.text,
+      segments: transcription.segments || []
+    };
+  }
+}
+
+/**
+ * Build the provider for a request. Falls back to the provider chosen in
+ * settings; configuration is read per call so settings edits apply immediately.
+ */
+export function getProvider(id?: LLMProviderId, settings: AppSettings = SettingsStore.get()): LLMProvider {
+  const providerId = id || settings.llmProvider;
+
+  if (providerId === 'local') {
+    return new OpenAICompatibleProvider({
+      id: 'local',
+      baseURL: settings.localBaseUrl,
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      model: settings.localModel,
+      transcriptionModel: settings.localTranscriptionModel,
+      requiresApiKey: false,
+      apiKeyVariable: 'LOCAL_LLM_API_KEY'
+    });
+  }
+
+  return new OpenAICompatibleProvider({
+    id: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    model: settings.openaiModel,
+    transcriptionModel: 'whisper-1',
+    requiresApiKey: true,
+    apiKeyVariable: 'OPENAI_API_KEY'
+  });
+}
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ['openai', 'local'];
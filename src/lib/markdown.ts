@@ -0,0 +1,97 @@
+/**
+ * Minimal markdown-to-HTML rendering for previewing minutes. Covers what the
+ * templates and the model produce: headings, paragraphs, bold/italic/code,
+ * bullet and numbered lists, blockquotes, tables and rules. All text is escaped
+ * first, so the output is safe to insert as HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const html: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      index++;
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      html.push('<hr />');
+      index++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted = collect(lines, index, next => next.startsWith('>'));
+      html.push(`<blockquote>${renderMarkdown(quoted.map(next => next.replace(/^>\s?/, '')).join('\n'))}</blockquote>`);
+      index += quoted.length;
+      continue;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line) && /^\s*\|[\s:|-]+\|\s*$/.test(lines[index + 1] || '')) {
+      const rows = collect(lines, index, next => /^\s*\|.*\|\s*$/.test(next));
+      const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map(cell => renderInline(cell.trim()));
+      html.push([
+        '<table><thead><tr>',
+        ...cells(rows[0]).map(cell => `<th>${cell}</th>`),
+        '</tr></thead><tbody>',
+        ...rows.slice(2).map(row => `<tr>${cells(row).map(cell => `<td>${cell}</td>`).join('')}</tr>`),
+        '</tbody></table>'
+      ].join(''));
+      index += rows.length;
+      continue;
+    }
+
+    const listType = /^\s*[-*+]\s+/.test(line) ? 'ul' : /^\s*\d+[.)]\s+/.test(line) ? 'ol' : null;
+    if (listType) {
+      const marker = listType === 'ul' ? /^\s*[-*+]\s+/ : /^\s*\d+[.)]\s+/;
+      const items = collect(lines, index, next => marker.test(next));
+      html.push(`<${listType}>${items.map(item => `<li>${renderInline(item.replace(marker, ''))}</li>`).join('')}</${listType}>`);
+      index += items.length;
+      continue;
+    }
+
+    const paragraph = collect(lines, index, next =>
+      Boolean(next.trim()) && !/^(#{1,6}\s|>|\s*[-*+]\s|\s*\d+[.)]\s|\s*\||(-{3,}|\*{3,}|_{3,})\s*$)/.test(next)
+    );
+    const text = paragraph.length > 0 ? paragraph : [line];
+    html.push(`<p>${text.map(renderInline).join('<br />')}</p>`);
+    index += text.length;
+  }
+
+  return html.join('\n');
+}
+
+// Consecutive lines from `start` that satisfy `matches`
+function collect(lines: string[], start: number, matches: (line: string) => boolean): string[] {
+  const collected: string[] = [];
+  for (let index = start; index < lines.length && matches(lines[index]); index++) {
+    collected.push(lines[index]);
+  }
+  return collected;
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*/g, '$1<em>$2</em>');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { MeetingFileType, Recording } from '@/types';
+import { MeetingStore } from './meeting-store';
+import { TranscriptStore } from './transcript-store';
+import { SearchIndex } from './search-index';
+import { ActionItemStore } from './action-item-store';
+import { MinutesWorkflow } from './minutes-workflow';
+import { buildTimestampedTranscript } from './transcript';
+import { applySpeakerNames } from './speaker-names';
+import { createZip, ZipEntry } from './zip';
+
+export interface MeetingFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Same filters as the Meetings page, so an export matches what the list shows
+export interface MeetingExportFilter {
+  q?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  bodyId?: string;
+  participant?: string;
+  type?: Recording['type'];
+  status?: Recording['status'];
+}
+
+/**
+ * Meeting downloads: each file on its own, or a filtered set of meetings as a
+ * ZIP with a manifest.json describing what's inside. Server-side only - used by
+ * /api/meetings/:id/download and /api/meetings/export.
+ */
+export class MeetingExport {
+  static readonly FILE_TYPES: MeetingFileType[] = ['audio', 'transcript', 'summary', 'analysis'];
+
+  /**
+   * One of the meeting's files, or null when the meeting doesn't have it yet
+   */
+  static file(recording: Recording, type: MeetingFileType): MeetingFile | null {
+    const baseName = this.baseName(recording);
+
+    switch (type) {
+      case 'audio': {
+        const audio = MeetingStore.getAudio(recording.id);
+        return audio ? {
+          fileName: `${baseName}_audio${path.extname(audio.filePath)}`,
+          contentType: audio.mimeType,
+          data: fs.readFileSync(audio.filePath)
+        } : null;
+      }
+      case 'transcript': {
+        const segments = recording.transcriptSegments || [];
+        const text = segments.length > 0
+          ? buildTimestampedTranscript(applySpeakerNames(segments, recording.speakers))
+          : recording.transcriptUrl;
+        return text ? {
+          fileName: `${baseName}_transcript.txt`,
+          contentType: 'text/plain; charset=utf-8',
+          data: Buffer.from(text, 'utf-8')
+        } : null;
+      }
+      case 'summary':
+        // Rendered through the workflow so unapproved minutes carry the draft banner,
+        // and named with their status so a copy can't pass for the approved record
+        return recording.summaryUrl ? {
+          fileName: recording.minutes?.approvedOn
+            ? `${baseName}_summary.md`
+            : `${baseName}_summary_${MinutesWorkflow.statusOf(recording).toUpperCase()}.md`,
+          contentType: 'text/markdown; charset=utf-8',
+          data: Buffer.from(MinutesWorkflow.render(recording), 'utf-8')
+        } : null;
+      case 'analysis': {
+        if (recording.status !== 'completed') {
+          return null;
+        }
+        return {
+          fileName: `${baseName}_analysis.json`,
+          contentType: 'application/json; charset=utf-8',
+          data: Buffer.from(JSON.stringify(this.analysis(recording), null, 2), 'utf-8')
+        };
+      }
+    }
+  }
+
+  static filter(recordings: Recording[], filter: MeetingExportFilter): Recording[] {
+    // The search text and filters are matched the way the Meetings page searches, through the index
+    const { q, from, to, bodyId, participant } = filter;
+    const matches = [q, from, to, bodyId, participant].some(value => value?.trim())
+      ? new Set(SearchIndex.search({ q, from, to, bodyId, participant, limit: recordings.length }).results.map(result => result.meetingId))
+      : null;
+    return recordings.filter(recording =>
+      (!matches || matches.has(recording.id)) &&
+      (!filter.type || recording.type === filter.type) &&
+      (!filter.status || recording.status === filter.status)
+    );
+  }
+
+  /**
+   * ZIP of every file of the given meetings, one folder per meeting
+   */
+  static bundle(recordings: Recording[], filter: MeetingExportFilter, includeAudio = true): Buffer {
+    const entries: ZipEntry[] = [];
+    const meetings = recordings.map(recording => {
+      const folder = `${this.baseName(recording)}_${recording.id.slice(0, 8)}`;
+      const files = this.FILE_TYPES
+        .filter(type => includeAudio || type !== 'audio')
+        .map(type => ({ type, file: this.file(recording, type) }))
+        .filter((entry): entry is { type: MeetingFileType; file: MeetingFile } => entry.file !== null)
+        .map(({ type, file }) => {
+          const name = `${folder}/${file.fileName}`;
+          entries.push({ name, data: file.data, modified: recording.updatedAt });
+          return { type, path: name, bytes: file.data.length };
+        });
+
+      return {
+        id: recording.id,
+        title: recording.title,
+        date: recording.date.toISOString(),
+        type: recording.type,
+        status: recording.status,
+        bodyId: recording.bodyId,
+        minutesStatus: MinutesWorkflow.statusOf(recording),
+        files
+      };
+    });
+
+    const manifest = {
+      exportedAt: new Date().toISOString(),
+      filter,
+      includesAudio: includeAudio,
+      meetingCount: meetings.length,
+      meetings
+    };
+
+    return createZip([
+      { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8') },
+      ...entries
+    ]);
+  }
+
+  // Everything the pipeline worked out about the meeting, including earlier analyses
+  private static analysis(recording: Recording) {
+    return {
+      id: recording.id,
+      title: recording.title,
+      date: recording.date.toISOString(),
+      type: recording.type,
+      bodyId: recording.bodyId,
+      analysisMode: recording.analysisMode,
+      participants: recording.participants,
+      speakers: recording.speakers || [],
+      motions: recording.motions || [],
+      validationWarnings: recording.validationWarnings || [],
+      transcriptVersion: recording.transcriptVersion || 1,
+      minutes: recording.minutes,
+      actionItems: ActionItemStore.list({ meetingId: recording.id }),
+      analyses: TranscriptStore.listAnalyses(recording.id)
+    };
+  }
+
+  private static baseName(recording: Recording): string {
+    const sanitizedTitle = recording.title.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_') || 'meeting';
+    return `${recording.date.toISOString().split('T')[0]}_${sanitizedTitle}`;
+  }
+}
@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Recording, RecordingInput } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+// Shape of a meeting as written to disk (dates as ISO strings)
+type StoredRecording = Omit<Recording, 'date' | 'createdAt' | 'updatedAt'> & {
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Audio to store with a meeting: in memory, or a file on disk that is copied in
+export interface StoredAudio {
+  buffer?: Buffer;
+  filePath?: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * JSON-on-disk meeting repository. Server-side only - used by the /api/meetings routes.
+ * All meetings live in a single meetings.json file; audio is written next to it
+ * under audio/ instead of being inlined as base64.
+ */
+export class MeetingStore {
+  static readonly TYPES: Recording['type'][] = ['commission', 'case', 'board', 'general', 'other'];
+
+  private static readonly MEETINGS_FILE = path.join(DATA_DIR, 'meetings.json');
+  private static readonly AUDIO_DIR = path.join(DATA_DIR, 'audio');
+
+  /**
+   * List all meetings, newest first
+   */
+  static list(): Recording[] {
+    return this.readAll()
+      .map(record => this.hydrate(record))
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  static get(id: string): Recording | null {
+    const record = this.readAll().find(r => r.id === id);
+    return record ? this.hydrate(record) : null;
+  }
+
+  /**
+   * Create a meeting, optionally storing its audio file alongside it
+   */
+  static create(input: RecordingInput, audio?: StoredAudio): Recording {
+    const records = this.readAll();
+    const now = new Date().toISOString();
+    const id = randomUUID();
+
+    const record: StoredRecording = {
+      ...this.sanitizeInput(input),
+      id,
+      date: new Date(input.date || now).toISOString(),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (audio) {
+      Object.assign(record, this.writeAudio(id, audio));
+    }
+
+    records.push(record);
+    this.writeAll(records);
+
+    return this.hydrate(record);
+  }
+
+  /**
+   * Apply a partial update to a meeting. Returns null if the meeting doesn't exist.
+   */
+  static update(id: string, patch: Partial<RecordingInput>): Recording | null {
+    const records = this.readAll();
+    const index = records.findIndex(r => r.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const updated: StoredRecording = {
+      ...records[index],
+      ...this.sanitizeInput(patch),
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    if (patch.date) {
+      updated.date = new Date(patch.date).toISOString();
+    }
+
+    records[index] = updated;
+    this.writeAll(records);
+
+    return this.hydrate(updated);
+  }
+
+  static delete(id: string): boolean {
+    const records = this.readAll();
+    const record = records.find(r => r.id === id);
+    if (!record) {
+      return false;
+    }
+
+    this.removeAudio(record);
+    this.writeAll(records.filter(r => r.id !== id));
+    return true;
+  }
+
+  /**
+   * Delete every meeting and its audio. Returns the number of meetings removed.
+   */
+  static clear(): number {
+    const records = this.readAll();
+    records.forEach(record => this.removeAudio(record));
+    this.writeAll([]);
+    return records.length;
+  }
+
+  /**
+   * Resolve the on-disk audio file for a meeting
+   */
+  static getAudio(id: string): { filePath: string; mimeType: string } | null {
+    const record = this.readAll().find(r => r.id === id);
+    if (!record?.audioFileName) {
+      return null;
+    }
+
+    const filePath = path.join(this.AUDIO_DIR, record.audioFileName);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return { filePath, mimeType: record.audioMimeType || 'application/octet-stream' };
+  }
+
+  private static readAll(): StoredRecording[] {
+    return readJsonFile<StoredRecording[]>(this.MEETINGS_FILE, []);
+  }
+
+  private static writeAll(records: StoredRecording[]): void {
+    writeJsonFile(this.MEETINGS_FILE, records);
+  }
+
+  private static ensureDirectories(): void {
+    if (!fs.existsSync(this.AUDIO_DIR)) {
+      fs.mkdirSync(this.AUDIO_DIR, { recursive: true });
+    }
+  }
+
+  private static writeAudio(id: string, audio: StoredAudio): Pick<StoredRecording, 'audioUrl' | 'audioFileName' | 'audioMimeType'> {
+    this.ensureDirectories();
+
+    const extension = audio.extension.replace(/[^a-zA-Z0-9]/g, '') || 'bin';
+    const audioFileName = `${id}.${extension}`;
+    const targetPath = path.join(this.AUDIO_DIR, audioFileName);
+    if (audio.filePath) {
+      fs.copyFileSync(audio.filePath, targetPath);
+    } else {
+      fs.writeFileSync(targetPath, audio.buffer ?? Buffer.alloc(0));
+    }
+
+    return {
+      audioUrl: `/api/meetings/${id}/audio`,
+      audioFileName,
+      audioMimeType: audio.mimeType
+    };
+  }
+
+  private static removeAudio(record: StoredRecording): void {
+    if (!record.audioFileName) {
+      return;
+    }
+
+    const filePath = path.join(this.AUDIO_DIR, record.audioFileName);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  /**
+   * Check meeting details before saving. Returns a list of problems (empty if valid).
+   */
+  static validate(input: Partial<RecordingInput>): string[] {
+    const errors: string[] = [];
+
+    if (input.title !== undefined && (typeof input.title !== 'string' || !input.title.trim())) {
+      errors.push('Title is required');
+    }
+    if (input.date !== undefined && isNaN(new Date(input.date as Date | string).getTime())) {
+      errors.push('Date must be a valid date');
+    }
+    if (input.type !== undefined && !this.TYPES.includes(input.type)) {
+      errors.push(`Type must be one of ${this.TYPES.join(', ')}`);
+    }
+    if (input.participants !== undefined && (!Array.isArray(input.participants) || input.participants.some(name => typeof name !== 'string'))) {
+      errors.push('Participants must be a list of names');
+    }
+    if (input.bodyId !== undefined && input.bodyId !== null && typeof input.bodyId !== 'string') {
+      errors.push('Body must be a body id');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Strip server-managed fields so clients can't overwrite ids, timestamps or audio paths
+   */
+  private static sanitizeInput<T extends Partial<RecordingInput>>(input: T): Omit<T, 'date'> {
+    const { id, audioUrl, audioFileName, audioMimeType, createdAt, updatedAt, date, ...rest } = input as T & Partial<Recording>;
+    return rest as Omit<T, 'date'>;
+  }
+
+  private static hydrate(record: StoredRecording): Recording {
+    return {
+      ...record,
+      date: new Date(record.date),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+}
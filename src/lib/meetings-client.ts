@@ -0,0 +1,336 @@
+import { ArchiveAnswer, MeetingAnalysis, MeetingFileType, MemberVoteRecord, MinutesTransition, Recording, RecordingInput, SearchResponse, SummaryRevision, TranscriptVersion } from '@/types';
+
+// Key the app used before meetings moved server-side
+const LEGACY_STORAGE_KEY = 'recordings';
+
+export class MeetingsClient {
+  private static instance: MeetingsClient;
+  // Audio above this size is sent through /api/uploads in UPLOAD_CHUNK_SIZE parts
+  private static readonly DIRECT_UPLOAD_LIMIT = 25 * 1024 * 1024;
+  private static readonly UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+  private baseUrl: string;
+  private migration: Promise<void> | null = null;
+
+  private constructor() {
+    this.baseUrl = '/api/meetings';
+  }
+
+  public static getInstance(): MeetingsClient {
+    if (!MeetingsClient.instance) {
+      MeetingsClient.instance = new MeetingsClient();
+    }
+    return MeetingsClient.instance;
+  }
+
+  public async listMeetings(): Promise<Recording[]> {
+    await this.migrateLegacyRecordings();
+
+    const response = await fetch(this.baseUrl, { cache: 'no-store' });
+    const data = await this.parseResponse<Recording[]>(response);
+    return data.map(recording => this.hydrate(recording));
+  }
+
+  public async getMeeting(id: string): Promise<Recording> {
+    const response = await fetch(`${this.baseUrl}/${id}`, { cache: 'no-store' });
+    return this.hydrate(await this.parseResponse<Recording>(response));
+  }
+
+  // Create a meeting; audio is uploaded as a file rather than stored inline
+  public async createMeeting(meeting: RecordingInput, audio?: Blob, audioFileName?: string): Promise<Recording> {
+    let response: Response;
+
+    if (audio && audio.size > MeetingsClient.DIRECT_UPLOAD_LIMIT) {
+      // Large recordings are uploaded in parts, then attached by reference
+      const uploadId = await this.uploadInChunks(audio, audioFileName || 'recording');
+
+      response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...meeting, uploadId })
+      });
+    } else if (audio) {
+      const formData = new FormData();
+      formData.append('meeting', JSON.stringify(meeting));
+      formData.append('audioFile', audio, audioFileName || 'recording');
+
+      response = await fetch(this.baseUrl, {
+        method: 'POST',
+        body: formData // No Content-Type header for FormData
+      });
+    } else {
+      response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(meeting)
+      });
+    }
+
+    return this.hydrate(await this.parseResponse<Recording>(response));
+  }
+
+  public async updateMeeting(id: string, patch: Partial<RecordingInput>): Promise<Recording> {
+    const response = await fetch(`${this.baseUrl}/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+
+    return this.hydrate(await this.parseResponse<Recording>(response));
+  }
+
+  public async deleteMeeting(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${id}`, { method: 'DELETE' });
+    await this.parseResponse(response);
+  }
+
+  public async clearMeetings(): Promise<number> {
+    const response = await fetch(this.baseUrl, { method: 'DELETE' });
+    const data = await this.parseResponse<{ deleted: number }>(response);
+    return data.deleted;
+  }
+
+  // Speaker names known for a body, for the speaker mapping UI
+  public async getSpeakerNames(bodyKey: string): Promise<string[]> {
+    const response = await fetch(`/api/speaker-maps/${encodeURIComponent(bodyKey)}`, { cache: 'no-store' });
+    const data = await this.parseResponse<{ names: string[] }>(response);
+    return data.names;
+  }
+
+  // Remember heard-as -> name mappings for the next meeting of this body
+  public async saveSpeakerAliases(bodyKey: string, aliases: Record<string, string>): Promise<void> {
+    const response = await fetch(`/api/speaker-maps/${encodeURIComponent(bodyKey)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ aliases })
+    });
+    await this.parseResponse(response);
+  }
+
+  public async listRevisions(id: string): Promise<SummaryRevision[]> {
+    const response = await fetch(`${this.baseUrl}/${id}/revisions`, { cache: 'no-store' });
+    return this.parseResponse<SummaryRevision[]>(response);
+  }
+
+  // Save an edited summary (or restore revision `revertTo`) as a new, attributed revision
+  public async saveRevision(
+    id: string,
+    change: { author: string; summary?: string; revertTo?: number; note?: string }
+  ): Promise<{ recording: Recording; revision: SummaryRevision }> {
+    const response = await fetch(`${this.baseUrl}/${id}/revisions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(change)
+    });
+    const data = await this.parseResponse<{ recording: Recording; revision: SummaryRevision }>(response);
+    return { recording: this.hydrate(data.recording), revision: data.revision };
+  }
+
+  public async listTranscriptVersions(id: string): Promise<TranscriptVersion[]> {
+    const response = await fetch(`${this.baseUrl}/${id}/transcripts`, { cache: 'no-store' });
+    return this.parseResponse<TranscriptVersion[]>(response);
+  }
+
+  // Save a corrected transcript as a new version, either per segment or as full text
+  public async saveTranscriptCorrection(
+    id: string,
+    correction: { author: string; segments?: string[]; transcript?: string; note?: string }
+  ): Promise<{ recording: Recording; version: TranscriptVersion }> {
+    const response = await fetch(`${this.baseUrl}/${id}/transcripts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(correction)
+    });
+    const data = await this.parseResponse<{ recording: Recording; version: TranscriptVersion }>(response);
+    return { recording: this.hydrate(data.recording), version: data.version };
+  }
+
+  public async listAnalyses(id: string): Promise<MeetingAnalysis[]> {
+    const response = await fetch(`${this.baseUrl}/${id}/analyses`, { cache: 'no-store' });
+    return this.parseResponse<MeetingAnalysis[]>(response);
+  }
+
+  // Move a meeting's minutes through review and approval
+  public async transitionMinutes(id: string, transition: MinutesTransition): Promise<Recording> {
+    const response = await fetch(`${this.baseUrl}/${id}/minutes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(transition)
+    });
+    return this.hydrate(await this.parseResponse<Recording>(response));
+  }
+
+  public async addMinutesComment(id: string, author: string, text: string): Promise<Recording> {
+    const response = await fetch(`${this.baseUrl}/${id}/minutes/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ author, text })
+    });
+    return this.hydrate(await this.parseResponse<Recording>(response));
+  }
+
+  // Download link for the minutes; the official copy is refused until they're approved
+  public getMinutesExportUrl(id: string, official: boolean): string {
+    return `${this.baseUrl}/${id}/minutes${official ? '?official=true' : ''}`;
+  }
+
+  public getDownloadUrl(id: string, type: MeetingFileType): string {
+    return `${this.baseUrl}/${id}/download?type=${type}`;
+  }
+
+  // ZIP of the meetings matching the Meetings page filters, with a manifest
+  public async exportMeetings(
+    filter: {
+      q?: string;
+      from?: string;
+      to?: string;
+      bodyId?: string;
+      participant?: string;
+      type?: Recording['type'];
+      status?: Recording['status'];
+    },
+    includeAudio: boolean
+  ): Promise<Blob> {
+    const params = new URLSearchParams(Object.entries(filter).filter(([, value]) => value) as [string, string][]);
+    if (!includeAudio) {
+      params.set('audio', 'false');
+    }
+    const response = await fetch(`${this.baseUrl}/export?${params}`, { cache: 'no-store' });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.blob();
+  }
+
+  // Roll-call votes across meetings, filtered by member, motion text, body and date range
+  public async searchVotes(filter: { member?: string; q?: string; bodyId?: string; from?: string; to?: string }): Promise<MemberVoteRecord[]> {
+    const params = new URLSearchParams(Object.entries(filter).filter(([, value]) => value) as [string, string][]);
+    const response = await fetch(`/api/votes?${params}`, { cache: 'no-store' });
+    return this.parseResponse<MemberVoteRecord[]>(response);
+  }
+
+  // Full-text search across meetings; see /api/search for the query syntax
+  public async search(filter: {
+    q?: string;
+    from?: string;
+    to?: string;
+    type?: Recording['type'];
+    bodyId?: string;
+    participant?: string;
+    limit?: number;
+  }): Promise<SearchResponse> {
+    const params = new URLSearchParams(
+      Object.entries(filter).filter(([, value]) => value).map(([key, value]) => [key, String(value)])
+    );
+    const response = await fetch(`/api/search?${params}`, { cache: 'no-store' });
+    return this.parseResponse<SearchResponse>(response);
+  }
+
+  // Answer a question from the whole archive, with citations to the meetings it draws on
+  public async askArchive(
+    question: string,
+    scope: { bodyId?: string; type?: Recording['type']; from?: string; to?: string } = {}
+  ): Promise<ArchiveAnswer> {
+    const response = await fetch('/api/ask', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, ...scope })
+    });
+    return this.parseResponse<ArchiveAnswer>(response);
+  }
+
+  // Send audio to /api/uploads in sequential parts and return the upload id
+  private async uploadInChunks(audio: Blob, fileName: string): Promise<string> {
+    const startResponse = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName, mimeType: audio.type, size: audio.size })
+    });
+
+    const { uploadId } = await this.parseResponse<{ uploadId: string }>(startResponse);
+    const chunkCount = Math.ceil(audio.size / MeetingsClient.UPLOAD_CHUNK_SIZE);
+
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * MeetingsClient.UPLOAD_CHUNK_SIZE;
+      const chunk = audio.slice(start, start + MeetingsClient.UPLOAD_CHUNK_SIZE);
+
+      const chunkResponse = await fetch(`/api/uploads/${uploadId}`, {
+        method: 'PUT',
+        headers: { 'X-Chunk-Index': index.toString() },
+        body: chunk
+      });
+      await this.parseResponse(chunkResponse);
+
+      console.log(`📤 Uploaded part ${index + 1}/${chunkCount}`);
+    }
+
+    return uploadId;
+  }
+
+  /**
+   * One-time import of meetings saved by older versions into localStorage.
+   * Each record is removed from the legacy key as soon as it's uploaded, so a
+   * migration that fails partway resumes without creating duplicates.
+   */
+  private migrateLegacyRecordings(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.runLegacyMigration().catch(error => {
+        console.error('❌ Failed to migrate local recordings:', error);
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  private async runLegacyMigration(): Promise<void> {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) {
+      return;
+    }
+
+    let remaining: Recording[] = JSON.parse(stored);
+    console.log(`📦 Migrating ${remaining.length} local recording(s) to the meeting store...`);
+
+    while (remaining.length > 0) {
+      const { id, audioUrl, ...meeting } = remaining[0];
+
+      // Older recordings inlined audio as a base64 data URL
+      const audio = audioUrl?.startsWith('data:')
+        ? await (await fetch(audioUrl)).blob()
+        : undefined;
+
+      await this.createMeeting(meeting, audio, `${meeting.title}.webm`);
+
+      remaining = remaining.slice(1);
+      if (remaining.length > 0) {
+        localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+      } else {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+    }
+
+    console.log('✅ Local recordings migrated');
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  // JSON transport turns dates into strings
+  private hydrate(recording: Recording): Recording {
+    return {
+      ...recording,
+      date: new Date(recording.date),
+      createdAt: recording.createdAt ? new Date(recording.createdAt) : undefined,
+      updatedAt: recording.updatedAt ? new Date(recording.updatedAt) : undefined
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import { MinutesReview, MinutesStatus, MinutesTransition, Recording } from '@/types';
+import { MeetingStore } from './meeting-store';
+import { FileOrganizer } from './file-organizer';
+import { prependWarning } from './quorum';
+
+// Allowed moves: drafts go to review, review can be sent back or approved,
+// approved minutes can be reopened until they are published
+const TRANSITIONS: Record<MinutesStatus, MinutesStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['draft', 'approved'],
+  approved: ['in_review', 'published'],
+  published: []
+};
+
+/**
+ * Review and approval of a meeting's minutes. The pipeline's summary starts as a
+ * draft; only minutes the body has approved (on a date, by a motion) can be
+ * exported or published as the official record. Server-side only - used by the
+ * /api/meetings/:id/minutes routes and the job runner.
+ */
+export class MinutesWorkflow {
+  static statusOf(recording: Recording): MinutesStatus {
+    return recording.minutes?.status || 'draft';
+  }
+
+  /**
+   * Approved and published minutes are the record and can't be edited or reprocessed
+   */
+  static isLocked(recording: Recording): boolean {
+    const status = this.statusOf(recording);
+    return status === 'approved' || status === 'published';
+  }
+
+  /**
+   * Fresh draft state for newly generated minutes. Earlier comments are kept so
+   * reviewers can see what prompted the reprocessing.
+   */
+  static draft(previous?: MinutesReview): MinutesReview {
+    return {
+      status: 'draft',
+      comments: previous?.comments || [],
+      history: [...(previous?.history || []), { status: 'draft', at: new Date().toISOString(), note: 'Minutes generated' }]
+    };
+  }
+
+  /**
+   * Check a status change before applying it. Returns a list of problems (empty if valid).
+   */
+  static validateTransition(recording: Recording, transition: MinutesTransition): string[] {
+    const errors: string[] = [];
+    const current = this.statusOf(recording);
+
+    if (!Object.keys(TRANSITIONS).includes(transition.status)) {
+      return ['Status must be draft, in_review, approved or published'];
+    }
+    if (recording.status !== 'completed' || !recording.summaryUrl) {
+      errors.push('Minutes can only be reviewed once the meeting has been processed');
+    }
+    if (!TRANSITIONS[current].includes(transition.status)) {
+      errors.push(`Minutes can't move from ${current} to ${transition.status}`);
+    }
+    if (transition.status === 'approved') {
+      if (!transition.approvedOn || isNaN(Date.parse(transition.approvedOn))) {
+        errors.push('Approval date is required');
+      } else if (transition.approvedOn < recording.date.toISOString().split('T')[0]) {
+        errors.push('Minutes can\'t be approved before the meeting took place');
+      }
+      if (!transition.approvalMotion?.trim()) {
+        errors.push('Approval motion is required');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Apply a validated status change. Publishing writes the official copy to storage.
+   */
+  static async transition(recording: Recording, transition: MinutesTransition): Promise<Recording | null> {
+    const previous: MinutesReview = recording.minutes || { status: 'draft', comments: [], history: [] };
+    const now = new Date().toISOString();
+    const minutes: MinutesReview = {
+      ...previous,
+      status: transition.status,
+      history: [...previous.history, {
+        status: transition.status,
+        at: now,
+        by: transition.by?.trim() || undefined,
+        note: transition.note?.trim() || undefined
+      }]
+    };
+
+    if (transition.status === 'approved') {
+      minutes.approvedOn = transition.approvedOn;
+      minutes.approvalMotion = transition.approvalMotion?.trim();
+    } else if (transition.status !== 'published') {
+      // Reopened minutes need a fresh approval
+      delete minutes.approvedOn;
+      delete minutes.approvalMotion;
+    }
+
+    if (transition.status === 'published') {
+      minutes.publishedAt = now;
+      const minutesPath = await FileOrganizer.publishMinutes(recording, this.render({ ...recording, minutes }));
+      return MeetingStore.update(recording.id, {
+        minutes,
+        organizedFiles: { ...recording.organizedFiles, minutes: minutesPath }
+      });
+    }
+
+    return MeetingStore.update(recording.id, { minutes });
+  }
+
+  static addComment(recording: Recording, author: string, text: string): Recording | null {
+    const previous: MinutesReview = recording.minutes || { status: 'draft', comments: [], history: [] };
+    return MeetingStore.update(recording.id, {
+      minutes: {
+        ...previous,
+        comments: [...previous.comments, { id: randomUUID(), author: author.trim(), text: text.trim(), createdAt: new Date().toISOString() }]
+      }
+    });
+  }
+
+  /**
+   * Minutes as a markdown document. Approved minutes carry the approval
+   * certification; anything else is marked as a draft.
+   */
+  static render(recording: Recording): string {
+    const summary = recording.summaryUrl || '';
+    const minutes = recording.minutes;
+
+    if (!minutes?.approvedOn) {
+      return prependWarning(
+        summary,
+        `> **DRAFT - NOT APPROVED** (status: ${this.statusOf(recording).replace('_', ' ')}). These minutes are not the official record.`
+      );
+    }
+
+    return [
+      summary.trimEnd(),
+      '',
+      '---',
+      '',
+      `**Approved:** ${minutes.approvedOn} - ${minutes.approvalMotion}`,
+      ...(minutes.publishedAt ? [`**Published:** ${minutes.publishedAt.split('T')[0]}`] : [])
+    ].join('\n');
+  }
+}
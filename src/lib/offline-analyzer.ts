@@ -0,0 +1,163 @@
+import { BoardMeetingResult, QuorumStatus, TranscriptSegment } from '@/types';
+import { DetailedAnalysisMethods, DetailedMotion } from './detailed-analysis-methods';
+import { assessQuorum, describeQuorum, flagQuorum, reconcileAttendance, votingAttendance } from './quorum';
+import { verifyVotes } from './vote-verifier';
+import { extractRollCall, formatRollCallTables, tallyRollCall } from './roll-call';
+import { getMemberAliases } from './speaker-names';
+import type { MeetingRules } from './body-store';
+
+/**
+ * Deterministic, rule-based meeting analysis. Runs entirely offline using the
+ * Robert's Rules pattern matching in DetailedAnalysisMethods, so minutes can still
+ * be drafted when no API key is configured or the LLM call fails. Results are
+ * marked `analysisMode: 'heuristic'` and carry a warning banner in the summary.
+ */
+export class OfflineAnalyzer {
+  static analyze(
+    transcript: string,
+    meetingTitle: string,
+    segments: TranscriptSegment[],
+    rules: MeetingRules // Without a roster, the CSC commissioners are assumed
+  ): BoardMeetingResult {
+    const { roster } = rules;
+    const callToOrder = DetailedAnalysisMethods.analyzeCallToOrder(transcript);
+    const attendance = DetailedAnalysisMethods.analyzeComprehensiveAttendance(transcript, [], roster);
+    const agendaApproval = DetailedAnalysisMethods.analyzeAgendaApproval(transcript);
+    const motions = this.dedupeMotions(DetailedAnalysisMethods.analyzeAllMotionsDetailed(transcript));
+    const votingRecords = DetailedAnalysisMethods.analyzeVotingRecords(transcript, motions);
+    const adjournment = DetailedAnalysisMethods.analyzeAdjournment(transcript);
+    const meetingSegments = DetailedAnalysisMethods.identifyMeetingSegments(transcript);
+
+    const present = attendance.filter(member => member.present);
+    const aliases = roster ? getMemberAliases(roster) : {};
+    const resultMotions = motions.map((motion, index) => {
+      const memberVotes = extractRollCall(this.voteWindow(transcript, motions, index), aliases);
+      return {
+        number: index + 1,
+        text: motion.fullText.trim(),
+        maker: motion.maker,
+        seconder: motion.seconder,
+        result: motion.result,
+        voteCount: this.parseVoteCount(votingRecords.find(record => record.motionId === motion.id)?.details)
+          ?? (memberVotes.length > 0 ? tallyRollCall(memberVotes) : undefined),
+        ...(memberVotes.length > 0 ? { memberVotes } : {})
+      };
+    });
+    const rollCallTables = formatRollCallTables(resultMotions);
+
+    const agendaItems = meetingSegments
+      .filter(segment => segment.type === 'old_business' || segment.type === 'new_business')
+      .map(segment => ({
+        title: segment.type === 'old_business' ? 'Old Business' : 'New Business',
+        discussion: segment.content
+      }));
+
+    const mentioned = attendance.map(member => ({
+      name: member.name,
+      role: member.title,
+      present: member.present,
+      arrivalTime: member.firstSpeechTime
+    }));
+    const resultAttendance = roster ? reconcileAttendance(mentioned, roster) : mentioned;
+    // A mention ("Commissioner Torres is absent") doesn't prove presence, so the
+    // count is kept for reference but quorum is never reported as met or not met
+    const quorumStatus: QuorumStatus = {
+      ...assessQuorum(roster ? votingAttendance(resultAttendance, roster) : resultAttendance, rules.quorum),
+      state: 'unknown',
+      note: 'Quorum could not be verified: attendance was inferred from names mentioned in the transcript, not a roll call'
+    };
+
+    const summary = [
+      `# ${meetingTitle}`,
+      '',
+      '> ⚠️ **Heuristic analysis** - generated offline by pattern matching, without AI. Verify every item against the recording before use.',
+      '',
+      '## Call to Order',
+      callToOrder.found
+        ? `Called to order${callToOrder.time !== 'Not recorded' ? ` at ${callToOrder.time}` : ''} by ${callToOrder.chairperson}.`
+        : 'Call to order not detected.',
+      '',
+      '## Attendance',
+      ...attendance.map(member => `- ${member.name}: ${member.present ? 'mentioned (likely present)' : 'not mentioned'}`),
+      '',
+      `**Quorum:** ${describeQuorum(quorumStatus)} - based on members mentioned, not a roll call`,
+      '',
+      '## Approval of Agenda',
+      agendaApproval.motionMade
+        ? `Moved by ${agendaApproval.maker}, seconded by ${agendaApproval.seconder}. Result: ${agendaApproval.result}.`
+        : 'No agenda approval detected.',
+      '',
+      '## Motions',
+      ...(resultMotions.length > 0
+        ? resultMotions.map(motion =>
+            `${motion.number}. **${motion.text}** - moved by ${motion.maker}, seconded by ${motion.seconder}. ${motion.result}.`
+          )
+        : ['No motions detected.']),
+      '',
+      ...(rollCallTables ? [rollCallTables, ''] : []),
+      '## Adjournment',
+      adjournment.text
+        ? `${adjournment.method}${adjournment.time !== 'Not recorded' ? ` at ${adjournment.time}` : ''}.`
+        : 'Adjournment not detected.'
+    ].join('\n');
+
+    const result: BoardMeetingResult = {
+      transcript,
+      segments,
+      summary: flagQuorum(summary, quorumStatus),
+      actionItems: this.extractActionItems(transcript),
+      participants: present.map(member => member.name),
+      meetingType: 'board',
+      keyDecisions: resultMotions.map(motion => `${motion.text} (${motion.result})`),
+      analysisMode: 'heuristic',
+      attendance: resultAttendance,
+      motions: resultMotions,
+      quorumStatus,
+      agendaItems
+    };
+
+    return verifyVotes(result, {
+      threshold: rules.votingThreshold,
+      bodySize: rules.quorum.bodySize,
+      presentCount: null // Mentions aren't attendance, so tallies aren't checked against them
+    });
+  }
+
+  // The motion patterns overlap ("X moved to..." also matches "motion by X to..."),
+  // so the same motion can be found more than once
+  private static dedupeMotions(motions: DetailedMotion[]): DetailedMotion[] {
+    const seen = new Set<string>();
+    return motions.filter(motion => {
+      const key = motion.fullText.trim().toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // The transcript between a motion and the next one, where its roll call would be
+  private static voteWindow(transcript: string, motions: DetailedMotion[], index: number): string {
+    const start = transcript.indexOf(motions[index].fullText);
+    if (start === -1) {
+      return '';
+    }
+    const end = start + motions[index].fullText.length;
+    const next = motions[index + 1] ? transcript.indexOf(motions[index + 1].fullText, end) : -1;
+    return transcript.slice(end, next !== -1 ? next : end + 1500);
+  }
+
+  private static parseVoteCount(details?: string): { yes: number; no: number; abstain: number } | undefined {
+    const match = details?.match(/Aye: (\d+), Nay: (\d+)/);
+    return match ? { yes: parseInt(match[1]), no: parseInt(match[2]), abstain: 0 } : undefined;
+  }
+
+  private static extractActionItems(transcript: string): string[] {
+    const sentences = transcript.match(/[^.!?]+[.!?]/g) || [];
+    return sentences
+      .map(sentence => sentence.trim())
+      .filter(sentence => /\b(action item|will follow up|follow up on|is directed to|will report back|by next meeting)\b/i.test(sentence))
+      .slice(0, 20);
+  }
+}
@@ -1,7 +1,18 @@
-import { AIProcessingResult, LegalCaseResult, BoardMeetingResult } from '@/types';
+import { LLMProviderId, ProcessingJob, ProcessingJobState } from '@/types';
+
+// Toast text for each processing job state
+export const PROCESSING_STAGE_MESSAGES: Record<ProcessingJobState, string> = {
+  queued: 'Waiting for earlier meetings to finish...',
+  transcribing: 'Transcribing audio...',
+  analyzing: 'Analyzing meeting...',
+  done: 'Processing complete',
+  failed: 'Processing failed'
+};
 
 export class OpenAIClient {
   private static instance: OpenAIClient;
+  // How often job status is polled while processing
+  private static readonly POLL_INTERVAL = 2000;
   private baseUrl: string;
 
   private constructor() {
@@ -16,163 +27,74 @@ export class OpenAIClient {
     return OpenAIClient.instance;
   }
 
-  // Process audio file (transcribe + analyze)
-  public async processAudioFile(
-    audioFile: File,
-    meetingTitle: string,
-    meetingType: 'commission' | 'case' | 'board' | 'other' = 'other'
-  ): Promise<AIProcessingResult | LegalCaseResult | BoardMeetingResult> {
-    
-    console.log(`🎵 Processing ${meetingType} audio: "${meetingTitle}"`);
-    console.log(`📁 File: ${audioFile.name} (${(audioFile.size / 1024 / 1024).toFixed(2)}MB)`);
-    
-    try {
-      const formData = new FormData();
-      formData.append('audioFile', audioFile);
-      formData.append('meetingTitle', meetingTitle);
-      formData.append('meetingType', meetingType);
-
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        body: formData // No Content-Type header for FormData
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || `HTTP ${response.status}: ${response.statusText}`);
-      }
+  // Queue transcription + analysis for a stored meeting and return the job id.
+  // The job keeps running server-side if the page is closed.
+  // Pass a provider to override the one chosen in Settings for this meeting only.
+  public async startProcessing(meetingId: string, provider?: LLMProviderId): Promise<string> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ meetingId, provider })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.details || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
 
-      const result = await response.json();
-      
-      console.log('✅ Audio processing completed successfully');
-      return result;
+    const { jobId } = await response.json();
+    console.log(`📥 Queued processing job ${jobId}`);
 
-    } catch (error) {
-      console.error('❌ Audio processing error:', error);
-      return this.createAudioFallbackResponse(meetingTitle, audioFile, error);
-    }
+    return jobId;
   }
 
-  // Process text transcript
-  public async processTranscript(
-    transcript: string,
-    meetingTitle: string,
-    meetingType: 'commission' | 'case' | 'board' | 'other' = 'other'
-  ): Promise<AIProcessingResult | LegalCaseResult | BoardMeetingResult> {
-    
-    console.log(`🤖 Processing ${meetingType} meeting: "${meetingTitle}"`);
-    console.log(`📊 Transcript length: ${transcript.length} characters`);
-    
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          transcript,
-          meetingTitle,
-          meetingType
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || `HTTP ${response.status}: ${response.statusText}`);
-      }
+  public async getJob(jobId: string): Promise<ProcessingJob> {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
 
-      const result = await response.json();
-      
-      console.log('✅ OpenAI processing completed successfully');
-      console.log(`📋 Extracted ${result.actionItems?.length || 0} action items`);
-      console.log(`👥 Identified ${result.participants?.length || 0} participants`);
-      console.log(`🎯 Found ${result.keyDecisions?.length || 0} key decisions`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
 
-      return result;
+    return response.json();
+  }
 
-    } catch (error) {
-      console.error('❌ OpenAI Client Error:', error);
-      
-      // Return a fallback error response that matches our interface
-      const fallbackResult: AIProcessingResult = {
-        transcript,
-        summary: this.generateFallbackSummary(meetingTitle, transcript, error),
-        actionItems: [],
-        participants: [],
-        meetingType: 'error',
-        keyDecisions: []
-      };
+  // Poll a job until it is done or failed, reporting each state change
+  public async waitForJob(
+    jobId: string,
+    onProgress?: (state: ProcessingJobState) => void
+  ): Promise<ProcessingJob> {
+    let lastState: ProcessingJobState | undefined;
 
-      return fallbackResult;
-    }
-  }
+    for (;;) {
+      const job = await this.getJob(jobId);
 
-  private generateFallbackSummary(title: string, transcript: string, error: unknown): string {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    return `# ${title} - Processing Error\n\n` +
-           `**Error:** AI processing failed - ${errorMessage}\n\n` +
-           `**Status:** Fallback mode activated\n\n` +
-           `## Content Preview\n` +
-           `${transcript.substring(0, 500)}${transcript.length > 500 ? '...' : ''}\n\n` +
-           `---\n\n` +
-           `⚠️ **AI Processing Unavailable**\n` +
-           `The advanced AI analysis could not be completed. Please check your API configuration or try again later.\n` +
-           `For now, you can view the raw transcript content above.\n\n` +
-           `**Transcript Length:** ${transcript.length} characters\n` +
-           `**Error Details:** ${errorMessage}`;
-  }
+      if (job.state !== lastState) {
+        lastState = job.state;
+        onProgress?.(job.state);
+      }
 
-  private createAudioFallbackResponse(title: string, audioFile: File, error: unknown): AIProcessingResult {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    const fallbackSummary = `# ${title} - Audio Processing Error\n\n` +
-                           `**Error:** Audio processing failed - ${errorMessage}\n\n` +
-                           `**File:** ${audioFile.name} (${(audioFile.size / 1024 / 1024).toFixed(2)}MB)\n\n` +
-                           `---\n\n` +
-                           `⚠️ **Audio Processing Failed**\n` +
-                           `The audio transcription or analysis could not be completed.\n\n` +
-                           `**Troubleshooting:**\n` +
-                           `- Check your OpenAI API key configuration\n` +
-                           `- Ensure you have sufficient API credits\n` +
-                           `- Verify audio file format (supported: .mp3, .wav, .m4a)\n` +
-                           `- File must be under 25MB\n\n` +
-                           `**Error Details:** ${errorMessage}`;
+      if (job.state === 'done' || job.state === 'failed') {
+        console.log(job.state === 'done' ? '✅ Processing completed successfully' : `❌ Processing failed: ${job.error}`);
+        return job;
+      }
 
-    return {
-      transcript: `[Audio file: ${audioFile.name}]`,
-      summary: fallbackSummary,
-      actionItems: [],
-      participants: [],
-      meetingType: 'error',
-      keyDecisions: []
-    };
+      await new Promise(resolve => setTimeout(resolve, OpenAIClient.POLL_INTERVAL));
+    }
   }
 
   // Utility method to check if API is configured
   public static async checkConfiguration(): Promise<{ configured: boolean; error?: string }> {
     try {
-      const response = await fetch('/api/ai-process', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          transcript: 'test',
-          meetingTitle: 'Configuration Test',
-          meetingType: 'other'
-        })
-      });
-
-      if (response.status === 500) {
-        const errorData = await response.json();
-        if (errorData.details?.includes('API key')) {
-          return { 
-            configured: false, 
-            error: 'OpenAI API key not configured. Please add OPENAI_API_KEY to your environment variables.' 
+      const response = await fetch('/api/ai-process', { cache: 'no-store' });
+      const { configured, provider, missing } = await response.json();
+
+      return configured
+        ? { configured: true }
+        : {
+            configured: false,
+            error: `The ${provider} provider is not configured. Please set its ${missing}.`
           };
-        }
-      }
-
-      return { configured: true };
     } catch (error) {
       return { 
         configured: false, 
@@ -0,0 +1,148 @@
+import { BoardMeetingResult, BodyMember, QuorumRule, QuorumStatus } from '@/types';
+import { getMemberAliases, resolveSpeakerName } from './speaker-names';
+
+type Attendance = BoardMeetingResult['attendance'];
+
+/**
+ * Members required for quorum under a rule, or null when the rule can't be applied
+ * (a majority rule with no configured body size).
+ */
+export function requiredForQuorum(rule: QuorumRule): number | null {
+  if (rule.type === 'fixed') {
+    return rule.count ?? null;
+  }
+  return rule.bodySize ? Math.floor(rule.bodySize / 2) + 1 : null;
+}
+
+/**
+ * Check a quorum rule before saving. Returns a list of problems (empty if valid).
+ */
+export function validateQuorumRule(rule: QuorumRule): string[] {
+  const errors: string[] = [];
+  const { bodySize, type, count } = rule;
+
+  if (bodySize !== null && (!Number.isInteger(bodySize) || bodySize < 1)) {
+    errors.push('Body size must be a whole number of seats, or empty if unknown');
+  }
+  if (type !== 'majority' && type !== 'fixed') {
+    errors.push('Quorum rule must be "majority" or "fixed"');
+  }
+  if (type === 'fixed' && (count === undefined || !Number.isInteger(count) || count < 1 || (bodySize !== null && count > bodySize))) {
+    errors.push('Quorum count must be a whole number no larger than the body size');
+  }
+
+  return errors;
+}
+
+/**
+ * Work out quorum from recorded attendance. Never assumes quorum was met: without
+ * attendance or a configured rule the state is 'unknown', even if the minutes
+ * claim otherwise (passed in as `reported`).
+ */
+export function assessQuorum(
+  attendance: Attendance,
+  rule: QuorumRule,
+  reported?: boolean
+): QuorumStatus {
+  const presentCount = attendance.length > 0 ? attendance.filter(member => member.present).length : null;
+  const requiredCount = requiredForQuorum(rule);
+  const base = { presentCount, requiredCount, ...(reported !== undefined ? { reported } : {}) };
+
+  if (presentCount === null || requiredCount === null) {
+    const reasons = [
+      presentCount === null ? 'no member attendance was recorded' : null,
+      requiredCount === null ? 'no body size or quorum rule is configured' : null
+    ].filter(Boolean);
+    return { ...base, state: 'unknown', note: `Quorum could not be verified: ${reasons.join(' and ')}` };
+  }
+
+  if (rule.bodySize && presentCount > rule.bodySize) {
+    return {
+      ...base,
+      state: 'unknown',
+      note: `Quorum could not be verified: ${presentCount} attendees recorded present but the body has ${rule.bodySize} seats`
+    };
+  }
+
+  const met = presentCount >= requiredCount;
+  const status: QuorumStatus = { ...base, state: met ? 'met' : 'not_met' };
+  if (reported !== undefined && reported !== met) {
+    status.note = `Minutes report quorum as ${reported ? 'present' : 'absent'}, but ${presentCount} of ${requiredCount} required members were recorded present`;
+  }
+  return status;
+}
+
+/**
+ * Match attendance entries to the body's roster: names are corrected to the
+ * roster spelling (so "Commissioner Vittil" becomes Patrick Fitial) and titles
+ * filled in. Entries that match nobody, such as guests, are kept as recorded.
+ */
+export function reconcileAttendance(attendance: Attendance, roster: BodyMember[]): Attendance {
+  const aliases = getMemberAliases(roster);
+  const seen = new Set<string>();
+
+  return attendance.flatMap(entry => {
+    const member = roster.find(m => m.name === resolveSpeakerName(entry.name, aliases));
+    if (!member) {
+      return [entry];
+    }
+    // The same member listed twice (e.g. by first and last name) counts once
+    if (seen.has(member.name)) {
+      return [];
+    }
+    seen.add(member.name);
+    return [{ ...entry, name: member.name, role: member.title }];
+  });
+}
+
+/**
+ * The entries that count toward quorum and votes: voting members of the roster
+ */
+export function votingAttendance(attendance: Attendance, roster: BodyMember[]): Attendance {
+  const voting = new Set(roster.filter(member => member.voting).map(member => member.name));
+  return attendance.filter(entry => voting.has(entry.name));
+}
+
+// One-line quorum statement for minutes
+export function describeQuorum(status: QuorumStatus): string {
+  const counts = status.presentCount !== null && status.requiredCount !== null
+    ? ` (${status.presentCount} present, ${status.requiredCount} required)`
+    : '';
+
+  switch (status.state) {
+    case 'met':
+      return `Present${counts}`;
+    case 'not_met':
+      return `Not present${counts}`;
+    default:
+      return 'Unverified';
+  }
+}
+
+/**
+ * Prefix minutes with a warning when quorum is unverified, not met, or disagrees
+ * with what the minutes report. Minutes with a verified quorum are returned as-is.
+ */
+export function flagQuorum(summary: string, status: QuorumStatus): string {
+  if (status.state === 'met' && !status.note) {
+    return summary;
+  }
+
+  const warning = status.state === 'unknown'
+    ? `> ⚠️ **Quorum unverified** - ${status.note}. Confirm against the roll call before approving these minutes.`
+    : status.state === 'not_met'
+      ? `> ⚠️ **Quorum not met** - ${status.presentCount} of ${status.requiredCount} required members recorded present. Actions taken may not be valid.${status.note ? ` ${status.note}.` : ''}`
+      : `> ⚠️ **Quorum discrepancy** - ${status.note}.`;
+
+  return prependWarning(summary, warning);
+}
+
+/**
+ * Put a warning block at the top of the minutes, after a leading title if there is one
+ */
+export function prependWarning(summary: string, warning: string): string {
+  const title = summary.match(/^# .*\n/)?.[0];
+  return title
+    ? `${title}\n${warning}\n\n${summary.slice(title.length).replace(/^\n+/, '')}`
+    : `${warning}\n\n${summary}`;
+}
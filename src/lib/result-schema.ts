@@ -0,0 +1,345 @@
+import { AIProcessingResult, BoardMeetingResult, LegalCaseResult, MemberVote } from '@/types';
+import { normalizeVote } from './roll-call';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  // 'coerced' issues were repaired in place; 'invalid' ones lost data or fell back to a default
+  severity: 'coerced' | 'invalid';
+}
+
+export interface ValidationOutcome<T> {
+  value: T;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks one value and returns a well-typed copy, recording anything it had to
+ * repair or replace. Schemas never throw, so a bad field can't lose the meeting.
+ */
+type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, none: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function text(fallback = ''): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      issues.push({ path, message: `expected text, got ${describe(value)}`, severity: 'coerced' });
+      return String(value);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      issues.push({ path, message: 'expected text, got a list - joined it', severity: 'coerced' });
+      return value.join('\n');
+    }
+    issues.push({ path, message: value === undefined ? 'missing' : `expected text, got ${describe(value)}`, severity: 'invalid' });
+    return fallback;
+  };
+}
+
+function count(): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      const trimmed = value.trim().toLowerCase();
+      const parsed = /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : NUMBER_WORDS[trimmed];
+      if (parsed !== undefined) {
+        issues.push({ path, message: `converted "${value}" to ${parsed}`, severity: 'coerced' });
+        return parsed;
+      }
+    }
+    issues.push({ path, message: value === undefined ? 'missing' : `expected a number, got ${describe(value)}`, severity: 'invalid' });
+    return 0;
+  };
+}
+
+function flag(): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && /^(true|yes|present|met)$/i.test(value.trim())) {
+      issues.push({ path, message: `converted "${value}" to true`, severity: 'coerced' });
+      return true;
+    }
+    if (typeof value === 'string' && /^(false|no|absent|not met)$/i.test(value.trim())) {
+      issues.push({ path, message: `converted "${value}" to false`, severity: 'coerced' });
+      return false;
+    }
+    issues.push({ path, message: value === undefined ? 'missing' : `expected true/false, got ${describe(value)}`, severity: 'invalid' });
+    return false;
+  };
+}
+
+function oneOf<T extends string>(options: readonly T[], fallback: T): Schema<T> {
+  return (value, path, issues) => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    const match = options.find(option => option === normalized);
+    if (match) {
+      if (match !== value) {
+        issues.push({ path, message: `normalized "${value}" to "${match}"`, severity: 'coerced' });
+      }
+      return match;
+    }
+    issues.push({ path, message: `expected one of ${options.join(', ')}, got ${describe(value)}`, severity: 'invalid' });
+    return fallback;
+  };
+}
+
+// Absent values are fine; present ones must pass the inner schema
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => (isMissing(value) ? undefined : schema(value, path, issues));
+}
+
+// For counts that may honestly be unknown
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) => (isMissing(value) ? null : schema(value, path, issues));
+}
+
+// Absent values are normal here (e.g. an unseconded motion) and get a placeholder
+function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push({ path, message: `missing - using "${fallback}"`, severity: 'coerced' });
+      return fallback;
+    }
+    return schema(value, path, issues);
+  };
+}
+
+/**
+ * A list of items. A lone value is wrapped, and items that don't fit the item
+ * schema at all are dropped rather than kept half-empty.
+ */
+function list<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (value === undefined) {
+        issues.push({ path, message: 'missing - using an empty list', severity: 'coerced' });
+      }
+      return [];
+    }
+
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else {
+      issues.push({ path, message: `expected a list, got ${describe(value)} - wrapped it`, severity: 'coerced' });
+      items = [value];
+    }
+
+    const results: T[] = [];
+    items.forEach((entry, index) => {
+      const entryIssues: ValidationIssue[] = [];
+      const parsed = item(entry, `${path}[${index}]`, entryIssues);
+      // An entry whose only issue is its own type (not a field inside it) is unusable
+      if (entryIssues.some(issue => issue.severity === 'invalid' && issue.path === `${path}[${index}]`)) {
+        issues.push({ path: `${path}[${index}]`, message: `dropped ${describe(entry)}`, severity: 'invalid' });
+        return;
+      }
+      issues.push(...entryIssues);
+      results.push(parsed);
+    });
+    return results;
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * An object with known fields. Unknown fields are dropped. `fromText` builds the
+ * object when the model sent a bare string (e.g. a next step as plain text).
+ */
+function record<T>(shape: Shape<T>, fromText?: (value: string) => Record<string, unknown>): Schema<T> {
+  return (value, path, issues) => {
+    let source: Record<string, unknown>;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      source = value as Record<string, unknown>;
+    } else if (typeof value === 'string' && fromText) {
+      issues.push({ path, message: 'expected an object, got text - used it as the description', severity: 'coerced' });
+      source = fromText(value);
+    } else {
+      issues.push({ path, message: value === undefined ? 'missing' : `expected an object, got ${describe(value)}`, severity: 'invalid' });
+      source = {};
+    }
+
+    const result = {} as T;
+    (Object.keys(shape) as Array<keyof T>).forEach(key => {
+      const parsed = shape[key](source[key as string], `${path}.${String(key)}`, issues);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    });
+    return result;
+  };
+}
+
+// The board prompt asks for votes as "Yes: #, No: #, Abstain: #"
+const voteCount: Schema<{ yes: number; no: number; abstain: number } | undefined> = (value, path, issues) => {
+  if (typeof value === 'string') {
+    if (!/\d/.test(value)) {
+      issues.push({ path, message: `no tally in "${value}" - left out`, severity: 'coerced' });
+      return undefined;
+    }
+    const tally = (label: string) => Number(value.match(new RegExp(`${label}\\w*\\s*[:=-]?\\s*(\\d+)`, 'i'))?.[1] || 0);
+    issues.push({ path, message: `parsed vote tally from "${value}"`, severity: 'coerced' });
+    return { yes: tally('(?:yes|aye|yea|for)'), no: tally('(?:no|nay|against)'), abstain: tally('abstain') };
+  }
+  return record<{ yes: number; no: number; abstain: number }>({ yes: count(), no: count(), abstain: count() })(value, path, issues);
+};
+
+// One roll-call response. "Yes", "Yea" etc. are normalized; an entry without a
+// member or a recognisable vote is unusable, so the list drops it
+const memberVote: Schema<MemberVote> = (value, path, issues) => {
+  const entry = record<{ member: string; vote: string }>({ member: text(), vote: text() })(value, path, issues);
+  const vote = normalizeVote(entry.vote || '');
+  if (!entry.member || !vote) {
+    issues.push({ path, message: `not a member's vote: ${describe(value)}`, severity: 'invalid' });
+    return { member: entry.member || '', vote: 'absent' };
+  }
+  if (vote !== entry.vote) {
+    issues.push({ path: `${path}.vote`, message: `normalized "${entry.vote}" to "${vote}"`, severity: 'coerced' });
+  }
+  return { member: entry.member, vote };
+};
+
+const baseShape: Shape<Omit<AIProcessingResult, 'transcript' | 'meetingType' | 'segments' | 'speakers' | 'analysisMode' | 'validationWarnings'>> = {
+  summary: text('Summary not available'),
+  actionItems: list(text()),
+  participants: list(text()),
+  keyDecisions: list(text())
+};
+
+const boardShape: Shape<Pick<BoardMeetingResult, 'attendance' | 'motions' | 'quorumStatus' | 'agendaItems'>> = {
+  attendance: list(record({
+    name: text(),
+    role: text(),
+    present: flag(),
+    arrivalTime: optional(text())
+  })),
+  motions: list(record({
+    number: count(),
+    text: text(),
+    maker: withDefault(text(), 'Not recorded'),
+    seconder: withDefault(text(), 'Not recorded'),
+    result: withDefault(text(), 'Not recorded'),
+    voteCount: optional(voteCount),
+    memberVotes: optional(list(memberVote))
+  }, value => ({ text: value }))),
+  quorumStatus: record({
+    state: oneOf(['met', 'not_met', 'unknown'] as const, 'unknown'),
+    presentCount: nullable(count()),
+    requiredCount: nullable(count()),
+    reported: optional(flag()),
+    note: optional(text())
+  }),
+  agendaItems: list(record({
+    title: text(),
+    discussion: text(),
+    outcome: optional(text())
+  }, value => ({ title: value, discussion: '' })))
+};
+
+const caseShape: Shape<Omit<LegalCaseResult, keyof AIProcessingResult>> = {
+  caseInformation: record({
+    caseNumber: optional(text()),
+    caseTitle: optional(text()),
+    jurisdiction: optional(text()),
+    caseType: optional(text())
+  }),
+  parties: record({
+    plaintiffs: list(text()),
+    defendants: list(text()),
+    attorneys: list(record({
+      name: text(),
+      representing: withDefault(text(), 'Not recorded'),
+      role: withDefault(text(), 'Not recorded')
+    }, value => ({ name: value })))
+  }),
+  courtPersonnel: record({
+    judge: optional(text()),
+    hearingOfficer: optional(text()),
+    courtReporter: optional(text()),
+    bailiff: optional(text())
+  }),
+  hearingDetails: record({
+    hearingType: optional(text()),
+    date: text(),
+    time: optional(text()),
+    location: optional(text())
+  }),
+  legalIssues: list(text()),
+  proceduralMatters: list(record({
+    type: oneOf(['motion', 'objection', 'ruling', 'order'] as const, 'motion'),
+    description: text(),
+    outcome: optional(text())
+  }, value => ({ type: 'motion', description: value }))),
+  evidence: list(record({
+    type: oneOf(['document', 'testimony', 'exhibit'] as const, 'document'),
+    description: text(),
+    submittedBy: optional(text())
+  }, value => ({ type: 'document', description: value }))),
+  rulings: list(record({
+    issue: text(),
+    ruling: text(),
+    reasoning: optional(text())
+  })),
+  nextSteps: list(record({
+    description: text(),
+    deadline: optional(text()),
+    responsibleParty: optional(text())
+  }, value => ({ description: value }))),
+  importantDates: list(record({
+    date: text(),
+    description: text(),
+    type: oneOf(['hearing', 'filing', 'deadline', 'other'] as const, 'other')
+  }))
+};
+
+/**
+ * Check an analysis result built from model output against the schema for its
+ * meeting type. Returns a cleaned copy - numbers parsed from strings, lone values
+ * wrapped in lists, unusable entries dropped - plus every issue found.
+ * Fields the pipeline fills itself (transcript, segments, speakers) are kept as-is.
+ */
+export function validateResult<T extends AIProcessingResult | BoardMeetingResult | LegalCaseResult>(result: T): ValidationOutcome<T> {
+  const issues: ValidationIssue[] = [];
+  const shape: Shape<Record<string, unknown>> = {
+    ...baseShape,
+    ...(result.meetingType === 'board' ? boardShape : {}),
+    ...(result.meetingType === 'case' ? caseShape : {})
+  } as Shape<Record<string, unknown>>;
+
+  const checked = record(shape)(result, '', issues);
+  issues.forEach(issue => {
+    issue.path = issue.path.replace(/^\./, '');
+  });
+
+  return { value: { ...result, ...checked }, issues };
+}
+
+export function countInvalid(issues: ValidationIssue[]): number {
+  return issues.filter(issue => issue.severity === 'invalid').length;
+}
+
+export function formatIssues(issues: ValidationIssue[]): string[] {
+  return issues.map(issue => `${issue.path}: ${issue.message}`);
+}
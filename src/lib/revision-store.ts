@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { Recording, SummaryRevision } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+/**
+ * Saved versions of each meeting's summary, one JSON file per meeting under
+ * revisions/. Minutes become public records, so every save keeps the full text
+ * with who made it and why. Server-side only - used by /api/meetings/:id/revisions
+ * and the job runner.
+ */
+export class RevisionStore {
+  private static readonly REVISIONS_DIR = path.join(DATA_DIR, 'revisions');
+
+  /**
+   * Revisions for a meeting, oldest first. Meetings processed before revisions
+   * were kept get their current summary as revision 1.
+   */
+  static list(recording: Recording): SummaryRevision[] {
+    const revisions = this.readAll(recording.id);
+    if (revisions.length > 0 || !recording.summaryUrl) {
+      return revisions;
+    }
+
+    return [{
+      number: 1,
+      summary: recording.summaryUrl,
+      author: 'BusyBee',
+      note: 'Summary generated before revisions were recorded',
+      source: 'generated',
+      createdAt: (recording.updatedAt || recording.date).toISOString()
+    }];
+  }
+
+  static get(recording: Recording, number: number): SummaryRevision | null {
+    return this.list(recording).find(revision => revision.number === number) || null;
+  }
+
+  /**
+   * Record a new version of the summary. Returns the saved revision.
+   */
+  static add(
+    recording: Recording,
+    revision: Pick<SummaryRevision, 'summary' | 'author' | 'source'> & Partial<Pick<SummaryRevision, 'note' | 'revertedFrom'>>
+  ): SummaryRevision {
+    const revisions = this.list(recording);
+    const saved: SummaryRevision = {
+      ...revision,
+      author: revision.author.trim(),
+      note: revision.note?.trim() || undefined,
+      number: (revisions[revisions.length - 1]?.number || 0) + 1,
+      createdAt: new Date().toISOString()
+    };
+
+    this.writeAll(recording.id, [...revisions, saved]);
+    return saved;
+  }
+
+  static remove(meetingId: string): void {
+    fs.rmSync(this.fileFor(meetingId), { force: true });
+  }
+
+  private static fileFor(meetingId: string): string {
+    return path.join(this.REVISIONS_DIR, `${path.basename(meetingId)}.json`);
+  }
+
+  private static readAll(meetingId: string): SummaryRevision[] {
+    return readJsonFile<SummaryRevision[]>(this.fileFor(meetingId), []);
+  }
+
+  private static writeAll(meetingId: string, revisions: SummaryRevision[]): void {
+    writeJsonFile(this.fileFor(meetingId), revisions);
+  }
+}
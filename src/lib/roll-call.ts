@@ -0,0 +1,104 @@
+import { BoardMeetingResult, MemberVote, MemberVoteValue } from '@/types';
+import { resolveSpeakerName, SpeakerAliases } from './speaker-names';
+
+type Motion = BoardMeetingResult['motions'][number];
+
+const VOTE_WORDS: Record<string, MemberVoteValue> = {
+  aye: 'aye', yes: 'aye', yea: 'aye', 'in favor': 'aye',
+  nay: 'nay', no: 'nay', opposed: 'nay',
+  abstain: 'abstain', abstains: 'abstain', abstaining: 'abstain', present: 'abstain',
+  absent: 'absent', 'not present': 'absent',
+  recuse: 'recused', recused: 'recused', recuses: 'recused'
+};
+
+// "aye" -> "[aA][yY][eE]": vote words match in any case ("Aye", "YES") while the
+// name group still needs capitals, which an 'i' flag would lose
+const anyCase = (word: string) => word.replace(/[a-z]/g, letter => `[${letter}${letter.toUpperCase()}]`);
+const VOTE_PATTERN = Object.keys(VOTE_WORDS).map(anyCase).join('|');
+
+// A capitalised word that isn't itself a vote, so "Bellas Abstains." ends the name there
+const NAME_WORD = `(?!(?:${VOTE_PATTERN})\\b)[A-Z]`;
+
+// "Commissioner Torres — aye", "Torres: No", "Vice Chair Fitial votes yes", "Bellas abstains"
+const ROLL_CALL_PATTERN = new RegExp(
+  `((?:${NAME_WORD}[\\w'’.-]*\\s+){0,3}${NAME_WORD}[\\w'’-]*)\\s*(?:[—–:,-]|\\s+votes?|(?=\\s+(?:${anyCase('abstain')}|${anyCase('recuse')})))\\s*(${VOTE_PATTERN})\\b`,
+  'g'
+);
+
+/**
+ * Map a spoken vote ("yes", "Aye", "abstains") to a vote value, or null if it isn't one
+ */
+export function normalizeVote(word: string): MemberVoteValue | null {
+  return VOTE_WORDS[word.trim().toLowerCase()] || null;
+}
+
+/**
+ * Find roll-call responses in a stretch of transcript. Names are resolved against
+ * the body's aliases; without aliases any capitalised name is accepted. Each member
+ * is recorded once, with their first response.
+ */
+export function extractRollCall(text: string, aliases: SpeakerAliases = {}): MemberVote[] {
+  const votes: MemberVote[] = [];
+  const hasAliases = Object.keys(aliases).length > 0;
+
+  for (const match of text.matchAll(ROLL_CALL_PATTERN)) {
+    const vote = normalizeVote(match[2]);
+    const member = hasAliases ? resolveSpeakerName(match[1], aliases) : match[1].trim();
+    if (vote && member && !votes.some(existing => existing.member === member)) {
+      votes.push({ member, vote });
+    }
+  }
+
+  return votes;
+}
+
+/**
+ * Correct roll-call names to the roster spelling and fill in a missing tally
+ * from the individual votes
+ */
+export function applyRollCall(motion: Motion, aliases: SpeakerAliases): Motion {
+  if (!motion.memberVotes || motion.memberVotes.length === 0) {
+    return motion;
+  }
+
+  const memberVotes = motion.memberVotes.map(entry => ({
+    ...entry,
+    member: resolveSpeakerName(entry.member, aliases) || entry.member
+  }));
+
+  return {
+    ...motion,
+    memberVotes,
+    voteCount: motion.voteCount || tallyRollCall(memberVotes)
+  };
+}
+
+export function tallyRollCall(memberVotes: MemberVote[]): { yes: number; no: number; abstain: number } {
+  return {
+    yes: memberVotes.filter(entry => entry.vote === 'aye').length,
+    no: memberVotes.filter(entry => entry.vote === 'nay').length,
+    abstain: memberVotes.filter(entry => entry.vote === 'abstain').length
+  };
+}
+
+/**
+ * Markdown vote tables for every motion decided by roll call, or an empty string
+ */
+export function formatRollCallTables(motions: Motion[]): string {
+  const rollCalls = motions.filter(motion => motion.memberVotes && motion.memberVotes.length > 0);
+  if (rollCalls.length === 0) {
+    return '';
+  }
+
+  const tables = rollCalls.map(motion => [
+    `### Motion ${motion.number}: ${motion.text}`,
+    '',
+    '| Member | Vote |',
+    '| --- | --- |',
+    ...(motion.memberVotes || []).map(entry => `| ${entry.member} | ${entry.vote.charAt(0).toUpperCase()}${entry.vote.slice(1)} |`),
+    '',
+    `**Result:** ${motion.result}`
+  ].join('\n'));
+
+  return ['## Roll Call Votes', '', ...tables.flatMap(table => [table, ''])].join('\n').trimEnd();
+}
@@ -0,0 +1,373 @@
+import { Recording, SearchField, SearchResponse, SearchResult, SearchSnippet } from '@/types';
+import { MeetingStore } from './meeting-store';
+import { TranscriptStore } from './transcript-store';
+import { getSpeakerName } from './speaker-names';
+
+export interface MeetingSearch {
+  q?: string; // Words must all appear in the meeting; "quoted phrases" must appear in order
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  type?: Recording['type'];
+  bodyId?: string;
+  participant?: string; // Any part of a participant's or identified speaker's name
+  limit?: number;
+}
+
+// A passage picked to answer a question, see SearchIndex.retrieve
+export interface RetrievedPassage {
+  meetingId: string;
+  title: string;
+  date: string;
+  field: SearchField;
+  text: string;
+  start?: number;
+}
+
+interface Passage {
+  field: SearchField;
+  text: string;
+  start?: number;
+  stems: string[];
+}
+
+interface IndexedMeeting {
+  recording: Recording;
+  people: string; // Participant and speaker names, lowercased
+  passages: Passage[];
+  stems: Set<string>;
+}
+
+interface MeetingIndex {
+  signature: string;
+  meetings: IndexedMeeting[];
+}
+
+// A bare word or quoted phrase from the query
+interface QueryUnit {
+  text: string;
+  stems: string[];
+}
+
+// Matches in titles and motions say more about a meeting than a passing mention in the transcript
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  participants: 2,
+  motion: 2,
+  actionItem: 2,
+  summary: 1.5,
+  transcript: 1
+};
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'with']);
+// Words that shape a question but say nothing about what it's about
+const QUESTION_WORDS = new Set(['about', 'any', 'did', 'do', 'does', 'ever', 'had', 'has', 'have', 'how', 'last', 'our', 'they', 'this', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why']);
+const DEFAULT_LIMIT = 50;
+// Most passages retrieve() takes from one meeting, so answers can draw on several
+const PASSAGES_PER_MEETING = 4;
+const SNIPPETS_PER_MEETING = 3;
+const SNIPPET_LENGTH = 200;
+// Untimed transcripts are split into passages of about this many characters
+const PASSAGE_LENGTH = 400;
+
+// Next bundles each route separately, so the index lives on globalThis to be
+// built once per server process rather than once per route
+const indexState = globalThis as typeof globalThis & { busybeeSearchIndex?: MeetingIndex };
+
+/**
+ * Full-text search over every stored meeting: titles, participants, transcripts,
+ * summaries, motions and action items. Words are matched on a light stem, so
+ * "approved" finds "approve" and "policies" finds "policy". The index is rebuilt
+ * whenever a meeting changes. Server-side only - used by /api/search and exports.
+ */
+export class SearchIndex {
+  static search(filter: MeetingSearch): SearchResponse {
+    const index = this.getIndex();
+    const units = parseQuery(filter.q || '');
+    const participant = filter.participant?.trim().toLowerCase() || '';
+
+    const candidates = index.meetings.filter(({ recording, people }) => {
+      const day = recording.date.toISOString().split('T')[0];
+      return (!filter.from || day >= filter.from) &&
+        (!filter.to || day <= filter.to) &&
+        (!filter.type || recording.type === filter.type) &&
+        (!filter.bodyId || recording.bodyId === filter.bodyId) &&
+        (!participant || people.includes(participant));
+    });
+
+    const byDate = (a: SearchResult, b: SearchResult) => b.date.localeCompare(a.date);
+    let results: SearchResult[];
+    if (units.length === 0) {
+      results = candidates.map(meeting => this.toResult(meeting, 0, [])).sort(byDate);
+    } else {
+      // Rarer words count for more, as in tf-idf
+      const weights = units.map(unit => {
+        const documentFrequency = index.meetings.filter(meeting => unit.stems.every(stem => meeting.stems.has(stem))).length;
+        return Math.log(1 + index.meetings.length / Math.max(documentFrequency, 1));
+      });
+
+      results = candidates
+        .filter(meeting => units.every(unit => unit.stems.every(stem => meeting.stems.has(stem))))
+        .map(meeting => this.scoreMeeting(meeting, units, weights))
+        .filter((result): result is SearchResult => result !== null)
+        .sort((a, b) => b.score - a.score || byDate(a, b));
+    }
+
+    return {
+      query: filter.q || '',
+      terms: units.map(unit => unit.text),
+      total: results.length,
+      results: results.slice(0, filter.limit ?? DEFAULT_LIMIT)
+    };
+  }
+
+  /**
+   * Passages most relevant to a natural-language question, best first. Unlike
+   * search(), a passage needn't contain every word - it is scored by the rarer
+   * words it shares with the question. Transcript lines come with the lines
+   * either side so they read in context.
+   */
+  static retrieve(question: string, filter: Omit<MeetingSearch, 'q' | 'limit'>, limit: number): RetrievedPassage[] {
+    const index = this.getIndex();
+    const stems = Array.from(new Set(
+      tokenize(question)
+        .filter(token => !STOP_WORDS.has(token.word) && !QUESTION_WORDS.has(token.word))
+        .map(token => token.stem)
+    ));
+    if (stems.length === 0) {
+      return [];
+    }
+
+    const weights = new Map(stems.map(candidate => {
+      const documentFrequency = index.meetings.filter(meeting => meeting.stems.has(candidate)).length;
+      return [candidate, documentFrequency > 0 ? Math.log(1 + index.meetings.length / documentFrequency) : 0];
+    }));
+
+    const scored = this.search({ ...filter, limit: index.meetings.length }).results
+      .map(result => index.meetings.find(meeting => meeting.recording.id === result.meetingId))
+      .filter((meeting): meeting is IndexedMeeting => meeting !== undefined)
+      .flatMap(meeting => meeting.passages
+        .map((passage, position) => ({
+          meeting,
+          position,
+          score: stems.reduce((total, candidate) => total + (passage.stems.includes(candidate) ? weights.get(candidate) || 0 : 0), 0) *
+            (passage.field === 'transcript' ? 1 : 1.25)
+        }))
+        // Titles and name lists say which meeting, not what happened in it
+        .filter(entry => entry.score > 0 && !['title', 'participants'].includes(entry.meeting.passages[entry.position].field))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, PASSAGES_PER_MEETING))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return scored.map(({ meeting, position }) => {
+      const passage = meeting.passages[position];
+      const neighbour = (offset: number) => {
+        const next = meeting.passages[position + offset];
+        return passage.field === 'transcript' && passage.start !== undefined && next?.field === 'transcript' ? next.text : '';
+      };
+      return {
+        meetingId: meeting.recording.id,
+        title: meeting.recording.title,
+        date: meeting.recording.date.toISOString(),
+        field: passage.field,
+        text: [neighbour(-1), passage.text, neighbour(1)].filter(Boolean).join('\n'),
+        start: passage.start
+      };
+    });
+  }
+
+  // Null when a phrase's words appear in the meeting but never together
+  private static scoreMeeting(meeting: IndexedMeeting, units: QueryUnit[], weights: number[]): SearchResult | null {
+    const matched = meeting.passages
+      .map((passage, order) => ({
+        passage,
+        order,
+        units: units.filter(unit => findSequence(passage.stems, unit.stems) !== -1)
+      }))
+      .filter(entry => entry.units.length > 0);
+
+    let score = 0;
+    for (const [position, unit] of units.entries()) {
+      const passages = matched.filter(entry => entry.units.includes(unit)).map(entry => entry.passage);
+      if (passages.length === 0) {
+        return null;
+      }
+      const bestField = Math.max(...passages.map(passage => FIELD_WEIGHTS[passage.field]));
+      score += weights[position] * (bestField + Math.log(1 + passages.length));
+    }
+
+    const snippets = matched
+      .sort((a, b) =>
+        b.units.length - a.units.length ||
+        FIELD_WEIGHTS[b.passage.field] - FIELD_WEIGHTS[a.passage.field] ||
+        a.order - b.order)
+      .slice(0, SNIPPETS_PER_MEETING)
+      .map(entry => buildSnippet(entry.passage, entry.units));
+
+    return this.toResult(meeting, Math.round(score * 100) / 100, snippets);
+  }
+
+  private static toResult(meeting: IndexedMeeting, score: number, snippets: SearchSnippet[]): SearchResult {
+    const { recording } = meeting;
+    return {
+      meetingId: recording.id,
+      title: recording.title,
+      date: recording.date.toISOString(),
+      type: recording.type,
+      bodyId: recording.bodyId,
+      score,
+      snippets
+    };
+  }
+
+  private static getIndex(): MeetingIndex {
+    const recordings = MeetingStore.list();
+    const signature = recordings
+      .map(recording => `${recording.id}:${recording.updatedAt?.getTime() || 0}`)
+      .join('|');
+
+    if (indexState.busybeeSearchIndex?.signature !== signature) {
+      indexState.busybeeSearchIndex = { signature, meetings: recordings.map(recording => this.indexMeeting(recording)) };
+    }
+    return indexState.busybeeSearchIndex;
+  }
+
+  private static indexMeeting(recording: Recording): IndexedMeeting {
+    const passages: Omit<Passage, 'stems'>[] = [{ field: 'title', text: recording.title }];
+
+    const people = [
+      ...recording.participants,
+      ...(recording.speakers || []).map(speaker => speaker.name).filter((name): name is string => Boolean(name))
+    ];
+    if (people.length > 0) {
+      passages.push({ field: 'participants', text: Array.from(new Set(people)).join(', ') });
+    }
+
+    const segments = recording.transcriptSegments || [];
+    if (segments.length > 0) {
+      segments.forEach(segment => {
+        const speaker = getSpeakerName(segment.speaker, recording.speakers);
+        passages.push({ field: 'transcript', text: speaker ? `${speaker}: ${segment.text}` : segment.text, start: segment.start });
+      });
+    } else if (recording.transcriptUrl) {
+      splitPassages(recording.transcriptUrl).forEach(text => passages.push({ field: 'transcript', text }));
+    }
+
+    (recording.summaryUrl || '').split('\n')
+      .map(line => line.replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/, '').replace(/[*_`|]/g, ' ').replace(/\s+/g, ' ').trim())
+      .filter(line => line && !/^[-:\s]+$/.test(line))
+      .forEach(text => passages.push({ field: 'summary', text }));
+
+    (recording.motions || []).forEach(motion => {
+      passages.push({ field: 'motion', text: `Motion ${motion.number}: ${motion.text} (${motion.result})` });
+    });
+
+    const latestAnalysis = TranscriptStore.listAnalyses(recording.id).slice(-1)[0];
+    (latestAnalysis?.actionItems || []).forEach(text => passages.push({ field: 'actionItem', text }));
+
+    const indexed = passages.map(passage => ({ ...passage, stems: tokenize(passage.text).map(token => token.stem) }));
+    return {
+      recording,
+      people: people.join('\n').toLowerCase(),
+      passages: indexed,
+      stems: new Set(indexed.flatMap(passage => passage.stems))
+    };
+  }
+}
+
+// Words with their position in the original text, so snippets can be cut around them
+function tokenize(text: string): { word: string; stem: string; offset: number }[] {
+  const tokens: { word: string; stem: string; offset: number }[] = [];
+  const pattern = /[a-z0-9\u00c0-\u024f]+/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ word: match[0].toLowerCase(), stem: stem(match[0]), offset: match.index });
+  }
+  return tokens;
+}
+
+// Light suffix stripping so inflections of a word match each other
+function stem(word: string): string {
+  let result = word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  if (result.length <= 3) {
+    return result;
+  }
+
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('ing') && result.length > 5) {
+    result = result.slice(0, -3);
+  } else if (result.endsWith('ed') && result.length > 4) {
+    result = result.slice(0, -2);
+  } else if (/(ss|x|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  return result.length > 3 && result.endsWith('e') ? result.slice(0, -1) : result;
+}
+
+function parseQuery(query: string): QueryUnit[] {
+  const units: QueryUnit[] = [];
+  const phrases = /"([^"]+)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = phrases.exec(query)) !== null) {
+    const stems = tokenize(match[1]).map(token => token.stem);
+    if (stems.length > 0) {
+      units.push({ text: match[1].trim(), stems });
+    }
+  }
+
+  const words = (query.replace(phrases, ' ').match(/[a-z0-9\u00c0-\u024f]+/gi) || [])
+    .filter((word, position, all) => all.findIndex(other => other.toLowerCase() === word.toLowerCase()) === position);
+  // Stop words only matter on their own or inside a phrase
+  const meaningful = words.filter(word => !STOP_WORDS.has(word.toLowerCase()));
+  (meaningful.length > 0 || units.length > 0 ? meaningful : words)
+    .forEach(word => units.push({ text: word, stems: [stem(word)] }));
+
+  return units;
+}
+
+// Index of the first token where `sequence` starts, or -1
+function findSequence(stems: string[], sequence: string[]): number {
+  for (let index = 0; index + sequence.length <= stems.length; index++) {
+    if (sequence.every((part, offset) => stems[index + offset] === part)) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function buildSnippet(passage: Passage, units: QueryUnit[]): SearchSnippet {
+  const tokens = tokenize(passage.text);
+  const firstMatch = Math.min(...units.map(unit => findSequence(passage.stems, unit.stems)).filter(index => index !== -1));
+  const matchOffset = tokens[firstMatch]?.offset || 0;
+
+  let text = passage.text;
+  if (text.length > SNIPPET_LENGTH) {
+    const from = Math.max(0, text.lastIndexOf(' ', Math.max(0, matchOffset - SNIPPET_LENGTH / 3)) + 1);
+    const to = text.indexOf(' ', Math.min(text.length, from + SNIPPET_LENGTH));
+    text = `${from > 0 ? '…' : ''}${text.slice(from, to === -1 ? undefined : to).trim()}${to !== -1 ? '…' : ''}`;
+  }
+
+  return { field: passage.field, text, start: passage.start };
+}
+
+// Split text without timing into passages of roughly PASSAGE_LENGTH characters
+function splitPassages(transcript: string): string[] {
+  const sentences = transcript.match(/[^.!?\n]+[.!?]*/g) || [];
+  const passages: string[] = [];
+  let current = '';
+  for (const sentence of sentences.map(part => part.trim()).filter(Boolean)) {
+    if (current && current.length + sentence.length > PASSAGE_LENGTH) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) {
+    passages.push(current);
+  }
+  return passages;
+}
@@ -0,0 +1,40 @@
+import { AppSettings } from '@/types';
+import type { SavedSettings } from './settings-store';
+
+export class SettingsClient {
+  private static instance: SettingsClient;
+  private baseUrl: string;
+
+  private constructor() {
+    this.baseUrl = '/api/settings';
+  }
+
+  public static getInstance(): SettingsClient {
+    if (!SettingsClient.instance) {
+      SettingsClient.instance = new SettingsClient();
+    }
+    return SettingsClient.instance;
+  }
+
+  public async getSettings(): Promise<AppSettings> {
+    const response = await fetch(this.baseUrl, { cache: 'no-store' });
+    return this.parseResponse<AppSettings>(response);
+  }
+
+  public async updateSettings(patch: SavedSettings): Promise<AppSettings> {
+    const response = await fetch(this.baseUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+    return this.parseResponse<AppSettings>(response);
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,157 @@
+import path from 'path';
+import { AppSettings, QuorumRule, StorageConfig, StorageFolder } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { validateQuorumRule } from './quorum';
+
+// Values saved from the Settings page; anything missing falls back to env/defaults
+export type SavedSettings = Partial<Omit<AppSettings, 'storage'>> & {
+  storage?: {
+    root?: string;
+    folders?: Partial<Record<StorageFolder, string>>;
+  };
+};
+
+const DEFAULT_FOLDERS: Record<StorageFolder, string> = {
+  recordings: 'Recordings',
+  transcripts: 'Transcripts',
+  notes: 'Notes',
+  orders: 'Orders_Notice',
+  logs: 'Logs'
+};
+
+/**
+ * Persisted app settings. Each value resolves as: settings file, then env var, then
+ * default - and is read on every call, so edits apply to the next request without
+ * a restart. Server-side only.
+ */
+export class SettingsStore {
+  private static readonly SETTINGS_FILE = process.env.BUSYBEE_SETTINGS_FILE || path.join(DATA_DIR, 'settings.json');
+
+  static get(): AppSettings {
+    const saved = this.getSaved();
+
+    return {
+      llmProvider: saved.llmProvider || (process.env.LLM_PROVIDER === 'local' ? 'local' : 'openai'),
+      openaiModel: saved.openaiModel || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      localBaseUrl: saved.localBaseUrl || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      localModel: saved.localModel || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      localTranscriptionModel: saved.localTranscriptionModel || process.env.LOCAL_TRANSCRIPTION_MODEL || 'whisper-1',
+      maxTokens: saved.maxTokens ?? parseInt(process.env.OPENAI_MAX_TOKENS || '4000'),
+      temperature: saved.temperature ?? parseFloat(process.env.OPENAI_TEMPERATURE || '0.3'),
+      enableAiCache: saved.enableAiCache ?? process.env.ENABLE_AI_CACHE === 'true',
+      cacheTtlHours: saved.cacheTtlHours ?? parseInt(process.env.CACHE_TTL_HOURS || '24'),
+      storage: this.resolveStorage(saved.storage),
+      quorum: saved.quorum || this.quorumFromEnv()
+    };
+  }
+
+  /**
+   * Only the values saved in the settings file, without env/default fallbacks
+   */
+  static getSaved(): SavedSettings {
+    try {
+      return readJsonFile<SavedSettings>(this.SETTINGS_FILE, {});
+    } catch (error) {
+      console.error('❌ Failed to read settings file, using defaults:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Merge new values into the settings file. Returns the resolved settings.
+   */
+  static update(patch: SavedSettings): AppSettings {
+    const saved = this.getSaved();
+
+    const updated: SavedSettings = {
+      ...saved,
+      ...patch,
+      storage: {
+        ...saved.storage,
+        ...patch.storage,
+        folders: { ...saved.storage?.folders, ...patch.storage?.folders }
+      }
+    };
+
+    writeJsonFile(this.SETTINGS_FILE, updated);
+
+    return this.get();
+  }
+
+  /**
+   * Check a settings patch before saving. Returns a list of problems (empty if valid).
+   */
+  static validate(patch: SavedSettings): string[] {
+    const errors: string[] = [];
+
+    if (patch.llmProvider !== undefined && patch.llmProvider !== 'openai' && patch.llmProvider !== 'local') {
+      errors.push('Provider must be "openai" or "local"');
+    }
+    (['openaiModel', 'localModel', 'localTranscriptionModel'] as const).forEach(key => {
+      if (patch[key] !== undefined && (typeof patch[key] !== 'string' || !patch[key].trim())) {
+        errors.push('Model name is required');
+      }
+    });
+    if (patch.localBaseUrl !== undefined && !/^https?:\/\/\S+$/.test(String(patch.localBaseUrl))) {
+      errors.push('Local endpoint must be an http(s) URL');
+    }
+    if (patch.maxTokens !== undefined && (!Number.isInteger(patch.maxTokens) || patch.maxTokens < 1 || patch.maxTokens > 128000)) {
+      errors.push('Max tokens must be a whole number between 1 and 128000');
+    }
+    if (patch.temperature !== undefined && (typeof patch.temperature !== 'number' || patch.temperature < 0 || patch.temperature > 2)) {
+      errors.push('Temperature must be between 0 and 2');
+    }
+    if (patch.enableAiCache !== undefined && typeof patch.enableAiCache !== 'boolean') {
+      errors.push('Enable cache must be true or false');
+    }
+    if (patch.cacheTtlHours !== undefined && (typeof patch.cacheTtlHours !== 'number' || patch.cacheTtlHours <= 0)) {
+      errors.push('Cache duration must be a positive number of hours');
+    }
+
+    if (patch.quorum !== undefined) {
+      if (typeof patch.quorum !== 'object' || patch.quorum === null) {
+        errors.push('Quorum rule must be an object');
+      } else {
+        errors.push(...validateQuorumRule(patch.quorum));
+      }
+    }
+
+    if (patch.storage?.root !== undefined && (typeof patch.storage.root !== 'string' || !patch.storage.root.trim())) {
+      errors.push('Storage root is required');
+    }
+    Object.entries(patch.storage?.folders || {}).forEach(([folder, name]) => {
+      if (!(folder in DEFAULT_FOLDERS)) {
+        errors.push(`Unknown storage folder: ${folder}`);
+      } else if (typeof name !== 'string' || !name.trim() || name.includes('..') || path.isAbsolute(name)) {
+        errors.push(`Folder for ${folder} must be a name inside the storage root`);
+      }
+    });
+
+    return errors;
+  }
+
+  // BUSYBEE_QUORUM_COUNT sets a fixed quorum; otherwise a majority of BUSYBEE_BODY_SIZE
+  private static quorumFromEnv(): QuorumRule {
+    const bodySize = parseInt(process.env.BUSYBEE_BODY_SIZE || '') || null;
+    const count = parseInt(process.env.BUSYBEE_QUORUM_COUNT || '') || undefined;
+    return count ? { bodySize, type: 'fixed', count } : { bodySize, type: 'majority' };
+  }
+
+  private static resolveStorage(saved: SavedSettings['storage'] = {}): StorageConfig {
+    const folders = { ...DEFAULT_FOLDERS };
+    (Object.keys(DEFAULT_FOLDERS) as StorageFolder[]).forEach(folder => {
+      const override = saved.folders?.[folder] || process.env[`BUSYBEE_FOLDER_${folder.toUpperCase()}`];
+      if (override) {
+        folders[folder] = override;
+      }
+    });
+
+    const root = saved.root || process.env.BUSYBEE_STORAGE_ROOT || path.join(DATA_DIR, 'files');
+
+    return {
+      root: path.resolve(root),
+      folders
+    };
+  }
+}
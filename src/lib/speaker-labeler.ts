@@ -0,0 +1,98 @@
+import { MeetingSpeaker, TranscriptSegment } from '@/types';
+import { resolveSpeakerName, SpeakerAliases } from './speaker-names';
+import { LLMProvider } from './llm-provider';
+
+// Segments per labelling request - keeps prompts well inside the context window
+const BATCH_SIZE = 200;
+
+interface LabelerResponse {
+  segments?: Array<{ i: number; speaker: string }>;
+  speakers?: Record<string, string | null>;
+}
+
+/**
+ * Speaker-labelling stage. Whisper returns unlabeled segments, so we ask the model to
+ * group them by voice/turn-taking cues into "Speaker 1", "Speaker 2"... and note any
+ * name each speaker is addressed or introduced by. Heard names are then resolved
+ * against the body's roster aliases plus learned mappings. Server-side only.
+ */
+export class SpeakerLabeler {
+  static async labelSegments(
+    provider: LLMProvider,
+    segments: TranscriptSegment[],
+    aliases: SpeakerAliases
+  ): Promise<{ segments: TranscriptSegment[]; speakers: MeetingSpeaker[] }> {
+    const labels: string[] = new Array(segments.length);
+    const heardNames: Record<string, string> = {};
+    const knownNames = Array.from(new Set(Object.values(aliases)));
+
+    for (let batchStart = 0; batchStart < segments.length; batchStart += BATCH_SIZE) {
+      const batch = segments.slice(batchStart, batchStart + BATCH_SIZE);
+      const response = await this.labelBatch(provider, batch, batchStart, knownNames, heardNames);
+
+      (response.segments || []).forEach(({ i, speaker }) => {
+        if (i >= batchStart && i < batchStart + batch.length && speaker) {
+          labels[i] = speaker;
+        }
+      });
+
+      Object.entries(response.speakers || {}).forEach(([label, heardAs]) => {
+        if (heardAs && !heardNames[label]) {
+          heardNames[label] = heardAs;
+        }
+      });
+    }
+
+    const labeledSegments = segments.map((segment, index) => ({
+      ...segment,
+      speaker: labels[index] || segment.speaker
+    }));
+
+    const uniqueLabels = Array.from(new Set(labels.filter(Boolean)));
+    const speakers: MeetingSpeaker[] = uniqueLabels.map(label => {
+      const heardAs = heardNames[label];
+      return {
+        label,
+        heardAs,
+        name: heardAs ? resolveSpeakerName(heardAs, aliases) : undefined
+      };
+    });
+
+    console.log(`🗣️ Labelled ${uniqueLabels.length} speakers (${speakers.filter(s => s.name).length} identified)`);
+
+    return { segments: labeledSegments, speakers };
+  }
+
+  private static async labelBatch(
+    provider: LLMProvider,
+    batch: TranscriptSegment[],
+    offset: number,
+    knownNames: string[],
+    heardNames: Record<string, string>
+  ): Promise<LabelerResponse> {
+    const lines = batch.map((segment, index) => `${offset + index}| ${segment.text}`).join('\n');
+    const previousSpeakers = Object.keys(heardNames).length > 0
+      ? `\nSpeakers identified so far (keep the same labels): ${JSON.stringify(heardNames)}`
+      : '';
+
+    const content = await provider.chat({
+      messages: [
+        {
+          role: 'system',
+          content: `You label speakers in meeting transcripts. Always respond with valid JSON format.
+
+Each line is "index| text". Assign every line a speaker label of the form "Speaker N", using turn-taking cues (questions and answers, the chair recognizing someone, "thank you, Commissioner ...", roll call responses) to decide when the speaker changes. Reuse a label whenever the same person speaks again.
+
+If a speaker is named (introduced, addressed, or recognized by the chair), record the name exactly as it appears in the transcript. Known members of this body: ${knownNames.join(', ')}.
+
+Respond as: {"segments": [{"i": 0, "speaker": "Speaker 1"}], "speakers": {"Speaker 1": "name as heard, or null"}}`
+        },
+        { role: 'user', content: `${lines}${previousSpeakers}` }
+      ],
+      temperature: 0,
+      json: true
+    });
+
+    return JSON.parse(content);
+  }
+}
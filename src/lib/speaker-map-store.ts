@@ -0,0 +1,61 @@
+import path from 'path';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { getMemberAliases, SpeakerAliases } from './speaker-names';
+import { BodyStore } from './body-store';
+
+/**
+ * Per-body speaker name mappings learned from previous meetings. When a clerk maps
+ * "Speaker 2" (heard as "Vittil") to Patrick Fitial, the alias is saved here and
+ * applied automatically the next time the same body meets. Keyed by governing
+ * body id, or meeting type for meetings not tied to a body. Server-side only.
+ */
+export class SpeakerMapStore {
+  private static readonly MAPS_FILE = path.join(DATA_DIR, 'speaker-maps.json');
+
+  /**
+   * Aliases for a body: its registered members overlaid with learned mappings.
+   * Keys that aren't a registered body get every registered member's names.
+   */
+  static getAliases(bodyKey: string): SpeakerAliases {
+    const body = BodyStore.get(bodyKey);
+    const members = body ? body.members : BodyStore.list().flatMap(b => b.members);
+
+    return {
+      ...getMemberAliases(members),
+      ...(this.readAll()[bodyKey] || {})
+    };
+  }
+
+  /**
+   * Only the mappings learned for this body, without the defaults
+   */
+  static getLearnedAliases(bodyKey: string): SpeakerAliases {
+    return this.readAll()[bodyKey] || {};
+  }
+
+  /**
+   * Merge new heard-as -> name mappings into a body's saved map
+   */
+  static saveAliases(bodyKey: string, aliases: SpeakerAliases): SpeakerAliases {
+    const maps = this.readAll();
+    const normalized = Object.fromEntries(
+      Object.entries(aliases)
+        .filter(([heardAs, name]) => heardAs.trim() && name.trim())
+        .map(([heardAs, name]) => [heardAs.trim().toLowerCase(), name.trim()])
+    );
+
+    maps[bodyKey] = { ...(maps[bodyKey] || {}), ...normalized };
+    this.writeAll(maps);
+
+    return maps[bodyKey];
+  }
+
+  private static readAll(): Record<string, SpeakerAliases> {
+    return readJsonFile<Record<string, SpeakerAliases>>(this.MAPS_FILE, {});
+  }
+
+  private static writeAll(maps: Record<string, SpeakerAliases>): void {
+    writeJsonFile(this.MAPS_FILE, maps);
+  }
+}
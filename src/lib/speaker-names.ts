@@ -0,0 +1,67 @@
+import { BodyMember, MeetingSpeaker, TranscriptSegment } from '@/types';
+
+// Lower-cased alias -> canonical name
+export type SpeakerAliases = Record<string, string>;
+
+/**
+ * Canonical names plus every alias of a body's members, including misheard
+ * variants such as "Vittil" -> Patrick Fitial
+ */
+export function getMemberAliases(members: BodyMember[]): SpeakerAliases {
+  const aliases: SpeakerAliases = {};
+
+  members.forEach(member => {
+    aliases[member.name.toLowerCase()] = member.name;
+    [...member.aliases, `${member.title} ${member.name}`].forEach(variant => {
+      aliases[variant.toLowerCase()] = member.name;
+    });
+  });
+
+  return aliases;
+}
+
+/**
+ * Resolve a name as heard in the transcript to a known person.
+ * Tries an exact alias match first, then any alias contained in the text
+ * (longest first, so "Vice Chair Fitial" wins over "Fitial").
+ */
+export function resolveSpeakerName(heardAs: string, aliases: SpeakerAliases): string | undefined {
+  const heard = heardAs.trim().toLowerCase();
+  if (!heard) {
+    return undefined;
+  }
+
+  if (aliases[heard]) {
+    return aliases[heard];
+  }
+
+  const match = Object.keys(aliases)
+    .sort((a, b) => b.length - a.length)
+    .find(alias => new RegExp(`\\b${escapeRegExp(alias)}\\b`, 'i').test(heard));
+
+  return match ? aliases[match] : undefined;
+}
+
+/**
+ * Display name for a segment's speaker label, using the meeting's mapping when available
+ */
+export function getSpeakerName(label: string | undefined, speakers: MeetingSpeaker[] = []): string | undefined {
+  if (!label) {
+    return undefined;
+  }
+  return speakers.find(speaker => speaker.label === label)?.name || label;
+}
+
+/**
+ * Replace speaker labels with mapped names, e.g. "Speaker 2" -> "Patrick Fitial"
+ */
+export function applySpeakerNames(segments: TranscriptSegment[], speakers: MeetingSpeaker[] = []): TranscriptSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    speaker: getSpeakerName(segment.speaker, speakers)
+  }));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
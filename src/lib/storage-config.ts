@@ -0,0 +1,22 @@
+import path from 'path';
+import { StorageConfig, StorageFolder } from '@/types';
+import { SettingsStore } from './settings-store';
+
+/**
+ * The one storage layout used by FileOrganizer, /api/save-summary and (via
+ * /api/storage) FileSystemManager. Defaults are overridden by env vars
+ * (BUSYBEE_STORAGE_ROOT, BUSYBEE_FOLDER_RECORDINGS, ...), which are in turn
+ * overridden by the "storage" section of the settings file. Read on every call
+ * so edits apply without a restart. Server-side only.
+ */
+export function getStorageConfig(): StorageConfig {
+  return SettingsStore.get().storage;
+}
+
+/**
+ * Absolute path of a category folder, optionally joined with a file name
+ */
+export function resolveStoragePath(folder: StorageFolder, fileName: string = ''): string {
+  const { root, folders } = getStorageConfig();
+  return path.join(root, folders[folder], fileName);
+}
@@ -218,17 +218,3 @@ export const MEETING_TEMPLATES: MeetingTemplate[] = [
     template: CSC_NOTICE_ORDER_TEMPLATE
   }
 ];
-
-export const COMMON_NAMES = {
-  'Raymond Muna': ['Muña', 'Raymond', 'Muna', 'Chairman Muna', 'Chair Muna'],
-  'Patrick Fitial': ['Vittil', 'Patrick', 'Fitial', 'Vice Chair Fitial'],
-  'Victoria Bellas': ['Bellas', 'Victoria', 'Secretary Bellas'],
-  'Richard Farrell': ['Farrell', 'Richard', 'Budget Officer Farrell'],
-  'Elvira Mesgnon': ['Olivia', 'Elvira', 'Mesgnon', 'Commissioner Mesgnon'],
-  'Michele Joab': ['Michele', 'Joab', 'Commissioner Joab'],
-  'Frances Torres': ['Frances', 'Torres', 'Commissioner Torres'],
-  'Joseph Pangelinan': ['Joseph', 'Pangelinan', 'Director Pangelinan'],
-  'Teresa Borja': ['Teresa', 'Borja', 'Executive Assistant Borja'],
-  'Mark Scoggins': ['Mark', 'Scoggins', 'Hearing Officer Scoggins'],
-  'Kadianne Mangarero': ['Kadianne', 'Mangarero', 'Executive Secretary Mangarero']
-};
\ No newline at end of file
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { MeetingAnalysis, Recording, TranscriptVersion } from '@/types';
+import { DATA_DIR } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+/**
+ * Versions of each meeting's transcript and the analyses run on them, one JSON
+ * file per meeting under transcript-versions/. Corrections never overwrite what
+ * Whisper heard, and re-analysing a corrected transcript keeps the earlier
+ * analysis. Server-side only - used by the /api/meetings/:id/transcripts and
+ * /analyses routes and the job runner.
+ */
+export class TranscriptStore {
+  private static readonly VERSIONS_DIR = path.join(DATA_DIR, 'transcript-versions');
+
+  /**
+   * Transcript versions, oldest first. Meetings transcribed before versions
+   * were kept get their current transcript as version 1.
+   */
+  static listVersions(recording: Recording): TranscriptVersion[] {
+    const { versions } = this.readAll(recording.id);
+    if (versions.length > 0 || !recording.transcriptUrl) {
+      return versions;
+    }
+
+    return [{
+      number: 1,
+      transcript: recording.transcriptUrl,
+      segments: recording.transcriptSegments,
+      author: 'BusyBee',
+      source: 'transcribed',
+      createdAt: (recording.createdAt || recording.date).toISOString()
+    }];
+  }
+
+  /**
+   * Record a new transcript version. Returns the saved version.
+   */
+  static addVersion(
+    recording: Recording,
+    version: Pick<TranscriptVersion, 'transcript' | 'author' | 'source'> & Partial<Pick<TranscriptVersion, 'segments' | 'note'>>
+  ): TranscriptVersion {
+    const stored = this.readAll(recording.id);
+    const versions = this.listVersions(recording);
+    const saved: TranscriptVersion = {
+      ...version,
+      author: version.author.trim(),
+      note: version.note?.trim() || undefined,
+      number: (versions[versions.length - 1]?.number || 0) + 1,
+      createdAt: new Date().toISOString()
+    };
+
+    this.writeAll(recording.id, { ...stored, versions: [...versions, saved] });
+    return saved;
+  }
+
+  /**
+   * Number of the meeting's current transcript version. A transcript from before
+   * versions were kept is saved as version 1 first, so the number always refers
+   * to a stored version.
+   */
+  static currentVersion(recording: Recording): number {
+    const stored = this.readAll(recording.id);
+    if (stored.versions.length === 0) {
+      const versions = this.listVersions(recording);
+      this.writeAll(recording.id, { ...stored, versions });
+      return versions.length;
+    }
+    return recording.transcriptVersion || stored.versions[stored.versions.length - 1].number;
+  }
+
+  /**
+   * Analyses of the meeting, oldest first
+   */
+  static listAnalyses(meetingId: string): MeetingAnalysis[] {
+    return this.readAll(meetingId).analyses;
+  }
+
+  static addAnalysis(meetingId: string, analysis: MeetingAnalysis): void {
+    const stored = this.readAll(meetingId);
+    this.writeAll(meetingId, { ...stored, analyses: [...stored.analyses, analysis] });
+  }
+
+  static remove(meetingId: string): void {
+    fs.rmSync(this.fileFor(meetingId), { force: true });
+  }
+
+  private static fileFor(meetingId: string): string {
+    return path.join(this.VERSIONS_DIR, `${path.basename(meetingId)}.json`);
+  }
+
+  private static readAll(meetingId: string): { versions: TranscriptVersion[]; analyses: MeetingAnalysis[] } {
+    return readJsonFile(this.fileFor(meetingId), { versions: [], analyses: [] });
+  }
+
+  private static writeAll(meetingId: string, data: { versions: TranscriptVersion[]; analyses: MeetingAnalysis[] }): void {
+    writeJsonFile(this.fileFor(meetingId), data);
+  }
+}
@@ -0,0 +1,24 @@
+import { TranscriptSegment } from '@/types';
+
+/**
+ * Format seconds as an HH:MM:SS timestamp, e.g. 2530 -> "00:42:10"
+ */
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Render segments as "[HH:MM:SS] text" lines so the model can cite when things were said
+ */
+export function buildTimestampedTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .map(segment => {
+      const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+      return `[${formatTimestamp(segment.start)}] ${speaker}${segment.text}`;
+    })
+    .join('\n');
+}
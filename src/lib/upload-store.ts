@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+interface UploadManifest {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  receivedBytes: number;
+  nextChunkIndex: number;
+  createdAt: string;
+}
+
+/**
+ * Staging area for audio uploaded in parts. Large recordings are sent as a sequence
+ * of chunks (so no single request carries the whole file) and assembled on disk
+ * before transcription. Server-side only.
+ */
+export class UploadStore {
+  private static readonly UPLOAD_DIR = path.join(os.tmpdir(), 'busybee-uploads');
+
+  static create(fileName: string, mimeType: string, size: number): UploadManifest {
+    this.ensureDirectory();
+
+    const manifest: UploadManifest = {
+      id: randomUUID(),
+      fileName,
+      mimeType: mimeType || 'application/octet-stream',
+      size,
+      receivedBytes: 0,
+      nextChunkIndex: 0,
+      createdAt: new Date().toISOString()
+    };
+
+    fs.writeFileSync(this.dataPath(manifest.id), '');
+    this.writeManifest(manifest);
+    return manifest;
+  }
+
+  /**
+   * Append a chunk. Chunks must arrive in order; a repeated index is ignored so clients can retry.
+   */
+  static appendChunk(id: string, index: number, data: Buffer): UploadManifest {
+    const manifest = this.getManifest(id);
+    if (!manifest) {
+      throw new Error(`Upload ${id} not found`);
+    }
+
+    if (index < manifest.nextChunkIndex) {
+      return manifest;
+    }
+    if (index !== manifest.nextChunkIndex) {
+      throw new Error(`Expected chunk ${manifest.nextChunkIndex} but received ${index}`);
+    }
+    if (manifest.receivedBytes + data.length > manifest.size) {
+      throw new Error('Upload exceeds declared size');
+    }
+
+    fs.appendFileSync(this.dataPath(id), data);
+    manifest.receivedBytes += data.length;
+    manifest.nextChunkIndex++;
+    this.writeManifest(manifest);
+
+    return manifest;
+  }
+
+  /**
+   * Resolve a fully received upload to its assembled file on disk
+   */
+  static getCompletedFile(id: string): { filePath: string; fileName: string; mimeType: string; size: number } | null {
+    const manifest = this.getManifest(id);
+    if (!manifest || manifest.receivedBytes !== manifest.size) {
+      return null;
+    }
+
+    return {
+      filePath: this.dataPath(id),
+      fileName: manifest.fileName,
+      mimeType: manifest.mimeType,
+      size: manifest.size
+    };
+  }
+
+  static remove(id: string): void {
+    fs.rmSync(this.dataPath(id), { force: true });
+    fs.rmSync(this.manifestPath(id), { force: true });
+  }
+
+  private static getManifest(id: string): UploadManifest | null {
+    // Upload ids are UUIDs - reject anything that could escape the staging directory
+    if (!/^[a-f0-9-]+$/i.test(id) || !fs.existsSync(this.manifestPath(id))) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(this.manifestPath(id), 'utf-8'));
+  }
+
+  private static writeManifest(manifest: UploadManifest): void {
+    fs.writeFileSync(this.manifestPath(manifest.id), JSON.stringify(manifest));
+  }
+
+  private static ensureDirectory(): void {
+    if (!fs.existsSync(this.UPLOAD_DIR)) {
+      fs.mkdirSync(this.UPLOAD_DIR, { recursive: true });
+    }
+  }
+
+  private static dataPath(id: string): string {
+    return path.join(this.UPLOAD_DIR, `${id}.part`);
+  }
+
+  private static manifestPath(id: string): string {
+    return path.join(this.UPLOAD_DIR, `${id}.json`);
+  }
+}
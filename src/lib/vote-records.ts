@@ -0,0 +1,46 @@
+import { MemberVoteRecord } from '@/types';
+import { MeetingStore } from './meeting-store';
+import { SpeakerMapStore } from './speaker-map-store';
+import { resolveSpeakerName } from './speaker-names';
+
+export interface VoteSearch {
+  member?: string; // Any name the member is known by
+  q?: string; // Words that must all appear in the motion text
+  bodyId?: string;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+}
+
+/**
+ * Searches roll-call votes across processed meetings, e.g. how one commissioner
+ * voted on budget motions this year. Server-side only - used by /api/votes.
+ */
+export class VoteRecords {
+  static search(filter: VoteSearch): MemberVoteRecord[] {
+    const member = filter.member?.trim() || '';
+    const canonical = member ? resolveSpeakerName(member, SpeakerMapStore.getAliases(filter.bodyId || '')) || member : '';
+    const words = (filter.q || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    return MeetingStore.list()
+      .filter(meeting => !filter.bodyId || meeting.bodyId === filter.bodyId)
+      .filter(meeting => {
+        const day = meeting.date.toISOString().split('T')[0];
+        return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to);
+      })
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .flatMap(meeting => (meeting.motions || [])
+        .filter(motion => words.every(word => motion.text.toLowerCase().includes(word)))
+        .flatMap(motion => (motion.memberVotes || [])
+          .filter(entry => !canonical || entry.member === canonical || entry.member.toLowerCase().includes(member.toLowerCase()))
+          .map(entry => ({
+            ...entry,
+            meetingId: meeting.id,
+            meetingTitle: meeting.title,
+            date: meeting.date.toISOString().split('T')[0],
+            bodyId: meeting.bodyId,
+            motionNumber: motion.number,
+            motionText: motion.text,
+            result: motion.result
+          }))));
+  }
+}
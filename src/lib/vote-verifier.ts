@@ -0,0 +1,115 @@
+import { BoardMeetingResult, VoteVerification, VotingThreshold } from '@/types';
+import { prependWarning } from './quorum';
+import { tallyRollCall } from './roll-call';
+
+type Motion = BoardMeetingResult['motions'][number];
+
+export interface VotingContext {
+  threshold: VotingThreshold;
+  bodySize: number | null; // Voting seats, needed for majority_of_membership
+  presentCount: number | null; // Voting members recorded present
+}
+
+const THRESHOLD_NAMES: Record<VotingThreshold, string> = {
+  majority: 'a majority of votes cast',
+  two_thirds: 'two-thirds of votes cast',
+  majority_of_membership: 'a majority of the full membership'
+};
+
+// Reads the recorded outcome: true for passed, false for failed, null if unclear
+function recordedOutcome(result: string): boolean | null {
+  // Failure first: "failed to pass" and "did not carry" also contain pass wording
+  if (/\b(fail(ed|s)?|defeated|rejected|lost)\b|\b(did|does) not (pass|carry)\b|\bnot (passed|carried|approved|adopted)\b/i.test(result)) {
+    return false;
+  }
+  if (/\b(pass(ed|es)?|carried|approved|adopted)\b/i.test(result)) {
+    return true;
+  }
+  return null;
+}
+
+// Whether a tally meets the threshold, or null when it can't be decided
+function meetsThreshold(voteCount: NonNullable<Motion['voteCount']>, context: VotingContext): boolean | null {
+  const { yes, no } = voteCount;
+
+  switch (context.threshold) {
+    case 'two_thirds':
+      return yes + no > 0 ? yes * 3 >= (yes + no) * 2 : false;
+    case 'majority_of_membership':
+      return context.bodySize ? yes > context.bodySize / 2 : null;
+    default:
+      return yes > no;
+  }
+}
+
+/**
+ * Check one motion's tally and recorded result against attendance and the body's
+ * voting rule. Abstentions don't count as votes cast under Robert's Rules.
+ */
+export function verifyMotion(motion: Motion, context: VotingContext): VoteVerification {
+  if (!motion.voteCount) {
+    return { status: 'unverifiable', issues: ['No vote tally recorded'] };
+  }
+
+  const { yes, no, abstain } = motion.voteCount;
+  const total = yes + no + abstain;
+  const issues: string[] = [];
+
+  if ([yes, no, abstain].some(count => count < 0 || !Number.isInteger(count))) {
+    issues.push(`Tally ${yes}-${no}-${abstain} contains an impossible count`);
+  }
+  if (motion.memberVotes && motion.memberVotes.length > 0) {
+    const rollCall = tallyRollCall(motion.memberVotes);
+    if (rollCall.yes !== yes || rollCall.no !== no) {
+      issues.push(`Roll call shows ${rollCall.yes}-${rollCall.no} but the tally was recorded as ${yes}-${no}`);
+    }
+  }
+  if (context.presentCount !== null && total > context.presentCount) {
+    issues.push(`${total} votes recorded but only ${context.presentCount} voting members were present`);
+  }
+  if (context.bodySize !== null && total > context.bodySize) {
+    issues.push(`${total} votes recorded but the body has ${context.bodySize} voting seats`);
+  }
+
+  const outcome = recordedOutcome(motion.result);
+  const met = meetsThreshold(motion.voteCount, context);
+  const thresholdName = THRESHOLD_NAMES[context.threshold];
+
+  if (outcome === true && met === false) {
+    issues.push(`Recorded as passed, but ${yes}-${no} does not meet ${thresholdName}`);
+  } else if (outcome === false && met === true) {
+    issues.push(`Recorded as failed, but ${yes}-${no} meets ${thresholdName}`);
+  }
+
+  if (issues.length > 0) {
+    return { status: 'flagged', issues };
+  }
+  if (outcome === null || met === null) {
+    return {
+      status: 'unverifiable',
+      issues: [outcome === null ? `Result "${motion.result}" is not a clear pass or fail` : 'Body size is needed to check a full-membership vote']
+    };
+  }
+  return { status: 'verified', issues: [] };
+}
+
+/**
+ * Verify every motion and flag the minutes when any tally is impossible or a
+ * recorded result doesn't follow from the vote.
+ */
+export function verifyVotes(result: BoardMeetingResult, context: VotingContext): BoardMeetingResult {
+  const motions = result.motions.map(motion => ({ ...motion, verification: verifyMotion(motion, context) }));
+  const flagged = motions.filter(motion => motion.verification.status === 'flagged');
+
+  if (flagged.length === 0) {
+    return { ...result, motions };
+  }
+
+  const warning = [
+    '> ⚠️ **Vote discrepancies** - check these against the recording before approving these minutes:',
+    ...flagged.flatMap(motion => motion.verification.issues.map(issue => `> - Motion ${motion.number} (${motion.text.slice(0, 60)}): ${issue}`))
+  ].join('\n');
+  console.warn(`⚠️ ${flagged.length} motion(s) failed vote verification`);
+
+  return { ...result, motions, summary: prependWarning(result.summary, warning) };
+}
@@ -1,14 +1,293 @@
+// Stored meeting record, persisted server-side by MeetingStore
 export interface Recording {
   id: string;
   title: string;
   date: Date;
   duration: number;
   status: 'recording' | 'processing' | 'completed' | 'error';
-  type: 'commission' | 'case' | 'board' | 'other';
+  type: 'commission' | 'case' | 'board' | 'general' | 'other';
   audioUrl?: string;
+  audioFileName?: string;
+  audioMimeType?: string;
   transcriptUrl?: string;
+  transcriptSegments?: TranscriptSegment[];
+  transcriptVersion?: number; // Version of the transcript currently in use, see TranscriptVersion
+  speakers?: MeetingSpeaker[];
   summaryUrl?: string;
   participants: string[];
+  jobId?: string; // Latest AI processing job, see ProcessingJob
+  bodyId?: string; // Governing body that met, see GoverningBody
+  analysisMode?: AnalysisMode;
+  validationWarnings?: string[]; // Corrections made to the AI output, see AIProcessingResult
+  motions?: BoardMeetingResult['motions']; // Kept for board meetings so votes can be searched
+  minutes?: MinutesReview; // Approval lifecycle of the summary; absent means a draft
+  organizedFiles?: Record<string, string>; // Files written by FileOrganizer, relative to the storage root
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Lifecycle of a meeting's minutes: drafted by the pipeline, reviewed, approved
+// by the body at a later meeting, then published as the official record
+export type MinutesStatus = 'draft' | 'in_review' | 'approved' | 'published';
+
+export interface MinutesComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface MinutesStatusChange {
+  status: MinutesStatus;
+  at: string;
+  by?: string;
+  note?: string;
+}
+
+export interface MinutesReview {
+  status: MinutesStatus;
+  comments: MinutesComment[];
+  history: MinutesStatusChange[];
+  approvedOn?: string; // ISO date of the meeting that approved the minutes
+  approvalMotion?: string; // Motion that approved them, e.g. "Motion 2, moved by Fitial, seconded by Bellas"
+  publishedAt?: string;
+}
+
+// A requested status change, see MinutesWorkflow
+export interface MinutesTransition {
+  status: MinutesStatus;
+  by?: string;
+  note?: string;
+  approvedOn?: string; // Required when approving
+  approvalMotion?: string; // Required when approving
+}
+
+// One saved version of a meeting's summary, see RevisionStore
+export interface SummaryRevision {
+  number: number; // 1 for the first version, increasing with each save
+  summary: string;
+  author: string;
+  note?: string; // What was changed and why
+  source: 'generated' | 'edit' | 'revert';
+  revertedFrom?: number; // Revision restored, for source 'revert'
+  createdAt: string;
+}
+
+// One version of a meeting's transcript: as transcribed, or as corrected by a
+// person. Analyses record which version they were run on. See TranscriptStore
+export interface TranscriptVersion {
+  number: number;
+  transcript: string;
+  segments?: TranscriptSegment[];
+  author: string;
+  note?: string;
+  source: 'transcribed' | 'correction';
+  createdAt: string;
+}
+
+// The outcome of one processing run, kept so re-analysis doesn't lose the earlier one
+export interface MeetingAnalysis {
+  id: string; // The processing job that produced it
+  transcriptVersion: number;
+  summary: string;
+  analysisMode?: AnalysisMode;
+  keyDecisions: string[];
+  actionItems: string[];
+  motions?: BoardMeetingResult['motions'];
+  validationWarnings?: string[];
+  createdAt: string;
+}
+
+// Files a meeting can be downloaded as, individually or in an export bundle
+export type MeetingFileType = 'audio' | 'transcript' | 'summary' | 'analysis';
+
+// Fields a client may set when creating or updating a meeting
+export type RecordingInput = Omit<Recording, 'id' | 'audioUrl' | 'audioFileName' | 'audioMimeType' | 'createdAt' | 'updatedAt'>;
+
+// How a summary was produced: by the LLM, or by the offline pattern-matching analyzer
+export type AnalysisMode = 'ai' | 'heuristic';
+
+// Lifecycle of a background AI processing job
+export type ProcessingJobState = 'queued' | 'transcribing' | 'analyzing' | 'done' | 'failed';
+
+// An AI processing job, persisted server-side by JobQueue. Results are written
+// to the meeting it belongs to; timestamps are ISO strings.
+export interface ProcessingJob {
+  id: string;
+  meetingId: string;
+  provider?: LLMProviderId; // Overrides the provider chosen in settings
+  state: ProcessingJobState;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Category folders in the organized storage tree
+export type StorageFolder = 'recordings' | 'transcripts' | 'notes' | 'orders' | 'logs';
+
+// Resolved storage layout: folder names are relative to root
+export interface StorageConfig {
+  root: string;
+  folders: Record<StorageFolder, string>;
+}
+
+// Backends for analysis and transcription: OpenAI, or an OpenAI-compatible
+// local server (Ollama, llama.cpp, LocalAI)
+export type LLMProviderId = 'openai' | 'local';
+
+// How many members a body needs present to conduct business
+export interface QuorumRule {
+  bodySize: number | null; // Seats on the board/commission; null when not configured
+  type: 'majority' | 'fixed'; // Majority of seats, or a fixed number of members
+  count?: number; // Members required when type is 'fixed'
+}
+
+export type VotingThreshold = 'majority' | 'two_thirds' | 'majority_of_membership';
+
+export interface BodyMember {
+  name: string;
+  title: string; // e.g. "Chairperson", "Commissioner", "Executive Director"
+  voting: boolean; // Staff and counsel attend but don't count toward quorum or votes
+  termStart?: string; // ISO date; the member is on the roster for meetings from this date
+  termEnd?: string; // ISO date; last day of the term
+  aliases: string[]; // Other ways the name is heard, e.g. "Vittil" for Fitial
+}
+
+// A board or commission with its roster and rules, managed in the body registry
+export interface GoverningBody {
+  id: string;
+  name: string;
+  members: BodyMember[];
+  quorum: QuorumRule;
+  votingThreshold: VotingThreshold; // What a motion needs to pass
+  defaultTemplate: 'commission' | 'case'; // Minutes template for this body's meetings
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GoverningBodyInput = Omit<GoverningBody, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type MemberVoteValue = 'aye' | 'nay' | 'abstain' | 'absent' | 'recused';
+
+// How one member voted in a roll call
+export interface MemberVote {
+  member: string;
+  vote: MemberVoteValue;
+}
+
+// A member's vote found by searching roll calls across meetings
+export interface MemberVoteRecord extends MemberVote {
+  meetingId: string;
+  meetingTitle: string;
+  date: string;
+  bodyId?: string;
+  motionNumber: number;
+  motionText: string;
+  result: string;
+}
+
+// Part of a meeting that full-text search looks in
+export type SearchField = 'title' | 'participants' | 'transcript' | 'summary' | 'motion' | 'actionItem';
+
+// A passage that matched the query, trimmed around the first match
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  start?: number; // Seconds into the recording, for transcript segments
+}
+
+export interface SearchResult {
+  meetingId: string;
+  title: string;
+  date: string;
+  type: Recording['type'];
+  bodyId?: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export interface SearchResponse {
+  query: string;
+  terms: string[]; // Words and phrases from the query, for highlighting
+  total: number; // Matching meetings before the result limit
+  results: SearchResult[];
+}
+
+// A passage an archive answer relies on; `number` is how the answer text cites it, e.g. [2]
+export interface ArchiveCitation {
+  number: number;
+  meetingId: string;
+  meetingTitle: string;
+  date: string;
+  field: SearchField;
+  text: string;
+  start?: number; // Seconds into the recording, for transcript passages
+}
+
+export interface ArchiveAnswer {
+  question: string;
+  answer: string;
+  mode: AnalysisMode; // 'heuristic' when no model was available and passages are quoted instead
+  citations: ArchiveCitation[];
+  warnings?: string[];
+}
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+
+// A task assigned at a meeting, tracked until it's done. Items are extracted
+// from each analysis' action items, or added by hand. See ActionItemStore
+export interface ActionItem {
+  id: string;
+  description: string;
+  assignee?: string;
+  dueDate?: string; // YYYY-MM-DD
+  status: ActionItemStatus;
+  meetingId: string; // Meeting it was assigned at
+  meetingTitle: string;
+  meetingDate: string; // ISO
+  bodyId?: string;
+  meetingType: Recording['type'];
+  timestamp?: number; // Seconds into the source meeting's recording
+  source: 'extracted' | 'manual';
+  carriedOverTo: string[]; // Later meetings whose agenda listed it as still open
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// Fields a person may set on an action item
+export type ActionItemInput = Pick<ActionItem, 'description' | 'assignee' | 'dueDate' | 'status'>;
+
+// Outcome of checking a motion's tally and result against attendance and the voting rule
+export interface VoteVerification {
+  status: 'verified' | 'flagged' | 'unverifiable';
+  issues: string[];
+}
+
+export type QuorumState = 'met' | 'not_met' | 'unknown';
+
+export interface QuorumStatus {
+  state: QuorumState;
+  presentCount: number | null; // null when attendance wasn't recorded
+  requiredCount: number | null; // null when no body size or quorum rule is configured
+  reported?: boolean; // What the minutes/model claimed, kept separate from what was verified
+  note?: string; // Why quorum is unverified, or how it disagrees with what was reported
+}
+
+// App settings editable from the Settings page, persisted by SettingsStore.
+// Each value falls back to its env var (OPENAI_MODEL, OPENAI_MAX_TOKENS, ...).
+export interface AppSettings {
+  llmProvider: LLMProviderId;
+  openaiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localTranscriptionModel: string;
+  maxTokens: number;
+  temperature: number;
+  enableAiCache: boolean;
+  cacheTtlHours: number;
+  storage: StorageConfig;
+  quorum: QuorumRule;
 }
 
 export interface MeetingTemplate {
@@ -26,15 +305,27 @@ export interface AudioRecorderState {
   stream?: MediaStream;
 }
 
+// A timed slice of a transcript; start/end are seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// A diarized speaker in one meeting. `label` matches TranscriptSegment.speaker
+// ("Speaker 2"); `name` is the real person it has been mapped to, and `heardAs`
+// is how the transcript referred to them (e.g. "Vittil").
+export interface MeetingSpeaker {
+  label: string;
+  name?: string;
+  heardAs?: string;
+}
+
 export interface TranscriptionResult {
   text: string;
   confidence: number;
-  segments: {
-    start: number;
-    end: number;
-    text: string;
-    speaker?: string;
-  }[];
+  segments: TranscriptSegment[];
 }
 
 export interface AIProcessingResult {
@@ -44,6 +335,11 @@ export interface AIProcessingResult {
   participants: string[];
   meetingType: 'general' | 'case' | 'board' | 'other' | 'error';
   keyDecisions: string[];
+  segments?: TranscriptSegment[];
+  speakers?: MeetingSpeaker[];
+  analysisMode?: AnalysisMode;
+  // Problems found checking the model's JSON against the result schema, as "path: message"
+  validationWarnings?: string[];
 }
 
 // Specialized result types for different agents
@@ -62,12 +358,10 @@ export interface BoardMeetingResult extends AIProcessingResult {
     seconder: string;
     result: string;
     voteCount?: { yes: number; no: number; abstain: number; };
+    memberVotes?: MemberVote[]; // Roll-call votes, when members were polled individually
+    verification?: VoteVerification;
   }>;
-  quorumStatus: {
-    met: boolean;
-    presentCount: number;
-    requiredCount: number;
-  };
+  quorumStatus: QuorumStatus;
   agendaItems: Array<{
     title: string;
     discussion: string;
@@ -130,4 +424,92 @@ export interface LegalCaseResult extends AIProcessingResult {
     description: string;
     type: 'hearing' | 'filing' | 'deadline' | 'other';
   }>;
-}
\ No newline at end of file
+}
+
+// One hearing's case details as extracted from its analysis, filed in the case
+// docket under its case number. See CaseDocket
+export interface CaseHearing {
+  meetingId: string;
+  caseNumber?: string; // Missing when none was found, until a clerk assigns one
+  caseNumberAssigned?: boolean; // Set by a clerk; kept when the hearing is analyzed again
+  caseInformation: LegalCaseResult['caseInformation'];
+  parties: LegalCaseResult['parties'];
+  courtPersonnel: LegalCaseResult['courtPersonnel'];
+  hearingDetails: Partial<LegalCaseResult['hearingDetails']>;
+  legalIssues: string[];
+  proceduralMatters: LegalCaseResult['proceduralMatters'];
+  evidence: LegalCaseResult['evidence'];
+  rulings: LegalCaseResult['rulings'];
+  nextSteps: LegalCaseResult['nextSteps'];
+  importantDates: LegalCaseResult['importantDates'];
+  recordedAt: string;
+}
+
+// The hearing an entry in a case record came from
+export interface CaseHearingRef {
+  meetingId: string;
+  meetingTitle: string;
+  date: string; // ISO date of the meeting
+  hearingType?: string;
+}
+
+// Everything recorded about one case across its hearings, oldest hearing first
+export interface CaseRecord {
+  caseNumber: string;
+  caseTitle?: string;
+  jurisdiction?: string;
+  caseType?: string;
+  parties: LegalCaseResult['parties'];
+  courtPersonnel: LegalCaseResult['courtPersonnel']; // As of the latest hearing
+  hearings: CaseHearingRef[];
+  legalIssues: string[];
+  rulings: Array<LegalCaseResult['rulings'][number] & { hearing: CaseHearingRef }>;
+  proceduralMatters: Array<LegalCaseResult['proceduralMatters'][number] & { hearing: CaseHearingRef }>;
+  evidence: Array<LegalCaseResult['evidence'][number] & { hearing: CaseHearingRef }>;
+  importantDates: Array<LegalCaseResult['importantDates'][number] & { hearing: CaseHearingRef }>; // In date order
+  nextSteps: LegalCaseResult['nextSteps']; // From the latest hearing
+}
+
+export interface CaseSummary {
+  caseNumber: string;
+  caseTitle?: string;
+  hearingCount: number;
+  firstHearing: string;
+  lastHearing: string;
+  nextDate?: LegalCaseResult['importantDates'][number]; // Earliest important date from today on
+}
+
+export interface CaseDocketListing {
+  cases: CaseSummary[];
+  unassigned: CaseHearingRef[]; // Hearings no case number was found for
+}
+
+export type CalendarEventType = 'meeting' | 'call' | 'event' | 'reminder' | 'hearing' | 'filing' | 'deadline';
+
+// Dates found in analyses are proposed until someone confirms them; dismissed
+// ones are kept so the same date isn't proposed again
+export type CalendarEventStatus = 'proposed' | 'confirmed' | 'dismissed';
+
+// An entry in the local calendar, see CalendarStore
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  start: string; // YYYY-MM-DD for all-day events, otherwise an ISO date-time
+  end: string;
+  allDay: boolean;
+  description?: string;
+  attendees?: string[];
+  location?: string;
+  type: CalendarEventType;
+  status: CalendarEventStatus;
+  source?: {
+    meetingId: string; // Hearing the date was extracted from
+    caseNumber?: string;
+    kind: 'importantDate' | 'nextStep';
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields a person may set on a calendar event
+export type CalendarEventInput = Pick<CalendarEvent, 'title' | 'start' | 'end' | 'allDay' | 'description' | 'attendees' | 'location' | 'type' | 'status'>;